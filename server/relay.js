@@ -0,0 +1,159 @@
+// Relay for collaborative editing: `npm run relay`, then connect to
+// ws://<host>:1234 from the modeler. Each room keeps its shared document in
+// memory for as long as the relay runs, and passes edits and presence between
+// everyone in the room. Set PORT or HOST to listen elsewhere.
+import http from 'node:http';
+import { WebSocketServer } from 'ws';
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+
+const PORT = Number(process.env.PORT || 1234);
+const HOST = process.env.HOST || '0.0.0.0';
+
+// Message types of the y-websocket protocol
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+const MESSAGE_QUERY_AWARENESS = 3;
+
+const PING_INTERVAL = 30000;
+
+const rooms = new Map();
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) socket.send(message);
+};
+
+const awarenessMessage = (awareness, clientIds) => {
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+  encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(awareness, clientIds));
+  return encoding.toUint8Array(encoder);
+};
+
+const getRoom = (name) => {
+  let room = rooms.get(name);
+  if (room) return room;
+
+  const doc = new Y.Doc();
+  const awareness = new awarenessProtocol.Awareness(doc);
+  awareness.setLocalState(null);
+  // Each socket with the awareness clients it speaks for
+  const sockets = new Map();
+  room = { doc, awareness, sockets };
+
+  doc.on('update', (update) => {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeUpdate(encoder, update);
+    const message = encoding.toUint8Array(encoder);
+    sockets.forEach((_, socket) => send(socket, message));
+  });
+
+  awareness.on('update', ({ added, updated, removed }, origin) => {
+    const changed = [...added, ...updated, ...removed];
+    const clientIds = sockets.get(origin);
+    if (clientIds) {
+      added.forEach(id => clientIds.add(id));
+      removed.forEach(id => clientIds.delete(id));
+    }
+    const message = awarenessMessage(awareness, changed);
+    sockets.forEach((_, socket) => send(socket, message));
+  });
+
+  rooms.set(name, room);
+  return room;
+};
+
+const handleMessage = (room, socket, data) => {
+  const decoder = decoding.createDecoder(new Uint8Array(data));
+  const encoder = encoding.createEncoder();
+
+  switch (decoding.readVarUint(decoder)) {
+    case MESSAGE_SYNC:
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      syncProtocol.readSyncMessage(decoder, encoder, room.doc, socket);
+      // Only a reply to sync step 1 has content beyond the message type
+      if (encoding.length(encoder) > 1) send(socket, encoding.toUint8Array(encoder));
+      break;
+    case MESSAGE_AWARENESS:
+      awarenessProtocol.applyAwarenessUpdate(room.awareness, decoding.readVarUint8Array(decoder), socket);
+      break;
+    case MESSAGE_QUERY_AWARENESS:
+      send(socket, awarenessMessage(room.awareness, [...room.awareness.getStates().keys()]));
+      break;
+  }
+};
+
+const leave = (room, socket) => {
+  const clientIds = room.sockets.get(socket);
+  if (!clientIds) return;
+  room.sockets.delete(socket);
+  awarenessProtocol.removeAwarenessStates(room.awareness, [...clientIds], null);
+};
+
+const server = http.createServer((_request, response) => {
+  response.writeHead(200, { 'Content-Type': 'text/plain' });
+  response.end('Business Domain Modeler relay\n');
+});
+
+const wss = new WebSocketServer({ server });
+
+wss.on('connection', (socket, request) => {
+  // The provider appends the room name to the relay's URL
+  const name = decodeURIComponent((request.url || '/').slice(1).split('?')[0]);
+  const room = getRoom(name);
+  room.sockets.set(socket, new Set());
+  socket.binaryType = 'arraybuffer';
+
+  let alive = true;
+  socket.on('pong', () => {
+    alive = true;
+  });
+  const ping = setInterval(() => {
+    if (!alive) {
+      socket.terminate();
+      return;
+    }
+    alive = false;
+    socket.ping();
+  }, PING_INTERVAL);
+
+  socket.on('message', (data) => {
+    try {
+      handleMessage(room, socket, data);
+    } catch (error) {
+      console.error(`Bad message in room "${name}":`, error);
+    }
+  });
+  socket.on('close', () => {
+    clearInterval(ping);
+    leave(room, socket);
+  });
+  // A broken connection mustn't take the relay, and every room with it, down
+  socket.on('error', (error) => {
+    console.error(`Connection error in room "${name}":`, error.message);
+    leave(room, socket);
+  });
+
+  // Start syncing, and tell the newcomer who else is here
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_SYNC);
+  syncProtocol.writeSyncStep1(encoder, room.doc);
+  send(socket, encoding.toUint8Array(encoder));
+  if (room.awareness.getStates().size > 0) {
+    send(socket, awarenessMessage(room.awareness, [...room.awareness.getStates().keys()]));
+  }
+});
+
+// The server's own errors, such as the port being taken, come through here too
+wss.on('error', (error) => {
+  console.error(`Relay could not listen on ${HOST}:${PORT}:`, error.message);
+  process.exit(1);
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`Relay listening on ws://${HOST}:${PORT}`);
+});
@@ -1,4 +1,4 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
 import html2canvas from 'html2canvas';
 import {
   DndContext,
@@ -15,11 +15,43 @@ import {
   horizontalListSortingStrategy,
 } from '@dnd-kit/sortable';
 
-import { Entity } from './types';
-import { useModelStore } from './store/modelStore';
+import { CanvasView, Entity, Model } from './types';
+import { useModelStore, useActiveModelStore } from './store/modelStore';
+import { useWorkspaceStore } from './store/workspaceStore';
+import { useCollaborationStore } from './store/collaborationStore';
+import { useComparisonStore } from './store/comparisonStore';
+import { getSavedSession, clearSavedSession, enableAutosave } from './store/persistence';
+import { MODEL_VERSION, parseModelFile, formatFieldErrors } from './schema/modelFile';
 import Toolbar from './components/Toolbar';
+import RestoreSessionPrompt from './components/RestoreSessionPrompt';
 import RightSidebar from './components/RightSidebar';
-import EntityCard from './components/EntityCard';
+import SortableEntityCard from './components/SortableEntityCard';
+import FreeCanvas from './components/FreeCanvas';
+import RelationshipLines from './components/RelationshipLines';
+import ProblemsPanel from './components/ProblemsPanel';
+import CommentsPanel from './components/CommentsPanel';
+import HistoryPanel from './components/HistoryPanel';
+import SnapshotsDialog from './components/SnapshotsDialog';
+import ModelDiffPanel from './components/ModelDiffPanel';
+import MergeImportDialog from './components/MergeImportDialog';
+import ExportDialog from './components/ExportDialog';
+import OrcaMatrix from './components/OrcaMatrix';
+import DiagramImportDialog from './components/DiagramImportDialog';
+import CustomTypesDialog from './components/CustomTypesDialog';
+import RelationshipTypesDialog from './components/RelationshipTypesDialog';
+import StateMachinePanel from './components/StateMachinePanel';
+import PermissionsPanel from './components/PermissionsPanel';
+import CollaborationDialog from './components/CollaborationDialog';
+import { ExportContext } from './exporters';
+import { generateOrcaCsv } from './exporters/orcaMatrix';
+import { buildPermissionsJson, generatePermissionsCsv } from './exporters/permissions';
+import { LayoutKind, NodeSize, computeLayout } from './utils/autoLayout';
+import { MergeConflict, MergeResolution, findMergeConflicts, mergeModels } from './utils/mergeModels';
+import { getRelationshipTypes } from './utils/relationships';
+import { ChangeKind, diffModels } from './utils/snapshots';
+import { downloadBlob, downloadFile } from './utils/download';
+import { validateModel } from './validation/engine';
+import { defaultRules } from './validation/rules';
 
 
 const BusinessDomainModeler = () => {
@@ -32,25 +64,95 @@ const BusinessDomainModeler = () => {
     deleteEntity,
     setSelectedEntity,
     reorderEntities,
+    applyLayout,
     setModel,
-    resetModel,
     handleEntityClick,
   } = useModelStore();
+  const modelStore = useActiveModelStore();
+  const { documents, activeDocumentId, createDocument, saveWorkspace } = useWorkspaceStore();
+  const documentName = documents.find(doc => doc.id === activeDocumentId)?.name ?? 'Business Domain Model';
 
   // Refs for file operations
   const canvasRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Whether the chosen file replaces the model or is merged into it
+  const importModeRef = useRef<'replace' | 'merge'>('replace');
+
+  // Imported model waiting for the user to resolve merge conflicts
+  const [pendingMerge, setPendingMerge] = useState<{ incoming: Model; conflicts: MergeConflict[] } | null>(null);
+
+  const [showDiagramImport, setShowDiagramImport] = useState(false);
+  const [showCustomTypes, setShowCustomTypes] = useState(false);
+  const [showRelationshipTypes, setShowRelationshipTypes] = useState(false);
+  const [showPermissions, setShowPermissions] = useState(false);
+  const [showCollaboration, setShowCollaboration] = useState(false);
+
+  // Naming for the export dialog, fixed while it's open
+  const [codeExport, setCodeExport] = useState<ExportContext | null>(null);
+
+  // Ordered strip of cards, free-form canvas using each entity's position, or ORCA matrix
+  const [canvasView, setCanvasView] = useState<CanvasView>('strip');
+
+  const [showProblems, setShowProblems] = useState(false);
+  const [showStateMachine, setShowStateMachine] = useState(false);
+  const [showComments, setShowComments] = useState(false);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const problems = useMemo(() => validateModel(model, defaultRules), [model]);
+
+  // Comparison picked in the snapshots dialog, against the live model unless
+  // it's between two fixed versions
+  const comparison = useComparisonStore();
+  const { setHighlights } = comparison;
+  const comparing = comparison.before && comparison.documentId === activeDocumentId ? comparison.before : null;
+  const diff = useMemo(
+    () => (comparing ? diffModels(comparing.model, comparison.after?.model ?? model) : null),
+    [comparing, comparison.after, model]
+  );
+
+  useEffect(() => {
+    const highlights: Record<string, ChangeKind> = {};
+    diff?.entities.forEach(change => {
+      if (change.kind !== 'removed') highlights[change.entityId] = change.kind;
+    });
+    setHighlights(highlights);
+  }, [diff, setHighlights]);
+
+  // Autosaved session found on startup, awaiting a restore/discard decision
+  const [savedSession, setSavedSession] = useState(() => getSavedSession());
 
-  // Keyboard shortcuts for undo/redo
+  useEffect(() => {
+    if (!savedSession) {
+      enableAutosave();
+      saveWorkspace();
+    }
+  }, [savedSession, saveWorkspace]);
+
+  const restoreSession = async () => {
+    // Enable autosave first so document stores created from the restored
+    // workspace hydrate from storage
+    enableAutosave();
+    await useWorkspaceStore.persist.rehydrate();
+    setSavedSession(null);
+  };
+
+  const discardSession = () => {
+    clearSavedSession();
+    setSavedSession(null);
+  };
+
+  // Keyboard shortcuts for undo/redo. A shared model undoes only this user's changes.
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      const collaboration = useCollaborationStore.getState();
+      const history = collaboration.documentId === activeDocumentId ? collaboration : modelStore.temporal.getState();
       if (e.ctrlKey || e.metaKey) {
         if (e.key === 'z' && !e.shiftKey) {
           e.preventDefault();
-          useModelStore.temporal.getState().undo();
+          history.undo();
         } else if (e.key === 'y' || (e.key === 'z' && e.shiftKey)) {
           e.preventDefault();
-          useModelStore.temporal.getState().redo();
+          history.redo();
         }
       }
       if (e.key === 'Delete' && selectedEntity) {
@@ -60,7 +162,7 @@ const BusinessDomainModeler = () => {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedEntity, deleteEntity]);
+  }, [selectedEntity, deleteEntity, modelStore, activeDocumentId]);
 
   // dndkit sensors
   const sensors = useSensors(
@@ -82,33 +184,47 @@ const BusinessDomainModeler = () => {
   };
 
 
+  // Arrange all entities automatically, using the rendered card sizes, and
+  // switch to the free-form view where positions are shown
+  const autoLayout = (kind: LayoutKind) => {
+    const sizes: Record<string, NodeSize> = {};
+    canvasRef.current?.querySelectorAll<HTMLElement>('[data-entity-id]').forEach(el => {
+      sizes[el.dataset.entityId!] = { width: el.offsetWidth, height: el.offsetHeight };
+    });
+
+    applyLayout(computeLayout(kind, model, sizes));
+    setCanvasView('free');
+  };
+
+  // File name for exports, based on the active model's name
+  const fileBaseName = () => {
+    const slug = documentName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'business-model';
+    return `${slug}-${new Date().toISOString().slice(0, 10)}`;
+  };
+
   // Export and import functions
   const exportAsJSON = () => {
     try {
       const exportData = {
-        version: '1.0',
+        version: MODEL_VERSION,
         created: new Date().toISOString(),
-        title: 'Business Domain Model',
+        title: documentName,
         entities: model.entities,
         relationships: model.relationships,
+        customTypes: model.customTypes ?? [],
+        roles: model.roles ?? [],
+        relationshipTypes: getRelationshipTypes(model),
+        commentThreads: model.commentThreads ?? [],
+        snapshots: model.snapshots ?? [],
         metadata: {
           entityCount: model.entities.length,
-          relationshipCount: model.relationships.length
+          relationshipCount: model.relationships.length,
+          openCommentThreadCount: (model.commentThreads ?? []).filter(thread => !thread.resolved).length
         }
       };
       
       const jsonString = JSON.stringify(exportData, null, 2);
-      const blob = new Blob([jsonString], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `business-model-${new Date().toISOString().slice(0, 10)}.json`;
-      a.style.display = 'none';
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadFile(jsonString, `${fileBaseName()}.json`, 'application/json');
       
       console.log('Export successful!', exportData);
     } catch (error) {
@@ -118,9 +234,63 @@ const BusinessDomainModeler = () => {
   };
 
   const importJSON = () => {
+    importModeRef.current = 'replace';
+    fileInputRef.current?.click();
+  };
+
+  const importDiagram = (importedModel: Model, mode: 'replace' | 'merge') => {
+    setShowDiagramImport(false);
+    importModel(importedModel, mode);
+  };
+
+  const mergeImportJSON = () => {
+    importModeRef.current = 'merge';
     fileInputRef.current?.click();
   };
 
+  // Merge as a single model update, so it's one undo step and history is kept
+  const applyMerge = (incoming: Model, resolutions: Record<string, MergeResolution>) => {
+    const { model: merged, summary } = mergeModels(model, incoming, resolutions);
+    setModel(merged, 'Merge imported model');
+    setPendingMerge(null);
+
+    alert(
+      `Model merged successfully!\n${summary.added} entities added, ${summary.renamed} imported as copies, ` +
+      `${summary.replaced} replaced, ${summary.kept} kept\n${summary.relationshipsAdded} relationships added`
+    );
+  };
+
+  // Replace the model with an imported one, or merge it in after resolving conflicts
+  const importModel = (importedModel: Model, mode: 'replace' | 'merge', changes: string[] = []) => {
+    if (mode === 'merge') {
+      const conflicts = findMergeConflicts(model, importedModel);
+      if (conflicts.length > 0) {
+        setPendingMerge({ incoming: importedModel, conflicts });
+      } else {
+        applyMerge(importedModel, {});
+      }
+      return;
+    }
+
+    // Confirm before replacing current model
+    if (model.entities.length > 0 || model.relationships.length > 0) {
+      if (!confirm('Import will replace your current model. Continue?')) {
+        return;
+      }
+    }
+
+    setModel(importedModel, 'Import model');
+    setSelectedEntity(null);
+    modelStore.temporal.getState().clear();
+
+    console.log('Model imported successfully:', importedModel);
+    alert(
+      `Model imported successfully!\n${importedModel.entities.length} entities, ${importedModel.relationships.length} relationships` +
+      (changes.length > 0 ? `\n\nChanges made while importing:\n${changes.slice(0, 10).map(c => `• ${c}`).join('\n')}` +
+        (changes.length > 10 ? `\n…and ${changes.length - 10} more` : '') : '')
+    );
+  };
+
   const handleFileImport = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -134,32 +304,22 @@ const BusinessDomainModeler = () => {
         }
         const jsonData = JSON.parse(result);
         
-        // Validate the imported data structure
-        if (!jsonData.entities || !Array.isArray(jsonData.entities)) {
-          throw new Error('Invalid file format: missing or invalid entities array');
-        }
-        if (!jsonData.relationships || !Array.isArray(jsonData.relationships)) {
-          throw new Error('Invalid file format: missing or invalid relationships array');
-        }
-
-        const importedModel = {
-          entities: jsonData.entities,
-          relationships: jsonData.relationships
-        };
-
-        // Confirm before replacing current model
-        if (model.entities.length > 0 || model.relationships.length > 0) {
-          if (!confirm('Import will replace your current model. Continue?')) {
-            return;
+        // Validate the imported data against the schema, upgrading older versions.
+        // If strict validation fails, offer to repair what can be repaired.
+        let parsed = parseModelFile(jsonData, 'strict');
+        if (!parsed.ok) {
+          const repair = confirm(
+            `The file has problems:\n${formatFieldErrors(parsed.errors)}\n\nTry to repair it and import anyway?`
+          );
+          if (!repair) return;
+
+          parsed = parseModelFile(jsonData, 'lenient');
+          if (!parsed.ok) {
+            throw new Error(`The file could not be repaired:\n${formatFieldErrors(parsed.errors)}`);
           }
         }
 
-        setModel(importedModel);
-        setSelectedEntity(null);
-        useModelStore.temporal.getState().clear();
-        
-        console.log('Model imported successfully:', importedModel);
-        alert(`Model imported successfully!\n${importedModel.entities.length} entities, ${importedModel.relationships.length} relationships`);
+        importModel(parsed.model, importModeRef.current, [...parsed.migrations, ...parsed.repairs]);
       } catch (error) {
         console.error('Import failed:', error);
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -205,15 +365,7 @@ const BusinessDomainModeler = () => {
           return;
         }
 
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `business-model-${new Date().toISOString().slice(0, 10)}.png`;
-        a.style.display = 'none';
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        downloadBlob(blob, `${fileBaseName()}.png`);
 
         console.log('PNG export successful!');
       }, 'image/png');
@@ -224,14 +376,12 @@ const BusinessDomainModeler = () => {
     }
   };
 
-  // New model
+  // New model, added to the workspace alongside the existing ones
   const newModel = () => {
-    if (model.entities.length > 0 && !confirm('Start new model? Current work will be lost.')) {
-      return;
-    }
-    
-    resetModel();
-    useModelStore.temporal.getState().clear();
+    const name = prompt('Name for the new model:', 'Untitled Model');
+    if (name === null) return;
+
+    createDocument(name.trim() || 'Untitled Model');
   };
 
   const handleEntityCardClick = (e: React.MouseEvent, entity: Entity) => {
@@ -246,70 +396,183 @@ const BusinessDomainModeler = () => {
       <Toolbar
         onNewModel={newModel}
         onImportJSON={importJSON}
+        onMergeJSON={mergeImportJSON}
+        onImportDiagram={() => setShowDiagramImport(true)}
         onExportJSON={exportAsJSON}
         onExportPNG={exportAsPNG}
+        onExportCode={() => setCodeExport({ baseName: fileBaseName(), title: documentName })}
         fileInputRef={fileInputRef}
         onFileImport={handleFileImport}
+        canvasView={canvasView}
+        onCanvasViewChange={setCanvasView}
+        onAutoLayout={autoLayout}
+        onEditCustomTypes={() => setShowCustomTypes(true)}
+        onEditRelationshipTypes={() => setShowRelationshipTypes(true)}
+        onEditPermissions={() => setShowPermissions(true)}
+        problemCount={problems.length}
+        onToggleProblems={() => setShowProblems(!showProblems)}
+        openCommentCount={(model.commentThreads ?? []).filter(thread => !thread.resolved).length}
+        onToggleComments={() => setShowComments(!showComments)}
+        onToggleHistory={() => setShowHistory(!showHistory)}
+        onEditSnapshots={() => setShowSnapshots(true)}
+        onCollaborate={() => setShowCollaboration(true)}
       />
 
+      {savedSession && (
+        <RestoreSessionPrompt
+          savedAt={savedSession.savedAt}
+          documentCount={savedSession.documentCount}
+          entityCount={savedSession.entityCount}
+          relationshipCount={savedSession.relationshipCount}
+          onRestore={restoreSession}
+          onDiscard={discardSession}
+        />
+      )}
+
       <div className="flex flex-1">
         {/* Canvas Area */}
-        <div className="flex-1 relative overflow-auto">
-          <div
-            ref={canvasRef}
-            className="w-full min-h-full p-6 bg-gray-50"
-          >
-            <DndContext
-              sensors={sensors}
-              collisionDetection={closestCenter}
-              onDragEnd={handleDragEnd}
+        {canvasView === 'matrix' ? (
+          <div className="flex-1 relative overflow-auto">
+            <OrcaMatrix
+              containerRef={canvasRef}
+              onExportCsv={() => downloadFile(generateOrcaCsv(model), `${fileBaseName()}.orca.csv`, 'text/csv')}
+            />
+          </div>
+        ) : canvasView === 'free' ? (
+          <div className="flex-1 relative overflow-hidden">
+            <FreeCanvas canvasRef={canvasRef} onEntityClick={handleEntityCardClick} />
+          </div>
+        ) : (
+          <div className="flex-1 relative overflow-auto">
+            <div
+              ref={canvasRef}
+              className="relative isolate w-full min-h-full p-6 bg-gray-50"
             >
-              <SortableContext
-                items={model.entities.map(e => e.id)}
-                strategy={horizontalListSortingStrategy}
+              <DndContext
+                sensors={sensors}
+                collisionDetection={closestCenter}
+                onDragEnd={handleDragEnd}
               >
-                <div className="flex gap-6 justify-start items-start">
-                  {[...model.entities]
-                    .sort((a, b) => (a.order || 0) - (b.order || 0))
-                    .map(entity => (
-                      <EntityCard
-                        key={entity.id}
-                        entity={entity}
-                        onEntityClick={handleEntityCardClick}
-                      />
-                    ))}
-
-                  {/* Always visible plus button at the end (only when there are entities) */}
-                  {model.entities.length > 0 && (
-                    <button
-                      onClick={addEntity}
-                      className="w-12 h-12 bg-gray-100 border-2 border-dashed border-gray-300 rounded-lg flex items-center justify-center text-gray-500 hover:bg-gray-200 hover:border-gray-400 hover:text-gray-700 focus:outline-none transition-all"
-                      title="Add entity"
-                    >
-                      +
-                    </button>
-                  )}
-                </div>
-              </SortableContext>
-            </DndContext>
-
-            {model.entities.length === 0 && (
-              <div className="text-center text-gray-500 mt-20">
-                <div className="text-xl mb-2">No entities yet</div>
-                <div className="text-sm mb-4">Click "Add Entity" to get started</div>
-                <button
-                  onClick={addEntity}
-                  className="px-4 py-2 bg-blue-100 text-blue-800 rounded hover:bg-blue-200"
+                <SortableContext
+                  items={model.entities.map(e => e.id)}
+                  strategy={horizontalListSortingStrategy}
                 >
-                  + Add Entity
-                </button>
-              </div>
-            )}
+                  <div className="flex gap-6 justify-start items-start">
+                    {[...model.entities]
+                      .sort((a, b) => (a.order || 0) - (b.order || 0))
+                      .map(entity => (
+                        <SortableEntityCard
+                          key={entity.id}
+                          entity={entity}
+                          onEntityClick={handleEntityCardClick}
+                        />
+                      ))}
+
+                    {/* Always visible plus button at the end (only when there are entities) */}
+                    {model.entities.length > 0 && (
+                      <button
+                        onClick={addEntity}
+                        className="w-12 h-12 bg-gray-100 border-2 border-dashed border-gray-300 rounded-lg flex items-center justify-center text-gray-500 hover:bg-gray-200 hover:border-gray-400 hover:text-gray-700 focus:outline-none transition-all"
+                        title="Add entity"
+                      >
+                        +
+                      </button>
+                    )}
+                  </div>
+                </SortableContext>
+              </DndContext>
+
+              <RelationshipLines containerRef={canvasRef} />
+
+              {model.entities.length === 0 && (
+                <div className="text-center text-gray-500 mt-20">
+                  <div className="text-xl mb-2">No entities yet</div>
+                  <div className="text-sm mb-4">Click "Add Entity" to get started</div>
+                  <button
+                    onClick={addEntity}
+                    className="px-4 py-2 bg-blue-100 text-blue-800 rounded hover:bg-blue-200"
+                  >
+                    + Add Entity
+                  </button>
+                </div>
+              )}
+            </div>
           </div>
-        </div>
+        )}
 
-        <RightSidebar />
+        <RightSidebar onEditStateMachine={() => setShowStateMachine(true)} />
       </div>
+
+      {pendingMerge && (
+        <MergeImportDialog
+          conflicts={pendingMerge.conflicts}
+          incomingEntityCount={pendingMerge.incoming.entities.length}
+          incomingRelationshipCount={pendingMerge.incoming.relationships.length}
+          onMerge={(resolutions) => applyMerge(pendingMerge.incoming, resolutions)}
+          onCancel={() => setPendingMerge(null)}
+        />
+      )}
+
+      {showDiagramImport && (
+        <DiagramImportDialog onImport={importDiagram} onCancel={() => setShowDiagramImport(false)} />
+      )}
+
+      {showCustomTypes && (
+        <CustomTypesDialog onClose={() => setShowCustomTypes(false)} />
+      )}
+
+      {showRelationshipTypes && (
+        <RelationshipTypesDialog onClose={() => setShowRelationshipTypes(false)} />
+      )}
+
+      {showPermissions && (
+        <PermissionsPanel
+          onExportCsv={() => downloadFile(generatePermissionsCsv(model), `${fileBaseName()}.permissions.csv`, 'text/csv')}
+          onExportJson={() => downloadFile(
+            JSON.stringify(buildPermissionsJson(model), null, 2),
+            `${fileBaseName()}.permissions.json`,
+            'application/json'
+          )}
+          onClose={() => setShowPermissions(false)}
+        />
+      )}
+
+      {showCollaboration && (
+        <CollaborationDialog onClose={() => setShowCollaboration(false)} />
+      )}
+
+      {codeExport && (
+        <ExportDialog model={model} context={codeExport} onClose={() => setCodeExport(null)} />
+      )}
+
+      {showStateMachine && selectedEntity && (
+        <StateMachinePanel entity={selectedEntity} onClose={() => setShowStateMachine(false)} />
+      )}
+
+      {showSnapshots && (
+        <SnapshotsDialog onCompare={() => setShowSnapshots(false)} onClose={() => setShowSnapshots(false)} />
+      )}
+
+      {comparing && diff && (
+        <ModelDiffPanel
+          diff={diff}
+          beforeLabel={comparing.label}
+          afterLabel={comparison.after?.label ?? 'current model'}
+          onClose={comparison.clearComparison}
+        />
+      )}
+
+      {showComments && (
+        <CommentsPanel onClose={() => setShowComments(false)} />
+      )}
+
+      {showHistory && (
+        <HistoryPanel onClose={() => setShowHistory(false)} />
+      )}
+
+      {showProblems && (
+        <ProblemsPanel problems={problems} onClose={() => setShowProblems(false)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Attribute, CustomType } from '../types';
+import { ATTRIBUTE_TYPES } from '../schema/modelFile';
+import { attributeTypeValue, customTypeOptionValue } from '../utils/customTypes';
+
+interface AttributeTypeSelectProps {
+  attribute: Attribute;
+  customTypes?: CustomType[];
+  // Custom type that may not be chosen, so a value object can't contain itself
+  excludeTypeId?: string;
+  onChange: (value: string) => void;
+  className?: string;
+}
+
+// Primitive types followed by the model's custom types
+const AttributeTypeSelect: React.FC<AttributeTypeSelectProps> = ({
+  attribute,
+  customTypes = [],
+  excludeTypeId,
+  onChange,
+  className,
+}) => {
+  const choices = customTypes.filter(t => t.id !== excludeTypeId);
+
+  return (
+    <select
+      value={attributeTypeValue(attribute)}
+      onChange={(e) => onChange(e.target.value)}
+      className={className}
+    >
+      {ATTRIBUTE_TYPES.map(type => (
+        <option key={type} value={type}>{type}</option>
+      ))}
+      {choices.length > 0 && (
+        <optgroup label="Custom types">
+          {choices.map(t => (
+            <option key={t.id} value={customTypeOptionValue(t)}>{t.name.trim() || 'Unnamed type'}</option>
+          ))}
+        </optgroup>
+      )}
+    </select>
+  );
+};
+
+export default AttributeTypeSelect;
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { useModelStore } from '../store/modelStore';
+import { useWorkspaceStore } from '../store/workspaceStore';
+import { useCollaborationStore } from '../store/collaborationStore';
+
+interface CollaborationDialogProps {
+  onClose: () => void;
+}
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded text-sm';
+
+const statusLabels = {
+  offline: 'Not connected',
+  connecting: 'Connecting…',
+  connected: 'Connected',
+};
+
+// Share the active model in a room on a relay, and see who else is in it
+const CollaborationDialog: React.FC<CollaborationDialogProps> = ({ onClose }) => {
+  const { model } = useModelStore();
+  const { documents, activeDocumentId } = useWorkspaceStore();
+  const { status, documentId, serverUrl, room, userName, collaborators, connect, disconnect } = useCollaborationStore();
+  const documentName = documents.find(doc => doc.id === activeDocumentId)?.name ?? '';
+
+  const [serverInput, setServerInput] = useState(serverUrl);
+  const [roomInput, setRoomInput] = useState(room || documentName);
+  const [nameInput, setNameInput] = useState(userName);
+
+  const sharedName = documents.find(doc => doc.id === documentId)?.name;
+  const canConnect = serverInput.trim() && roomInput.trim() && nameInput.trim();
+
+  const handleConnect = () => {
+    if (!canConnect) return;
+    connect(activeDocumentId, serverInput.trim(), roomInput.trim(), nameInput.trim());
+  };
+
+  const entityName = (entityId: string | null) =>
+    documentId === activeDocumentId ? model.entities.find(e => e.id === entityId)?.name : undefined;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-[28rem] max-h-[85vh] flex flex-col">
+        <div className="px-4 py-3 border-b border-gray-200">
+          <h3 className="font-semibold">Collaborate</h3>
+          <div className="text-xs text-gray-500 mt-1">
+            Everyone in the same room edits one model live. Run <code>npm run relay</code> to host a relay yourself.
+          </div>
+        </div>
+
+        <div className="px-4 py-3 overflow-y-auto flex-1 space-y-3 text-sm">
+          {status === 'offline' ? (
+            <>
+              <label className="block">
+                <span className="text-xs text-gray-600">Relay</span>
+                <input
+                  type="text"
+                  value={serverInput}
+                  onChange={(e) => setServerInput(e.target.value)}
+                  className={inputClass}
+                  placeholder="ws://localhost:1234"
+                />
+              </label>
+              <label className="block">
+                <span className="text-xs text-gray-600">Room</span>
+                <input
+                  type="text"
+                  value={roomInput}
+                  onChange={(e) => setRoomInput(e.target.value)}
+                  className={inputClass}
+                />
+              </label>
+              <label className="block">
+                <span className="text-xs text-gray-600">Your name</span>
+                <input
+                  type="text"
+                  value={nameInput}
+                  onChange={(e) => setNameInput(e.target.value)}
+                  className={inputClass}
+                />
+              </label>
+              <div className="text-xs text-gray-500">
+                Joining a room that already has a model replaces "{documentName}" with it. Undo then only reverts your own changes.
+              </div>
+            </>
+          ) : (
+            <>
+              <div>
+                <span className={status === 'connected' ? 'text-green-700' : 'text-yellow-700'}>{statusLabels[status]}</span>
+                {' '}to room <span className="font-medium">{room}</span> as <span className="font-medium">{userName}</span>
+                {sharedName && <div className="text-xs text-gray-500">Sharing "{sharedName}"</div>}
+              </div>
+              <div>
+                <div className="text-xs font-medium text-gray-700 mb-1">Also here</div>
+                {collaborators.length === 0 && <div className="text-xs text-gray-500">Nobody else yet.</div>}
+                {collaborators.map(c => (
+                  <div key={c.clientId} className="flex items-center gap-2 py-0.5">
+                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: c.color }} />
+                    <span>{c.name}</span>
+                    {entityName(c.selectedEntityId) && (
+                      <span className="text-xs text-gray-500">on {entityName(c.selectedEntityId)}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="px-4 py-3 border-t border-gray-200 flex gap-2">
+          {status === 'offline' ? (
+            <button
+              onClick={handleConnect}
+              disabled={!canConnect}
+              className="px-3 py-1 bg-blue-500 text-white rounded text-sm hover:bg-blue-600 disabled:opacity-50"
+            >
+              Connect
+            </button>
+          ) : (
+            <button
+              onClick={disconnect}
+              className="px-3 py-1 bg-red-100 text-red-600 rounded text-sm hover:bg-red-200"
+            >
+              Disconnect
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="ml-auto px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CollaborationDialog;
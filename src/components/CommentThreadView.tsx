@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { CommentThread } from '../types';
+import { useModelStore } from '../store/modelStore';
+import { useCollaborationStore } from '../store/collaborationStore';
+import { resolveCommentAuthor } from '../utils/comments';
+
+interface CommentThreadViewProps {
+  thread: CommentThread;
+  // What the thread is about, when that isn't clear from where it's shown
+  title?: string;
+  onTitleClick?: () => void;
+}
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+
+// A thread's comments, with a reply box and resolve/reopen
+const CommentThreadView: React.FC<CommentThreadViewProps> = ({ thread, title, onTitleClick }) => {
+  const { replyToThread, setThreadResolved, deleteCommentThread } = useModelStore();
+  const userName = useCollaborationStore(state => state.userName);
+  const [reply, setReply] = useState('');
+
+  const handleReply = () => {
+    const author = reply.trim() && resolveCommentAuthor(userName);
+    if (!author) return;
+    replyToThread(thread.id, author, reply.trim());
+    setReply('');
+  };
+
+  const handleResolve = () => {
+    const author = resolveCommentAuthor(userName);
+    if (author) setThreadResolved(thread.id, !thread.resolved, author);
+  };
+
+  const handleDelete = () => {
+    if (confirm('Delete this thread and all its replies?')) deleteCommentThread(thread.id);
+  };
+
+  return (
+    <div className={`text-xs border rounded p-2 ${thread.resolved ? 'border-gray-200 bg-gray-50 text-gray-500' : 'border-yellow-200 bg-yellow-50'}`}>
+      {title && (
+        <div
+          onClick={onTitleClick}
+          className={`font-medium text-gray-700 mb-1 ${onTitleClick ? 'cursor-pointer hover:text-blue-700' : ''}`}
+        >
+          {title}
+        </div>
+      )}
+      {thread.comments.map(comment => (
+        <div key={comment.id} className="mb-1">
+          <span className="font-medium">{comment.author}</span>
+          <span className="text-gray-400 ml-1">{formatTime(comment.createdAt)}</span>
+          <div className="whitespace-pre-wrap">{comment.text}</div>
+        </div>
+      ))}
+      {thread.resolved && thread.resolvedBy && (
+        <div className="text-gray-400 italic mb-1">
+          Resolved by {thread.resolvedBy}{thread.resolvedAt && ` ${formatTime(thread.resolvedAt)}`}
+        </div>
+      )}
+      {!thread.resolved && (
+        <div className="flex gap-1 mt-1">
+          <input
+            type="text"
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleReply()}
+            className="flex-1 min-w-0 px-1.5 py-0.5 border border-gray-300 rounded"
+            placeholder="Reply"
+          />
+          <button
+            onClick={handleReply}
+            disabled={!reply.trim()}
+            className="px-1.5 py-0.5 bg-blue-100 text-blue-800 rounded hover:bg-blue-200 disabled:opacity-50"
+          >
+            Reply
+          </button>
+        </div>
+      )}
+      <div className="flex gap-2 mt-1">
+        <button onClick={handleResolve} className="text-blue-600 hover:text-blue-800">
+          {thread.resolved ? 'Reopen' : 'Resolve'}
+        </button>
+        <button onClick={handleDelete} className="text-red-500 hover:text-red-700 ml-auto">
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CommentThreadView;
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { CommentThread } from '../types';
+import { useModelStore } from '../store/modelStore';
+import { describeTarget } from '../utils/comments';
+import CommentThreadView from './CommentThreadView';
+
+interface CommentsPanelProps {
+  onClose: () => void;
+}
+
+// Every open review thread in the model, newest activity first
+const CommentsPanel: React.FC<CommentsPanelProps> = ({ onClose }) => {
+  const { model, setSelectedEntity } = useModelStore();
+  const [showResolved, setShowResolved] = useState(false);
+
+  const lastActivity = (thread: CommentThread) => thread.comments[thread.comments.length - 1]?.createdAt ?? '';
+  const threads = (model.commentThreads || [])
+    .filter(thread => showResolved || !thread.resolved)
+    .sort((a, b) => lastActivity(b).localeCompare(lastActivity(a)));
+  const openCount = (model.commentThreads || []).filter(thread => !thread.resolved).length;
+
+  // Select the entity a thread is about, or the source of its relationship
+  const selectTarget = (thread: CommentThread) => {
+    const rel = model.relationships.find(r => r.id === thread.target.relationshipId);
+    const entity = model.entities.find(e => e.id === (rel ? rel.from : thread.target.entityId));
+    if (entity) setSelectedEntity(entity);
+  };
+
+  return (
+    <div className="bg-white border-t border-gray-200 max-h-64 flex flex-col">
+      <div className="flex justify-between items-center px-4 py-1 border-b border-gray-100">
+        <h4 className="font-medium text-sm">Comments ({openCount} open)</h4>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-1 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={showResolved}
+              onChange={(e) => setShowResolved(e.target.checked)}
+            />
+            Show resolved
+          </label>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 text-sm"
+            title="Hide comments"
+          >
+            ×
+          </button>
+        </div>
+      </div>
+      <div className="overflow-y-auto px-4 py-2">
+        {threads.length === 0 ? (
+          <div className="text-xs text-gray-500">
+            No {showResolved ? '' : 'open '}comments. Start a thread from an entity's properties.
+          </div>
+        ) : (
+          <div className="grid grid-cols-3 gap-2">
+            {threads.map(thread => (
+              <CommentThreadView
+                key={thread.id}
+                thread={thread}
+                title={describeTarget(model, thread.target)}
+                onTitleClick={() => selectTarget(thread)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CommentsPanel;
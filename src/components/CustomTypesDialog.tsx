@@ -0,0 +1,225 @@
+import React from 'react';
+import { Attribute, CustomType, CustomTypeKind, PrimitiveType } from '../types';
+import { useModelStore } from '../store/modelStore';
+import { ATTRIBUTE_TYPES } from '../schema/modelFile';
+import { isValidPattern, withAttributeType } from '../utils/customTypes';
+import AttributeTypeSelect from './AttributeTypeSelect';
+
+interface CustomTypesDialogProps {
+  onClose: () => void;
+}
+
+const inputClass = 'px-2 py-1 border border-gray-300 rounded text-xs';
+
+const kindLabels: Record<CustomTypeKind, string> = {
+  constrained: 'Constrained primitive',
+  composite: 'Value object',
+};
+
+// Enums already carry their own values, so they make no sense as a base
+const BASE_TYPES = ATTRIBUTE_TYPES.filter(type => type !== 'enum');
+
+// An empty box clears the constraint
+const parseLimit = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+// Registry of the model's custom attribute types
+const CustomTypesDialog: React.FC<CustomTypesDialogProps> = ({ onClose }) => {
+  const { model, addCustomType, updateCustomType, deleteCustomType } = useModelStore();
+  const customTypes = model.customTypes || [];
+
+  const usageCount = (typeId: string) =>
+    [...model.entities.flatMap(e => e.attributes), ...customTypes.flatMap(t => t.fields)]
+      .filter(attr => attr.customType === typeId).length;
+
+  const handleDelete = (customType: CustomType) => {
+    const uses = usageCount(customType.id);
+    if (uses > 0 && !confirm(`${customType.name || 'This type'} is used by ${uses} attribute(s), which will fall back to ${customType.kind === 'composite' ? 'string' : customType.base}. Delete it?`)) {
+      return;
+    }
+    deleteCustomType(customType.id);
+  };
+
+  const updateField = (customType: CustomType, index: number, field: Attribute) => {
+    updateCustomType(customType.id, { fields: customType.fields.map((f, i) => (i === index ? field : f)) });
+  };
+
+  const renderLimits = (customType: CustomType, fields: ['minLength', 'maxLength'] | ['minimum', 'maximum'], label: string) => (
+    <div className="flex items-center gap-1">
+      <span className="text-gray-500 w-16">{label}</span>
+      {fields.map(field => (
+        <input
+          key={field}
+          type="number"
+          value={customType[field] ?? ''}
+          onChange={(e) => updateCustomType(customType.id, { [field]: parseLimit(e.target.value) })}
+          className={`${inputClass} w-20`}
+          placeholder={field.startsWith('min') ? 'min' : 'max'}
+        />
+      ))}
+    </div>
+  );
+
+  const renderConstraints = (customType: CustomType) => (
+    <div className="space-y-1.5 text-xs">
+      <div className="flex items-center gap-1">
+        <span className="text-gray-500 w-16">Base</span>
+        <select
+          value={customType.base}
+          onChange={(e) => updateCustomType(customType.id, { base: e.target.value as PrimitiveType })}
+          className={inputClass}
+        >
+          {BASE_TYPES.map(type => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+      </div>
+      {customType.base === 'string' && (
+        <>
+          <div className="flex items-center gap-1">
+            <span className="text-gray-500 w-16">Pattern</span>
+            <input
+              type="text"
+              value={customType.pattern ?? ''}
+              onChange={(e) => updateCustomType(customType.id, { pattern: e.target.value || undefined })}
+              className={`${inputClass} flex-1 font-mono ${customType.pattern && !isValidPattern(customType.pattern) ? 'border-red-400' : ''}`}
+              placeholder="regular expression, e.g. ^[^@\s]+@[^@\s]+$"
+            />
+          </div>
+          {renderLimits(customType, ['minLength', 'maxLength'], 'Length')}
+        </>
+      )}
+      {customType.base === 'number' && renderLimits(customType, ['minimum', 'maximum'], 'Range')}
+    </div>
+  );
+
+  const renderFields = (customType: CustomType) => (
+    <div className="space-y-1 text-xs">
+      {customType.fields.map((field, i) => (
+        <div key={i} className="flex items-center gap-1">
+          <input
+            type="text"
+            value={field.name}
+            onChange={(e) => updateField(customType, i, { ...field, name: e.target.value })}
+            className={`${inputClass} flex-1 min-w-0`}
+            placeholder="field name"
+          />
+          <AttributeTypeSelect
+            attribute={field}
+            customTypes={customTypes}
+            excludeTypeId={customType.id}
+            onChange={(value) => updateField(customType, i, withAttributeType(field, value, customTypes))}
+            className={inputClass}
+          />
+          <label className="flex items-center gap-0.5 text-gray-600">
+            <input
+              type="checkbox"
+              checked={field.required ?? false}
+              onChange={(e) => updateField(customType, i, { ...field, required: e.target.checked })}
+            />
+            req
+          </label>
+          <label className="flex items-center gap-0.5 text-gray-600">
+            <input
+              type="checkbox"
+              checked={field.multiplicity === 'list'}
+              onChange={(e) => updateField(customType, i, { ...field, multiplicity: e.target.checked ? 'list' : 'single' })}
+            />
+            list
+          </label>
+          <button
+            onClick={() => updateCustomType(customType.id, { fields: customType.fields.filter((_, j) => j !== i) })}
+            className="px-1.5 py-0.5 bg-red-100 text-red-600 rounded hover:bg-red-200"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => updateCustomType(customType.id, { fields: [...customType.fields, { name: '', type: 'string' }] })}
+        className="text-blue-600 hover:text-blue-800"
+      >
+        + Add Field
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-[44rem] max-h-[85vh] flex flex-col">
+        <div className="px-4 py-3 border-b border-gray-200">
+          <h3 className="font-semibold">Custom types</h3>
+          <div className="text-xs text-gray-500 mt-1">
+            Reusable attribute types: a constrained primitive such as Email, or a value object such as Money with its own fields.
+          </div>
+        </div>
+
+        <div className="px-4 py-2 overflow-y-auto flex-1 space-y-3">
+          {customTypes.length === 0 && (
+            <div className="text-sm text-gray-500 py-4">No custom types yet.</div>
+          )}
+          {customTypes.map(customType => (
+            <div key={customType.id} className="border border-gray-200 rounded p-2 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={customType.name}
+                  onChange={(e) => updateCustomType(customType.id, { name: e.target.value })}
+                  className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm font-medium"
+                  placeholder="Type name"
+                />
+                <select
+                  value={customType.kind}
+                  onChange={(e) => updateCustomType(customType.id, { kind: e.target.value as CustomTypeKind })}
+                  className={inputClass}
+                >
+                  {(Object.keys(kindLabels) as CustomTypeKind[]).map(kind => (
+                    <option key={kind} value={kind}>{kindLabels[kind]}</option>
+                  ))}
+                </select>
+                <span className="text-xs text-gray-400 whitespace-nowrap">used {usageCount(customType.id)}×</span>
+                <button
+                  onClick={() => handleDelete(customType)}
+                  className="px-2 py-1 bg-red-100 text-red-600 rounded text-xs hover:bg-red-200"
+                  title="Delete type"
+                >
+                  ×
+                </button>
+              </div>
+              {customType.kind === 'constrained' ? renderConstraints(customType) : renderFields(customType)}
+              <input
+                type="text"
+                value={customType.description ?? ''}
+                onChange={(e) => updateCustomType(customType.id, { description: e.target.value || undefined })}
+                className={`${inputClass} w-full`}
+                placeholder="description"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="px-4 py-3 border-t border-gray-200 flex gap-2">
+          <button
+            onClick={() => addCustomType('constrained')}
+            className="px-3 py-1 bg-blue-100 text-blue-800 rounded text-sm hover:bg-blue-200"
+          >
+            + Constrained Type
+          </button>
+          <button
+            onClick={() => addCustomType('composite')}
+            className="px-3 py-1 bg-blue-100 text-blue-800 rounded text-sm hover:bg-blue-200"
+          >
+            + Value Object
+          </button>
+          <button
+            onClick={onClose}
+            className="ml-auto px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomTypesDialog;
@@ -0,0 +1,110 @@
+import React, { useRef, useState } from 'react';
+import { Model } from '../types';
+import { DIAGRAM_FORMAT_LABELS, parseDiagram } from '../importers';
+
+interface DiagramImportDialogProps {
+  onImport: (model: Model, mode: 'replace' | 'merge') => void;
+  onCancel: () => void;
+}
+
+const DiagramImportDialog: React.FC<DiagramImportDialogProps> = ({ onImport, onCancel }) => {
+  const [text, setText] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  let parsed: ReturnType<typeof parseDiagram> | null = null;
+  let error: string | null = null;
+  if (text.trim()) {
+    try {
+      parsed = parseDiagram(text);
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Could not read the diagram';
+    }
+  }
+
+  const loadFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const result = e.target?.result;
+      if (typeof result === 'string') setText(result);
+    };
+    reader.onerror = () => {
+      alert('Failed to read file');
+    };
+    reader.readAsText(file);
+
+    // Reset file input so the same file can be selected again
+    event.target.value = '';
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-[40rem] max-h-[85vh] flex flex-col">
+        <div className="px-4 py-3 border-b border-gray-200 flex items-center">
+          <div>
+            <h3 className="font-semibold">Import diagram</h3>
+            <div className="text-xs text-gray-500 mt-1">
+              Paste a Mermaid classDiagram or erDiagram, or a PlantUML class diagram. Markdown with a fenced diagram works too.
+            </div>
+          </div>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="ml-auto px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200 whitespace-nowrap"
+          >
+            Open file…
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".mmd,.mermaid,.md,.puml,.plantuml,.pu,.txt"
+            onChange={loadFile}
+            style={{ display: 'none' }}
+          />
+        </div>
+
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={'classDiagram\n  Customer *-- Order : contains'}
+          className="mx-4 my-2 p-3 border border-gray-300 rounded text-xs font-mono h-64 resize-none"
+        />
+
+        <div className="px-4 text-xs min-h-[1rem]">
+          {error && <span className="text-red-600">{error}</span>}
+          {parsed && (
+            <span className="text-gray-500">
+              {DIAGRAM_FORMAT_LABELS[parsed.format]}: {parsed.model.entities.length} entities, {parsed.model.relationships.length} relationships
+            </span>
+          )}
+        </div>
+
+        <div className="px-4 py-3 border-t border-gray-200 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => parsed && onImport(parsed.model, 'merge')}
+            disabled={!parsed}
+            className="px-3 py-1 bg-orange-100 text-orange-800 rounded text-sm hover:bg-orange-200 disabled:opacity-50"
+          >
+            Merge into model
+          </button>
+          <button
+            onClick={() => parsed && onImport(parsed.model, 'replace')}
+            disabled={!parsed}
+            className="px-3 py-1 bg-orange-500 text-white rounded text-sm hover:bg-orange-600 disabled:opacity-50"
+          >
+            Replace model
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DiagramImportDialog;
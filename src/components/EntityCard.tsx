@@ -1,17 +1,34 @@
 import React from 'react';
-import { useSortable } from '@dnd-kit/sortable';
-import { CSS } from '@dnd-kit/utilities';
+import { DraggableAttributes, DraggableSyntheticListeners } from '@dnd-kit/core';
 import { Entity } from '../types';
 import { useModelStore } from '../store/modelStore';
+import { useEntityCollaborators } from '../store/collaborationStore';
+import { useEntityHighlight } from '../store/comparisonStore';
+import { getCardinality, isRequiredEnd } from '../utils/cardinality';
+import { formatAttribute } from '../utils/attributes';
+import { getRelationshipTypes, relationshipPhrase } from '../utils/relationships';
+import { openThreadsOnEntity } from '../utils/comments';
+
+// Drag wiring supplied by the sortable (strip) or draggable (free-form) wrapper
+export interface EntityCardDrag {
+  setNodeRef: (element: HTMLElement | null) => void;
+  attributes: DraggableAttributes;
+  listeners: DraggableSyntheticListeners;
+  style: React.CSSProperties;
+  isDragging: boolean;
+  handleTitle: string;
+}
 
 interface EntityCardProps {
   entity: Entity;
   onEntityClick: (e: React.MouseEvent, entity: Entity) => void;
+  drag: EntityCardDrag;
 }
 
 const EntityCard: React.FC<EntityCardProps> = ({
   entity,
   onEntityClick,
+  drag,
 }) => {
   // Get data from store
   const {
@@ -20,21 +37,22 @@ const EntityCard: React.FC<EntityCardProps> = ({
     relationshipStart,
     isCreatingRelationship,
   } = useModelStore();
+  // Others in a shared model with this entity selected
+  const collaborators = useEntityCollaborators(entity.id);
+  // How the entity changed in the comparison being shown
+  const change = useEntityHighlight(entity.id);
   
   const { entities, relationships } = model;
+  const relationshipTypes = getRelationshipTypes(model);
+  const openThreads = openThreadsOnEntity(model, entity.id).length;
   const {
     attributes,
     listeners,
     setNodeRef,
-    transform,
-    transition,
+    style,
     isDragging,
-  } = useSortable({ id: entity.id });
-
-  const style = {
-    transform: CSS.Transform.toString(transform),
-    transition,
-  };
+    handleTitle,
+  } = drag;
 
   // Get relationships for this entity
   const getEntityRelationships = (entityId: string) => {
@@ -54,9 +72,11 @@ const EntityCard: React.FC<EntityCardProps> = ({
   return (
     <div
       ref={setNodeRef}
+      data-entity-id={entity.id}
       style={{
         width: '280px',
         minHeight: '120px',
+        ...(collaborators.length > 0 && selectedEntity?.id !== entity.id && { borderColor: collaborators[0].color }),
         ...style
       }}
       {...attributes}
@@ -66,7 +86,9 @@ const EntityCard: React.FC<EntityCardProps> = ({
           : 'border-gray-300 hover:border-gray-400'
       } ${relationshipStart?.id === entity.id ? 'border-orange-500 shadow-orange-200 shadow-lg' : ''} ${
         isCreatingRelationship ? 'cursor-pointer' : 'cursor-default'
-      } ${isDragging ? 'opacity-75 transform scale-105' : ''}`}
+      } ${isDragging ? 'opacity-75 transform scale-105' : ''} ${
+        change === 'added' ? 'ring-4 ring-green-300' : change === 'changed' ? 'ring-4 ring-amber-300' : ''
+      }`}
       onClick={handleClick}
     >
       {/* Drag handle - only apply listeners to this area when not creating relationships */}
@@ -74,7 +96,7 @@ const EntityCard: React.FC<EntityCardProps> = ({
         <div
           {...listeners}
           className="absolute top-2 right-2 w-6 h-6 cursor-move opacity-50 hover:opacity-100 flex items-center justify-center"
-          title="Drag to reorder"
+          title={handleTitle}
         >
           <svg width="12" height="12" viewBox="0 0 12 12" fill="currentColor">
             <circle cx="3" cy="3" r="1"/>
@@ -84,8 +106,29 @@ const EntityCard: React.FC<EntityCardProps> = ({
           </svg>
         </div>
       )}
-      <div className="font-semibold text-gray-900 mb-3 text-lg">
+      {collaborators.length > 0 && (
+        <div className="absolute -top-3 left-3 flex gap-1">
+          {collaborators.map(c => (
+            <span
+              key={c.clientId}
+              className="px-1.5 rounded text-white text-[10px] leading-4"
+              style={{ backgroundColor: c.color }}
+            >
+              {c.name}
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="font-semibold text-gray-900 mb-3 text-lg flex items-center gap-2 pr-6">
         {entity.name}
+        {openThreads > 0 && (
+          <span
+            className="px-1.5 rounded-full bg-yellow-100 text-yellow-800 text-xs font-medium"
+            title={`${openThreads} open comment thread(s)`}
+          >
+            {openThreads}
+          </span>
+        )}
       </div>
 
       {/* Attributes */}
@@ -93,8 +136,8 @@ const EntityCard: React.FC<EntityCardProps> = ({
         <div className="mb-2">
           <div className="text-xs font-medium text-gray-700 mb-1">Attributes:</div>
           {(entity.attributes || []).map((attr, i) => (
-            <div key={i} className="text-xs text-gray-600 ml-2">
-              • {attr.name}: {attr.type}
+            <div key={i} className="text-xs text-gray-600 ml-2" title={attr.description}>
+              • {formatAttribute(attr, model.customTypes)}
             </div>
           ))}
         </div>
@@ -132,16 +175,26 @@ const EntityCard: React.FC<EntityCardProps> = ({
             <div className="text-xs text-purple-600 ml-2">
               {rels.outgoing.map(rel => {
                 const target = entities.find(e => e.id === rel.to);
-                const displayLabel = rel.label === 'belongs to' ? 'contains' : rel.label;
+                const displayLabel = relationshipPhrase(rel, relationshipTypes, 'from');
                 return (
-                  <div key={rel.id}>• {displayLabel} {target?.name}</div>
+                  <div key={rel.id}>
+                    • {displayLabel} {target?.name}{' '}
+                    <span className="text-purple-400" title={isRequiredEnd(rel, 'to') ? 'Required' : 'Optional'}>
+                      [{getCardinality(rel, 'to')}]
+                    </span>
+                  </div>
                 );
               })}
               {rels.incoming.map(rel => {
                 const source = entities.find(e => e.id === rel.from);
-                const displayLabel = rel.label === 'contains' ? 'belongs to' : rel.label;
+                const displayLabel = relationshipPhrase(rel, relationshipTypes, 'to');
                 return (
-                  <div key={rel.id}>• {displayLabel} {source?.name}</div>
+                  <div key={rel.id}>
+                    • {displayLabel} {source?.name}{' '}
+                    <span className="text-purple-400" title={isRequiredEnd(rel, 'from') ? 'Required' : 'Optional'}>
+                      [{getCardinality(rel, 'from')}]
+                    </span>
+                  </div>
                 );
               })}
             </div>
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { CommentTarget, Entity } from '../types';
+import { useModelStore } from '../store/modelStore';
+import { useCollaborationStore } from '../store/collaborationStore';
+import { describeTarget, resolveCommentAuthor } from '../utils/comments';
+import CommentThreadView from './CommentThreadView';
+
+interface EntityCommentsProps {
+  entity: Entity;
+}
+
+// Threads about an entity, its attributes and its relationships, and a box to start one
+const EntityComments: React.FC<EntityCommentsProps> = ({ entity }) => {
+  const { model, addCommentThread } = useModelStore();
+  const userName = useCollaborationStore(state => state.userName);
+  const [targetKey, setTargetKey] = useState('entity');
+  const [text, setText] = useState('');
+
+  const relationships = model.relationships.filter(r => r.from === entity.id || r.to === entity.id);
+  const targets: { key: string; target: CommentTarget }[] = [
+    { key: 'entity', target: { entityId: entity.id } },
+    ...entity.attributes.map((_, i) => ({ key: `attribute:${i}`, target: { entityId: entity.id, attributeIndex: i } })),
+    ...relationships.map(rel => ({ key: `relationship:${rel.id}`, target: { relationshipId: rel.id } })),
+  ];
+  const relationshipIds = new Set(relationships.map(r => r.id));
+  const threads = (model.commentThreads || [])
+    .filter(({ target }) => target.entityId === entity.id || relationshipIds.has(target.relationshipId ?? ''))
+    .sort((a, b) => Number(!!a.resolved) - Number(!!b.resolved));
+
+  const handleAdd = () => {
+    const target = targets.find(t => t.key === targetKey)?.target ?? { entityId: entity.id };
+    const author = text.trim() && resolveCommentAuthor(userName);
+    if (!author) return;
+    addCommentThread(target, author, text.trim());
+    setText('');
+  };
+
+  return (
+    <div className="mt-6">
+      <h4 className="font-medium text-sm mb-2">Comments:</h4>
+      <div className="space-y-2 mb-2">
+        {threads.map(thread => (
+          <CommentThreadView key={thread.id} thread={thread} title={describeTarget(model, thread.target)} />
+        ))}
+      </div>
+      <select
+        value={targets.some(t => t.key === targetKey) ? targetKey : 'entity'}
+        onChange={(e) => setTargetKey(e.target.value)}
+        className="w-full px-1 py-0.5 border border-gray-300 rounded text-xs mb-1"
+        title="What the comment is about"
+      >
+        {targets.map(({ key, target }) => (
+          <option key={key} value={key}>{describeTarget(model, target)}</option>
+        ))}
+      </select>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        className="w-full px-2 py-1 border border-gray-300 rounded text-xs resize-y"
+        rows={2}
+        placeholder="Ask a question or leave a note"
+      />
+      <button
+        onClick={handleAdd}
+        disabled={!text.trim()}
+        className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+      >
+        + Add Comment
+      </button>
+    </div>
+  );
+};
+
+export default EntityComments;
@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import { Model } from '../types';
+import { ExportContext, defaultExportOptions, exporters } from '../exporters';
+import { downloadFile } from '../utils/download';
+
+interface ExportDialogProps {
+  model: Model;
+  context: ExportContext;
+  onClose: () => void;
+}
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ model, context, onClose }) => {
+  const [exporterId, setExporterId] = useState(exporters[0].id);
+  const exporter = exporters.find(e => e.id === exporterId) ?? exporters[0];
+  const [options, setOptions] = useState(() => defaultExportOptions(exporter));
+  const [previewIndex, setPreviewIndex] = useState(0);
+
+  const files = useMemo(
+    () => exporter.generate(model, options, context),
+    [exporter, model, options, context]
+  );
+  const preview = files[Math.min(previewIndex, files.length - 1)];
+
+  const selectExporter = (id: string) => {
+    const next = exporters.find(e => e.id === id);
+    if (!next) return;
+    setExporterId(id);
+    setOptions(defaultExportOptions(next));
+    setPreviewIndex(0);
+  };
+
+  const downloadAll = () => {
+    try {
+      files.forEach(file => downloadFile(file.content, file.filename, file.mimeType));
+      onClose();
+    } catch (error) {
+      console.error('Export failed:', error);
+      alert('Export failed. Please try again.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-[48rem] max-h-[85vh] flex flex-col">
+        <div className="px-4 py-3 border-b border-gray-200">
+          <h3 className="font-semibold">Export as…</h3>
+          <div className="text-xs text-gray-500 mt-1">{exporter.description}</div>
+        </div>
+
+        <div className="px-4 py-2 flex flex-wrap gap-3 text-sm border-b border-gray-100">
+          <label className="flex items-center gap-2">
+            <span className="text-gray-500">Format</span>
+            <select
+              value={exporterId}
+              onChange={(e) => selectExporter(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded text-sm"
+            >
+              {exporters.map(e => (
+                <option key={e.id} value={e.id}>{e.label}</option>
+              ))}
+            </select>
+          </label>
+          {exporter.options.map(option => (
+            <label key={option.id} className="flex items-center gap-2">
+              <span className="text-gray-500">{option.label}</span>
+              <select
+                value={options[option.id]}
+                onChange={(e) => setOptions({ ...options, [option.id]: e.target.value })}
+                className="px-2 py-1 border border-gray-300 rounded text-sm"
+              >
+                {option.choices.map(choice => (
+                  <option key={choice.value} value={choice.value}>{choice.label}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        {files.length > 1 && (
+          <div className="px-4 pt-2 flex gap-2 text-xs">
+            {files.map((file, i) => (
+              <button
+                key={file.filename}
+                onClick={() => setPreviewIndex(i)}
+                className={`px-2 py-1 rounded ${file === preview ? 'bg-gray-700 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+              >
+                {file.filename}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Images are previewed as drawn; other binary formats can't be previewed */}
+        {preview?.mimeType === 'image/svg+xml' ? (
+          <div className="mx-4 my-2 p-3 bg-gray-50 border border-gray-200 rounded overflow-auto flex-1 min-h-[12rem]">
+            <img
+              src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(preview.content)}`}
+              alt={preview.filename}
+              className="max-w-full"
+            />
+          </div>
+        ) : preview?.mimeType === 'application/pdf' ? (
+          <div className="mx-4 my-2 p-3 bg-gray-50 border border-gray-200 rounded text-sm text-gray-500 flex-1 min-h-[12rem]">
+            {preview.filename} is ready to download ({Math.ceil(preview.content.length / 1024)} KB).
+          </div>
+        ) : (
+          <pre className="mx-4 my-2 p-3 bg-gray-50 border border-gray-200 rounded text-xs overflow-auto flex-1 min-h-[12rem]">
+            {preview?.content}
+          </pre>
+        )}
+
+        <div className="px-4 py-3 border-t border-gray-200 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={downloadAll}
+            className="px-3 py-1 bg-green-500 text-white rounded text-sm hover:bg-green-600"
+          >
+            Download {files.length === 1 ? files[0].filename : `${files.length} files`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
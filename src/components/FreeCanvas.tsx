@@ -0,0 +1,186 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+} from '@dnd-kit/core';
+
+import { Entity } from '../types';
+import { useModelStore } from '../store/modelStore';
+import { CARD_WIDTH, getEntityPosition } from '../utils/layout';
+import PositionedEntityCard from './PositionedEntityCard';
+import RelationshipLines from './RelationshipLines';
+
+interface FreeCanvasProps {
+  canvasRef: React.RefObject<HTMLDivElement>;
+  onEntityClick: (e: React.MouseEvent, entity: Entity) => void;
+}
+
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 2;
+// Room left beyond the furthest card, which also covers card heights
+const CONTENT_MARGIN = 600;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+// Free-form canvas: entities are dragged to any position, the background is
+// dragged to pan, and Ctrl/Cmd + wheel zooms around the pointer
+const FreeCanvas: React.FC<FreeCanvasProps> = ({
+  canvasRef,
+  onEntityClick,
+}) => {
+  const { model, moveEntity, addEntity } = useModelStore();
+  const contentRef = useRef<HTMLDivElement>(null);
+  const panStart = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+
+  const [zoom, setZoom] = useState(1);
+  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const [isPanning, setIsPanning] = useState(false);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor)
+  );
+
+  const zoomAt = (factor: number, originX: number, originY: number) => {
+    const nextZoom = clampZoom(zoom * factor);
+    const ratio = nextZoom / zoom;
+    setPan({
+      x: originX - (originX - pan.x) * ratio,
+      y: originY - (originY - pan.y) * ratio
+    });
+    setZoom(nextZoom);
+  };
+
+  const zoomAtCenter = (factor: number) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    zoomAt(factor, (rect?.width ?? 0) / 2, (rect?.height ?? 0) / 2);
+  };
+
+  // Wheel handling needs a non-passive listener so it can prevent page scrolling
+  useEffect(() => {
+    const element = canvasRef.current;
+    if (!element) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      if (e.ctrlKey || e.metaKey) {
+        const rect = element.getBoundingClientRect();
+        zoomAt(Math.exp(-e.deltaY * 0.002), e.clientX - rect.left, e.clientY - rect.top);
+      } else {
+        setPan(current => ({ x: current.x - e.deltaX, y: current.y - e.deltaY }));
+      }
+    };
+
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  });
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    // Only pan when grabbing the background, not a card
+    if (e.target !== canvasRef.current && e.target !== contentRef.current) return;
+    panStart.current = { pointerX: e.clientX, pointerY: e.clientY, ...pan };
+    setIsPanning(true);
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = panStart.current;
+    if (!start) return;
+    setPan({
+      x: start.x + e.clientX - start.pointerX,
+      y: start.y + e.clientY - start.pointerY
+    });
+  };
+
+  const handlePointerUp = () => {
+    panStart.current = null;
+    setIsPanning(false);
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, delta } = event;
+    const entity = model.entities.find(e => e.id === active.id);
+    if (!entity || (delta.x === 0 && delta.y === 0)) return;
+
+    const position = getEntityPosition(entity);
+    moveEntity(entity.id, {
+      x: Math.round(position.x + delta.x / zoom),
+      y: Math.round(position.y + delta.y / zoom)
+    });
+  };
+
+  const positions = model.entities.map(getEntityPosition);
+  const contentWidth = Math.max(0, ...positions.map(p => p.x)) + CARD_WIDTH + CONTENT_MARGIN;
+  const contentHeight = Math.max(0, ...positions.map(p => p.y)) + CONTENT_MARGIN;
+
+  return (
+    <div
+      ref={canvasRef}
+      className={`relative w-full h-full overflow-hidden bg-gray-50 ${isPanning ? 'cursor-grabbing' : 'cursor-grab'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      <div
+        ref={contentRef}
+        className="absolute top-0 left-0 isolate"
+        style={{
+          width: contentWidth,
+          height: contentHeight,
+          transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})`,
+          transformOrigin: '0 0',
+        }}
+      >
+        <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+          {model.entities.map(entity => (
+            <PositionedEntityCard
+              key={entity.id}
+              entity={entity}
+              zoom={zoom}
+              onEntityClick={onEntityClick}
+            />
+          ))}
+        </DndContext>
+
+        <RelationshipLines containerRef={contentRef} routing="direct" scale={zoom} />
+      </div>
+
+      {/* Zoom controls */}
+      <div className="absolute bottom-4 right-4 flex items-center gap-1 bg-white border border-gray-200 rounded shadow-sm p-1 text-sm">
+        <button
+          onClick={addEntity}
+          className="px-2 py-0.5 bg-blue-100 text-blue-800 rounded hover:bg-blue-200"
+        >
+          + Add Entity
+        </button>
+        <button
+          onClick={() => zoomAtCenter(1 / 1.2)}
+          className="px-2 py-0.5 rounded hover:bg-gray-100"
+          title="Zoom out"
+        >
+          −
+        </button>
+        <button
+          onClick={() => { setZoom(1); setPan({ x: 0, y: 0 }); }}
+          className="px-2 py-0.5 rounded hover:bg-gray-100 w-14"
+          title="Reset view"
+        >
+          {Math.round(zoom * 100)}%
+        </button>
+        <button
+          onClick={() => zoomAtCenter(1.2)}
+          className="px-2 py-0.5 rounded hover:bg-gray-100"
+          title="Zoom in"
+        >
+          +
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default FreeCanvas;
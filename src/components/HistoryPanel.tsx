@@ -0,0 +1,72 @@
+import React from 'react';
+import { useStore } from 'zustand';
+import { useActiveModelStore } from '../store/modelStore';
+import { useWorkspaceStore } from '../store/workspaceStore';
+import { useCollaborationStore } from '../store/collaborationStore';
+
+interface HistoryPanelProps {
+  onClose: () => void;
+}
+
+const formatTime = (at: number) => new Date(at).toLocaleTimeString(undefined, { timeStyle: 'short' });
+
+// Undo history of the model, oldest step first. Clicking a step undoes or
+// redoes everything up to it.
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ onClose }) => {
+  const modelStore = useActiveModelStore();
+  const historyStep = useStore(modelStore, state => state.historyStep);
+  const { pastStates, futureStates, undo, redo } = useStore(modelStore.temporal);
+  const activeDocumentId = useWorkspaceStore(state => state.activeDocumentId);
+  const shared = useCollaborationStore(state => state.documentId === activeDocumentId);
+
+  // Future states are stored next-to-redo last
+  const steps = [
+    ...pastStates.map(state => state.historyStep),
+    historyStep,
+    ...[...futureStates].reverse().map(state => state.historyStep),
+  ];
+  const current = pastStates.length;
+
+  const jumpTo = (index: number) => {
+    if (index < current) undo(current - index);
+    if (index > current) redo(index - current);
+  };
+
+  return (
+    <div className="bg-white border-t border-gray-200 max-h-64 flex flex-col">
+      <div className="flex justify-between items-center px-4 py-1 border-b border-gray-100">
+        <h4 className="font-medium text-sm">History ({current} steps to undo)</h4>
+        <button
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-700 text-sm"
+          title="Hide history"
+        >
+          ×
+        </button>
+      </div>
+      <div className="overflow-y-auto px-4 py-1 text-xs">
+        {shared ? (
+          <div className="py-1 text-gray-500">
+            This model is shared, so undo and redo step through your own changes only.
+          </div>
+        ) : (
+          steps.map((step, index) => (
+            <div
+              key={index}
+              onClick={() => jumpTo(index)}
+              className={`flex justify-between py-1 px-2 rounded cursor-pointer ${
+                index === current ? 'bg-blue-100 text-blue-800 font-medium' : 'hover:bg-gray-50'
+              } ${index > current ? 'text-gray-400' : ''}`}
+              title={index === current ? 'Current state' : index < current ? 'Undo to here' : 'Redo to here'}
+            >
+              <span>{step?.label ?? 'Edit'}</span>
+              {!!step?.at && <span className="text-gray-400">{formatTime(step.at)}</span>}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { MergeConflict, MergeResolution } from '../utils/mergeModels';
+
+interface MergeImportDialogProps {
+  conflicts: MergeConflict[];
+  incomingEntityCount: number;
+  incomingRelationshipCount: number;
+  onMerge: (resolutions: Record<string, MergeResolution>) => void;
+  onCancel: () => void;
+}
+
+const resolutionLabels: Record<MergeResolution, string> = {
+  keep: 'Keep current',
+  replace: 'Replace with imported',
+  rename: 'Import as a copy',
+};
+
+const MergeImportDialog: React.FC<MergeImportDialogProps> = ({
+  conflicts,
+  incomingEntityCount,
+  incomingRelationshipCount,
+  onMerge,
+  onCancel,
+}) => {
+  const [resolutions, setResolutions] = useState<Record<string, MergeResolution>>(() =>
+    Object.fromEntries(conflicts.map(c => [c.incomingId, 'keep' as MergeResolution]))
+  );
+
+  const setAll = (resolution: MergeResolution) => {
+    setResolutions(Object.fromEntries(conflicts.map(c => [c.incomingId, resolution])));
+  };
+
+  const describeConflict = (conflict: MergeConflict) => {
+    if (conflict.sameId && conflict.sameName) return 'same id and name';
+    if (conflict.sameId) return `same id as "${conflict.existingName}"`;
+    return 'same name';
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-[32rem] max-h-[80vh] flex flex-col">
+        <div className="px-4 py-3 border-b border-gray-200">
+          <h3 className="font-semibold">Merge import</h3>
+          <div className="text-xs text-gray-500 mt-1">
+            Importing {incomingEntityCount} entities and {incomingRelationshipCount} relationships.{' '}
+            {conflicts.length} {conflicts.length === 1 ? 'entity conflicts' : 'entities conflict'} with the current model.
+          </div>
+        </div>
+
+        <div className="px-4 py-2 flex gap-2 text-xs border-b border-gray-100">
+          <span className="text-gray-500">Set all:</span>
+          {(Object.keys(resolutionLabels) as MergeResolution[]).map(resolution => (
+            <button
+              key={resolution}
+              onClick={() => setAll(resolution)}
+              className="text-blue-600 hover:text-blue-800"
+            >
+              {resolutionLabels[resolution]}
+            </button>
+          ))}
+        </div>
+
+        <div className="overflow-y-auto px-4 py-2 space-y-2">
+          {conflicts.map(conflict => (
+            <div key={conflict.incomingId} className="flex items-center gap-2 text-sm">
+              <div className="flex-1 min-w-0">
+                <div className="font-medium truncate">{conflict.incomingName}</div>
+                <div className="text-xs text-gray-500">{describeConflict(conflict)}</div>
+              </div>
+              <select
+                value={resolutions[conflict.incomingId]}
+                onChange={(e) => setResolutions({
+                  ...resolutions,
+                  [conflict.incomingId]: e.target.value as MergeResolution
+                })}
+                className="px-2 py-1 border border-gray-300 rounded text-xs"
+              >
+                {(Object.keys(resolutionLabels) as MergeResolution[]).map(resolution => (
+                  <option key={resolution} value={resolution}>{resolutionLabels[resolution]}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        <div className="px-4 py-3 border-t border-gray-200 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onMerge(resolutions)}
+            className="px-3 py-1 bg-orange-500 text-white rounded text-sm hover:bg-orange-600"
+          >
+            Merge
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergeImportDialog;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { ChangeKind, EntityChange, ModelDiff, isEmptyDiff } from '../utils/snapshots';
+import { useModelStore } from '../store/modelStore';
+
+interface ModelDiffPanelProps {
+  diff: ModelDiff;
+  beforeLabel: string;
+  afterLabel: string;
+  onClose: () => void;
+}
+
+const kindStyles: Record<ChangeKind, string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-700',
+  changed: 'bg-amber-100 text-amber-800',
+};
+
+const listLine = (label: string, added: string[], removed: string[]) => [
+  ...added.map(value => `+ ${label} ${value}`),
+  ...removed.map(value => `− ${label} ${value}`),
+];
+
+// Lines describing what changed inside an entity
+const entityDetails = (change: EntityChange) => [
+  ...(change.renamedFrom ? [`renamed from ${change.renamedFrom}`] : []),
+  ...listLine('attribute', change.attributes.added, change.attributes.removed),
+  ...change.attributes.changed.map(attr => `~ attribute ${attr.before} → ${attr.after}`),
+  ...listLine('state', change.states.added, change.states.removed),
+  ...listLine('action', change.actions.added, change.actions.removed),
+];
+
+// Changes between two versions of the model. Changed cards are highlighted on
+// the canvas while it's open.
+const ModelDiffPanel: React.FC<ModelDiffPanelProps> = ({ diff, beforeLabel, afterLabel, onClose }) => {
+  const { model, setSelectedEntity } = useModelStore();
+
+  const selectEntity = (entityId: string) => {
+    const entity = model.entities.find(e => e.id === entityId);
+    if (entity) setSelectedEntity(entity);
+  };
+
+  return (
+    <div className="bg-white border-t border-gray-200 max-h-64 flex flex-col">
+      <div className="flex justify-between items-center px-4 py-1 border-b border-gray-100">
+        <h4 className="font-medium text-sm">
+          Changes from {beforeLabel} to {afterLabel} ({diff.entities.length} entities, {diff.relationships.length} relationships)
+        </h4>
+        <button
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-700 text-sm"
+          title="Hide changes"
+        >
+          ×
+        </button>
+      </div>
+      <div className="overflow-y-auto px-4 py-1 text-xs">
+        {isEmptyDiff(diff) && <div className="py-1 text-gray-500">No differences</div>}
+        {diff.entities.map(change => (
+          <div
+            key={`${change.kind}-${change.entityId}`}
+            onClick={() => selectEntity(change.entityId)}
+            className="py-1 cursor-pointer hover:bg-gray-50"
+          >
+            <span className={`px-1.5 py-0.5 rounded uppercase font-medium ${kindStyles[change.kind]}`}>{change.kind}</span>
+            <span className="ml-2 font-medium text-gray-800">{change.name.trim() || 'Unnamed entity'}</span>
+            {change.kind === 'changed' && (
+              <div className="ml-4 text-gray-600">
+                {entityDetails(change).map((line, i) => <div key={i}>{line}</div>)}
+              </div>
+            )}
+          </div>
+        ))}
+        {diff.relationships.map(change => (
+          <div key={`${change.kind}-${change.relationshipId}`} className="py-1">
+            <span className={`px-1.5 py-0.5 rounded uppercase font-medium ${kindStyles[change.kind]}`}>{change.kind}</span>
+            <span className="ml-2 text-gray-800">{change.description}</span>
+            {change.before && <span className="ml-2 text-gray-500">was {change.before}</span>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ModelDiffPanel;
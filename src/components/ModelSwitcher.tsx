@@ -0,0 +1,63 @@
+import React from 'react';
+import { useWorkspaceStore } from '../store/workspaceStore';
+
+const ModelSwitcher: React.FC = () => {
+  const {
+    documents,
+    activeDocumentId,
+    renameDocument,
+    duplicateDocument,
+    deleteDocument,
+    setActiveDocument,
+  } = useWorkspaceStore();
+
+  const activeDocument = documents.find(doc => doc.id === activeDocumentId);
+
+  const handleRename = () => {
+    if (!activeDocument) return;
+    const name = prompt('Rename model:', activeDocument.name);
+    if (name === null || !name.trim()) return;
+    renameDocument(activeDocument.id, name.trim());
+  };
+
+  const handleDelete = () => {
+    if (!activeDocument) return;
+    if (!confirm(`Delete "${activeDocument.name}"? This cannot be undone.`)) return;
+    deleteDocument(activeDocument.id);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <select
+        value={activeDocumentId}
+        onChange={(e) => setActiveDocument(e.target.value)}
+        className="px-2 py-1 border border-gray-300 rounded text-sm max-w-xs"
+        title="Switch model"
+      >
+        {documents.map(doc => (
+          <option key={doc.id} value={doc.id}>{doc.name}</option>
+        ))}
+      </select>
+      <button
+        onClick={handleRename}
+        className="px-2 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+      >
+        Rename
+      </button>
+      <button
+        onClick={() => activeDocument && duplicateDocument(activeDocument.id)}
+        className="px-2 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+      >
+        Duplicate
+      </button>
+      <button
+        onClick={handleDelete}
+        className="px-2 py-1 bg-red-100 text-red-600 rounded text-sm hover:bg-red-200"
+      >
+        Delete
+      </button>
+    </div>
+  );
+};
+
+export default ModelSwitcher;
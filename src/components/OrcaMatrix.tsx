@@ -0,0 +1,251 @@
+import React from 'react';
+import { AttributeRole, Entity } from '../types';
+import { useModelStore } from '../store/modelStore';
+import { ORCA_ROWS, OrcaRow, sortedEntities } from '../exporters/orcaMatrix';
+import { getCardinality } from '../utils/cardinality';
+import { getRelationshipTypes, relationshipPhrase, relationshipPhrases } from '../utils/relationships';
+import AttributeTypeSelect from './AttributeTypeSelect';
+
+interface OrcaMatrixProps {
+  containerRef: React.RefObject<HTMLDivElement>;
+  onExportCsv: () => void;
+}
+
+const inputClass = 'flex-1 min-w-0 px-1 py-0.5 border border-transparent hover:border-gray-300 focus:border-blue-400 rounded text-xs bg-transparent focus:bg-white outline-none';
+const removeClass = 'px-1 text-xs text-gray-400 hover:text-red-600';
+const addClass = 'text-xs text-blue-600 hover:text-blue-800';
+
+// Spreadsheet-style ORCA view: one column per object, edited in place
+const OrcaMatrix: React.FC<OrcaMatrixProps> = ({ containerRef, onExportCsv }) => {
+  const {
+    model,
+    selectedEntity,
+    addEntity,
+    updateEntity,
+    setSelectedEntity,
+    addAttribute,
+    removeAttribute,
+    updateAttribute,
+    setAttributeType,
+    addState,
+    removeState,
+    updateState,
+    addAction,
+    removeAction,
+    updateAction,
+    addRelationship,
+    updateRelationshipLabel,
+    retargetRelationship,
+    deleteRelationship,
+  } = useModelStore();
+
+  const entities = sortedEntities(model);
+  const relationshipTypes = getRelationshipTypes(model);
+
+  const attributeCell = (entity: Entity, role: AttributeRole) => {
+    const rows = (entity.attributes || [])
+      .map((attr, index) => ({ attr, index }))
+      .filter(({ attr }) => (attr.role ?? 'core') === role);
+
+    // New metadata is added in one update, so it's a single undo step
+    const add = () => role === 'core'
+      ? addAttribute(entity.id)
+      : updateEntity(entity.id, { attributes: [...entity.attributes, { name: '', type: 'string', role: 'metadata' }] });
+
+    return (
+      <>
+        {rows.map(({ attr, index }) => (
+          <div key={index} className="flex items-center gap-1">
+            <input
+              value={attr.name}
+              onChange={(e) => updateAttribute(entity.id, index, 'name', e.target.value)}
+              className={inputClass}
+              placeholder="attribute name"
+            />
+            <AttributeTypeSelect
+              attribute={attr}
+              customTypes={model.customTypes}
+              onChange={(value) => setAttributeType(entity.id, index, value)}
+              className="text-xs text-gray-500 bg-transparent"
+            />
+            <button
+              onClick={() => updateAttribute(entity.id, index, 'role', role === 'core' ? 'metadata' : 'core')}
+              className="px-1 text-xs text-gray-400 hover:text-gray-700"
+              title={role === 'core' ? 'Move to metadata' : 'Move to core content'}
+            >
+              {role === 'core' ? '↓' : '↑'}
+            </button>
+            <button onClick={() => removeAttribute(entity.id, index)} className={removeClass} title="Remove">×</button>
+          </div>
+        ))}
+        <button onClick={add} className={addClass}>+ Add</button>
+      </>
+    );
+  };
+
+  const listCell = (
+    items: string[],
+    placeholder: string,
+    update: (index: number, value: string) => void,
+    remove: (index: number) => void,
+    add: () => void
+  ) => (
+    <>
+      {items.map((item, index) => (
+        <div key={index} className="flex items-center gap-1">
+          <input
+            value={item}
+            onChange={(e) => update(index, e.target.value)}
+            className={inputClass}
+            placeholder={placeholder}
+          />
+          <button onClick={() => remove(index)} className={removeClass} title="Remove">×</button>
+        </div>
+      ))}
+      <button onClick={add} className={addClass}>+ Add</button>
+    </>
+  );
+
+  const nestedCell = (entity: Entity) => {
+    const outgoing = model.relationships.filter(rel => rel.from === entity.id);
+    const incoming = model.relationships.filter(rel => rel.to === entity.id);
+
+    return (
+      <>
+        {outgoing.map(rel => (
+          <div key={rel.id} className="flex items-center gap-1">
+            <select
+              value={rel.label}
+              onChange={(e) => updateRelationshipLabel(rel.id, e.target.value)}
+              className="text-xs text-purple-700 bg-transparent"
+            >
+              {relationshipPhrases(relationshipTypes, rel.label).map(type => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+            <select
+              value={rel.to}
+              onChange={(e) => retargetRelationship(rel.id, 'to', e.target.value)}
+              className="flex-1 min-w-0 text-xs bg-transparent"
+            >
+              {entities.map(e => (
+                <option key={e.id} value={e.id}>{e.name}</option>
+              ))}
+            </select>
+            <span className="text-xs text-purple-400">[{getCardinality(rel, 'to')}]</span>
+            <button onClick={() => deleteRelationship(rel.id)} className={removeClass} title="Remove">×</button>
+          </div>
+        ))}
+        {/* Incoming relationships are edited from the other object's column */}
+        {incoming.map(rel => (
+          <div key={rel.id} className="text-xs text-gray-400 px-1">
+            {relationshipPhrase(rel, relationshipTypes, 'to')} {model.entities.find(e => e.id === rel.from)?.name}
+          </div>
+        ))}
+        <select
+          value=""
+          onChange={(e) => addRelationship(entity.id, e.target.value)}
+          className="text-xs text-blue-600 bg-transparent"
+        >
+          <option value="" disabled>+ Add</option>
+          {entities.filter(e => e.id !== entity.id).map(e => (
+            <option key={e.id} value={e.id}>{e.name}</option>
+          ))}
+        </select>
+      </>
+    );
+  };
+
+  const cell = (entity: Entity, row: OrcaRow) => {
+    switch (row) {
+      case 'core':
+      case 'metadata':
+        return attributeCell(entity, row);
+      case 'nested':
+        return nestedCell(entity);
+      case 'ctas':
+        return listCell(
+          entity.actions || [],
+          'action',
+          (i, value) => updateAction(entity.id, i, value),
+          (i) => removeAction(entity.id, i),
+          () => addAction(entity.id)
+        );
+      case 'states':
+        return listCell(
+          entity.states || [],
+          'state',
+          (i, value) => updateState(entity.id, i, value),
+          (i) => removeState(entity.id, i),
+          () => addState(entity.id)
+        );
+    }
+  };
+
+  const rowColors: Record<OrcaRow, string> = {
+    core: 'text-gray-700',
+    metadata: 'text-gray-500',
+    nested: 'text-purple-700',
+    ctas: 'text-green-700',
+    states: 'text-blue-700',
+  };
+
+  return (
+    <div ref={containerRef} className="p-6 bg-gray-50 min-h-full inline-block min-w-full">
+      <div className="flex items-center mb-3">
+        <div className="text-sm text-gray-500">ORCA matrix: objects across, their relationships, CTAs and attributes down</div>
+        <button
+          onClick={onExportCsv}
+          className="ml-auto px-3 py-1 bg-green-100 text-green-800 rounded text-sm hover:bg-green-200"
+        >
+          Export CSV
+        </button>
+      </div>
+
+      <table className="border-collapse bg-white text-sm">
+        <thead>
+          <tr>
+            <th className="sticky left-0 bg-gray-100 border border-gray-300 w-36" />
+            {entities.map(entity => (
+              <th
+                key={entity.id}
+                className={`border border-gray-300 p-1 w-64 ${selectedEntity?.id === entity.id ? 'bg-blue-50' : 'bg-gray-100'}`}
+                onClick={() => setSelectedEntity(entity)}
+              >
+                <input
+                  value={entity.name}
+                  onChange={(e) => updateEntity(entity.id, { name: e.target.value })}
+                  className={`${inputClass} w-full font-semibold text-sm`}
+                  placeholder="Object name"
+                />
+              </th>
+            ))}
+            <th className="border border-gray-300 bg-gray-50 p-1">
+              <button onClick={addEntity} className={addClass} title="Add object">+ Object</button>
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {ORCA_ROWS.map(row => (
+            <tr key={row.id}>
+              <th className={`sticky left-0 bg-gray-50 border border-gray-300 p-2 text-left align-top text-xs font-medium ${rowColors[row.id]}`}>
+                {row.label}
+              </th>
+              {entities.map(entity => (
+                <td
+                  key={entity.id}
+                  className={`border border-gray-300 p-1 align-top space-y-0.5 ${selectedEntity?.id === entity.id ? 'bg-blue-50' : ''}`}
+                >
+                  {cell(entity, row.id)}
+                </td>
+              ))}
+              <td className="border border-gray-300 bg-gray-50" />
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default OrcaMatrix;
@@ -0,0 +1,181 @@
+import React from 'react';
+import { Entity, Role } from '../types';
+import { useModelStore } from '../store/modelStore';
+import { permissionRows, transitionStates } from '../utils/permissions';
+
+interface PermissionsPanelProps {
+  onExportCsv: () => void;
+  onExportJson: () => void;
+  onClose: () => void;
+}
+
+const inputClass = 'px-2 py-1 border border-gray-300 rounded text-xs';
+
+// Roles of the model and which of them may perform each entity action
+const PermissionsPanel: React.FC<PermissionsPanelProps> = ({ onExportCsv, onExportJson, onClose }) => {
+  const { model, addRole, updateRole, deleteRole, setActionPermission } = useModelStore();
+  const roles = model.roles || [];
+  const rows = permissionRows(model);
+
+  const handleDeleteRole = (role: Role) => {
+    const grants = rows.filter(row => row.roles.includes(role)).length;
+    if (grants > 0 && !confirm(`${role.name.trim() || 'This role'} may perform ${grants} action(s). Delete it?`)) {
+      return;
+    }
+    deleteRole(role.id);
+  };
+
+  const toggleRole = (entity: Entity, action: string, roleIds: string[], roleId: string) => {
+    const allowed = roleIds.includes(roleId);
+    setActionPermission(entity.id, action, {
+      roleIds: allowed ? roleIds.filter(id => id !== roleId) : [...roleIds, roleId],
+    });
+  };
+
+  const toggleState = (entity: Entity, action: string, states: string[], state: string) => {
+    setActionPermission(entity.id, action, {
+      states: states.includes(state) ? states.filter(s => s !== state) : [...states, state],
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-[60rem] max-w-[95vw] max-h-[85vh] flex flex-col">
+        <div className="px-4 py-3 border-b border-gray-200">
+          <h3 className="font-semibold">Permissions</h3>
+          <div className="text-xs text-gray-500 mt-1">
+            Who may perform each CTA. Restrict an action to some states to make it a precondition; with none picked it's allowed in any state.
+          </div>
+        </div>
+
+        <div className="px-4 py-2 border-b border-gray-100">
+          <div className="text-sm font-medium mb-1">Roles</div>
+          <div className="flex flex-wrap gap-2">
+            {roles.map(role => (
+              <div key={role.id} className="flex items-center gap-1 border border-gray-200 rounded p-1">
+                <input
+                  type="text"
+                  value={role.name}
+                  onChange={(e) => updateRole(role.id, { name: e.target.value })}
+                  className={`${inputClass} w-28 font-medium`}
+                  placeholder="Role name"
+                />
+                <input
+                  type="text"
+                  value={role.description ?? ''}
+                  onChange={(e) => updateRole(role.id, { description: e.target.value || undefined })}
+                  className={`${inputClass} w-40`}
+                  placeholder="description"
+                />
+                <button
+                  onClick={() => handleDeleteRole(role)}
+                  className="px-1.5 py-0.5 bg-red-100 text-red-600 rounded text-xs hover:bg-red-200"
+                  title="Delete role"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={addRole}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              + Add Role
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-auto flex-1">
+          {rows.length === 0 ? (
+            <div className="px-4 py-4 text-sm text-gray-500">No entity has actions yet.</div>
+          ) : (
+            <table className="text-xs border-collapse w-full">
+              <thead className="sticky top-0 bg-gray-50">
+                <tr>
+                  <th className="text-left px-3 py-1.5 border-b border-gray-200">Entity</th>
+                  <th className="text-left px-3 py-1.5 border-b border-gray-200">Action</th>
+                  {roles.map(role => (
+                    <th key={role.id} className="px-2 py-1.5 border-b border-gray-200" title={role.description}>
+                      {role.name.trim() || 'Unnamed role'}
+                    </th>
+                  ))}
+                  <th className="text-left px-3 py-1.5 border-b border-gray-200">Allowed in states</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(({ entity, action, roles: allowed, states }) => {
+                  const roleIds = allowed.map(role => role.id);
+                  const suggested = transitionStates(entity, action);
+                  const entityStates = [...new Set(entity.states.map(state => state.trim()).filter(Boolean))];
+                  return (
+                    <tr key={`${entity.id}:${action}`} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="px-3 py-1 text-gray-600">{entity.name}</td>
+                      <td className="px-3 py-1 font-medium text-green-700">{action}</td>
+                      {roles.map(role => (
+                        <td key={role.id} className="px-2 py-1 text-center">
+                          <input
+                            type="checkbox"
+                            checked={roleIds.includes(role.id)}
+                            onChange={() => toggleRole(entity, action, roleIds, role.id)}
+                          />
+                        </td>
+                      ))}
+                      <td className="px-3 py-1">
+                        <div className="flex flex-wrap items-center gap-1">
+                          {entityStates.map(state => (
+                            <button
+                              key={state}
+                              onClick={() => toggleState(entity, action, states, state)}
+                              className={`px-1.5 py-0.5 rounded ${
+                                states.includes(state) ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-400 hover:text-gray-600'
+                              }`}
+                            >
+                              {state}
+                            </button>
+                          ))}
+                          {entityStates.length === 0 && <span className="text-gray-400">no states</span>}
+                          {suggested.length > 0 && suggested.join('|') !== states.join('|') && (
+                            <button
+                              onClick={() => setActionPermission(entity.id, action, { states: suggested })}
+                              className="text-blue-600 hover:text-blue-800"
+                              title="Use the states this action's transitions start from"
+                            >
+                              from transitions
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="px-4 py-3 border-t border-gray-200 flex gap-2">
+          <button
+            onClick={onExportCsv}
+            className="px-3 py-1 bg-blue-100 text-blue-800 rounded text-sm hover:bg-blue-200"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={onExportJson}
+            className="px-3 py-1 bg-blue-100 text-blue-800 rounded text-sm hover:bg-blue-200"
+          >
+            Export JSON
+          </button>
+          <button
+            onClick={onClose}
+            className="ml-auto px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PermissionsPanel;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { useDraggable } from '@dnd-kit/core';
+import { Entity } from '../types';
+import { getEntityPosition } from '../utils/layout';
+import EntityCard from './EntityCard';
+
+interface PositionedEntityCardProps {
+  entity: Entity;
+  zoom: number;
+  onEntityClick: (e: React.MouseEvent, entity: Entity) => void;
+}
+
+// Entity card placed at its x/y position on the free-form canvas
+const PositionedEntityCard: React.FC<PositionedEntityCardProps> = ({
+  entity,
+  zoom,
+  onEntityClick,
+}) => {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    isDragging,
+  } = useDraggable({ id: entity.id });
+
+  const position = getEntityPosition(entity);
+
+  return (
+    <EntityCard
+      entity={entity}
+      onEntityClick={onEntityClick}
+      drag={{
+        setNodeRef,
+        attributes,
+        listeners,
+        style: {
+          position: 'absolute',
+          left: position.x,
+          top: position.y,
+          // The canvas is scaled, so pointer movement is converted back to canvas units
+          transform: transform ? `translate3d(${transform.x / zoom}px, ${transform.y / zoom}px, 0)` : undefined,
+          // Only animate highlight changes, so the card doesn't slide back after a drop
+          transition: 'border-color 150ms, box-shadow 150ms',
+          zIndex: isDragging ? 10 : undefined,
+        },
+        isDragging,
+        handleTitle: 'Drag to move',
+      }}
+    />
+  );
+};
+
+export default PositionedEntityCard;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Problem, Severity } from '../validation/engine';
+import { useModelStore } from '../store/modelStore';
+
+interface ProblemsPanelProps {
+  problems: Problem[];
+  onClose: () => void;
+}
+
+const severityStyles: Record<Severity, string> = {
+  error: 'bg-red-100 text-red-700',
+  warning: 'bg-yellow-100 text-yellow-800',
+  info: 'bg-blue-100 text-blue-700',
+};
+
+const ProblemsPanel: React.FC<ProblemsPanelProps> = ({
+  problems,
+  onClose,
+}) => {
+  const { model, selectedEntity, setSelectedEntity } = useModelStore();
+
+  const handleProblemClick = (problem: Problem) => {
+    const entity = model.entities.find(e => e.id === problem.target.entityId);
+    if (entity) {
+      setSelectedEntity(entity);
+    }
+  };
+
+  return (
+    <div className="bg-white border-t border-gray-200 max-h-48 flex flex-col">
+      <div className="flex justify-between items-center px-4 py-1 border-b border-gray-100">
+        <h4 className="font-medium text-sm">Problems ({problems.length})</h4>
+        <button
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-700 text-sm"
+          title="Hide problems"
+        >
+          ×
+        </button>
+      </div>
+      <div className="overflow-y-auto">
+        {problems.length === 0 ? (
+          <div className="px-4 py-2 text-xs text-gray-500">No problems found</div>
+        ) : (
+          problems.map((problem, i) => (
+            <div
+              key={`${problem.ruleId}-${i}`}
+              onClick={() => handleProblemClick(problem)}
+              className={`flex items-center gap-2 px-4 py-1 text-xs cursor-pointer hover:bg-gray-50 ${
+                problem.target.entityId && selectedEntity?.id === problem.target.entityId ? 'bg-blue-50' : ''
+              }`}
+            >
+              <span className={`px-1.5 py-0.5 rounded uppercase font-medium ${severityStyles[problem.severity]}`}>
+                {problem.severity}
+              </span>
+              <span className="text-gray-800">{problem.message}</span>
+              <span className="ml-auto text-gray-400">{problem.ruleId}</span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProblemsPanel;
@@ -0,0 +1,186 @@
+import React, { useLayoutEffect, useState } from 'react';
+import { useModelStore } from '../store/modelStore';
+import { CardRect, edgePoint } from '../utils/geometry';
+
+interface RelationshipLinesProps {
+  containerRef: React.RefObject<HTMLDivElement>;
+  // 'arc' swings under a row of cards (strip view), 'direct' joins card edges (free-form view)
+  routing?: 'arc' | 'direct';
+  // Zoom applied to the container, so measurements can be converted back to canvas units
+  scale?: number;
+}
+
+interface Connector {
+  id: string;
+  path: string;
+  labelX: number;
+  labelY: number;
+  label: string;
+  highlighted: boolean;
+  bottom: number;
+}
+
+// Measure every entity card relative to the canvas container
+const measureCards = (container: HTMLElement, scale: number): Record<string, CardRect> => {
+  const base = container.getBoundingClientRect();
+  const rects: Record<string, CardRect> = {};
+
+  container.querySelectorAll<HTMLElement>('[data-entity-id]').forEach(el => {
+    const rect = el.getBoundingClientRect();
+    rects[el.dataset.entityId!] = {
+      left: (rect.left - base.left) / scale,
+      right: (rect.right - base.left) / scale,
+      top: (rect.top - base.top) / scale,
+      bottom: (rect.bottom - base.top) / scale
+    };
+  });
+
+  return rects;
+};
+
+// Connector below a row of cards, arcing underneath any cards in between
+const arcConnector = (from: CardRect, to: CardRect, cards: CardRect[], parallelIndex: number) => {
+  const x1 = (from.left + from.right) / 2 + parallelIndex * 12;
+  const x2 = (to.left + to.right) / 2 + parallelIndex * 12;
+  const y1 = from.bottom;
+  const y2 = to.bottom;
+  const minX = Math.min(from.left, to.left);
+  const maxX = Math.max(from.right, to.right);
+
+  const spannedBottom = Math.max(
+    y1,
+    y2,
+    ...cards.filter(card => card.right > minX && card.left < maxX).map(card => card.bottom)
+  );
+  const depth = 24 + Math.abs(x2 - x1) * 0.12 + parallelIndex * 18;
+  const controlY = spannedBottom + depth + (spannedBottom - Math.min(y1, y2)) / 3;
+
+  return {
+    path: `M ${x1} ${y1} C ${x1} ${controlY}, ${x2} ${controlY}, ${x2} ${y2}`,
+    labelX: (x1 + x2) / 2,
+    labelY: (y1 + y2) / 8 + controlY * 0.75,
+    bottom: controlY
+  };
+};
+
+// Connector straight between the facing edges of two cards, bowed apart when
+// several relationships join the same pair
+const directConnector = (from: CardRect, to: CardRect, parallelIndex: number) => {
+  const dx = (to.left + to.right - from.left - from.right) / 2;
+  const dy = (to.top + to.bottom - from.top - from.bottom) / 2;
+  const start = edgePoint(from, dx, dy);
+  const end = edgePoint(to, -dx, -dy);
+  const length = Math.hypot(dx, dy) || 1;
+  const bow = parallelIndex * 28;
+  const controlX = (start.x + end.x) / 2 - (dy / length) * bow;
+  const controlY = (start.y + end.y) / 2 + (dx / length) * bow;
+
+  return {
+    path: `M ${start.x} ${start.y} Q ${controlX} ${controlY}, ${end.x} ${end.y}`,
+    labelX: (start.x + end.x) / 4 + controlX / 2,
+    labelY: (start.y + end.y) / 4 + controlY / 2,
+    bottom: Math.max(start.y, end.y, controlY)
+  };
+};
+
+const RelationshipLines: React.FC<RelationshipLinesProps> = ({
+  containerRef,
+  routing = 'arc',
+  scale = 1,
+}) => {
+  const { model, selectedEntity } = useModelStore();
+  const [rects, setRects] = useState<Record<string, CardRect>>({});
+
+  // Re-measure whenever the model changes (reorders, edits that resize cards)
+  // and whenever the container or any card is resized
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const measure = () => setRects(measureCards(container, scale));
+    measure();
+
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    container.querySelectorAll('[data-entity-id]').forEach(el => observer.observe(el));
+
+    return () => observer.disconnect();
+  }, [containerRef, model, scale]);
+
+  const cards = Object.values(rects);
+  const pairCounts: Record<string, number> = {};
+
+  const connectors: Connector[] = model.relationships.flatMap(rel => {
+    const from = rects[rel.from];
+    const to = rects[rel.to];
+    if (!from || !to) return [];
+
+    const pairKey = [rel.from, rel.to].sort().join('|');
+    const parallelIndex = pairCounts[pairKey] ?? 0;
+    pairCounts[pairKey] = parallelIndex + 1;
+
+    const geometry = routing === 'arc'
+      ? arcConnector(from, to, cards, parallelIndex)
+      : directConnector(from, to, parallelIndex);
+
+    return [{
+      id: rel.id,
+      ...geometry,
+      // Read from the source's perspective, as in the cards' outgoing lists
+      label: rel.label,
+      highlighted: !!selectedEntity && (rel.from === selectedEntity.id || rel.to === selectedEntity.id)
+    }];
+  });
+
+  const cardsBottom = Math.max(0, ...cards.map(card => card.bottom));
+  const linesBottom = Math.max(0, ...connectors.map(c => c.bottom));
+  // Reserve room below a row of cards so connectors aren't clipped, including in exports
+  const extraSpace = routing === 'arc' ? Math.max(0, linesBottom - cardsBottom + 16) : 0;
+
+  return (
+    <>
+      <svg
+        className="absolute top-0 left-0 pointer-events-none"
+        style={{ zIndex: -1, overflow: 'visible' }}
+        width="100%"
+        height="100%"
+      >
+        <defs>
+          <marker id="relationship-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#a78bfa" />
+          </marker>
+          <marker id="relationship-arrow-highlighted" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#3b82f6" />
+          </marker>
+        </defs>
+        {connectors.map(connector => (
+          <g key={connector.id}>
+            <path
+              d={connector.path}
+              fill="none"
+              stroke={connector.highlighted ? '#3b82f6' : '#a78bfa'}
+              strokeWidth={connector.highlighted ? 2.5 : 1.5}
+              markerEnd={`url(#${connector.highlighted ? 'relationship-arrow-highlighted' : 'relationship-arrow'})`}
+            />
+            <text
+              x={connector.labelX}
+              y={connector.labelY}
+              textAnchor="middle"
+              dominantBaseline="middle"
+              fontSize={11}
+              fill={connector.highlighted ? '#1d4ed8' : '#6d28d9'}
+              stroke="#f9fafb"
+              strokeWidth={4}
+              paintOrder="stroke"
+            >
+              {connector.label}
+            </text>
+          </g>
+        ))}
+      </svg>
+      <div style={{ height: extraSpace }} />
+    </>
+  );
+};
+
+export default RelationshipLines;
@@ -0,0 +1,126 @@
+import React from 'react';
+import { RelationshipKind, RelationshipType } from '../types';
+import { useModelStore } from '../store/modelStore';
+import { RELATIONSHIP_KINDS, findRelationshipType, getRelationshipTypes } from '../utils/relationships';
+
+interface RelationshipTypesDialogProps {
+  onClose: () => void;
+}
+
+const inputClass = 'px-2 py-1 border border-gray-300 rounded text-sm';
+
+const kindLabels: Record<RelationshipKind, string> = {
+  composition: 'Composition',
+  aggregation: 'Aggregation',
+  association: 'Association',
+};
+
+// Catalogue of the wordings relationships may use
+const RelationshipTypesDialog: React.FC<RelationshipTypesDialogProps> = ({ onClose }) => {
+  const { model, addRelationshipType, updateRelationshipType, deleteRelationshipType } = useModelStore();
+  const types = getRelationshipTypes(model);
+
+  const usageCount = (type: RelationshipType) =>
+    model.relationships.filter(rel => findRelationshipType(types, rel) === type).length;
+
+  const handleDelete = (type: RelationshipType) => {
+    const uses = usageCount(type);
+    if (uses > 0 && !confirm(`${uses} relationship(s) read "${type.label}" and will become plain associations. Delete it?`)) {
+      return;
+    }
+    deleteRelationshipType(type.id);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-[44rem] max-h-[85vh] flex flex-col">
+        <div className="px-4 py-3 border-b border-gray-200">
+          <h3 className="font-semibold">Relationship types</h3>
+          <div className="text-xs text-gray-500 mt-1">
+            How relationships read from each end, e.g. Order "contains" Line Item and Line Item "belongs to" Order. The kind sets the diagram notation.
+          </div>
+        </div>
+
+        <div className="px-4 py-2 overflow-y-auto flex-1">
+          {types.length === 0 ? (
+            <div className="text-sm text-gray-500 py-4">No relationship types yet.</div>
+          ) : (
+            <table className="text-sm w-full">
+              <thead>
+                <tr className="text-xs text-gray-500">
+                  <th className="text-left font-normal pb-1">Label</th>
+                  <th className="text-left font-normal pb-1">Inverse label</th>
+                  <th className="text-left font-normal pb-1">Kind</th>
+                  <th />
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {types.map(type => (
+                  <tr key={type.id}>
+                    <td className="pr-2 py-1">
+                      <input
+                        type="text"
+                        value={type.label}
+                        onChange={(e) => updateRelationshipType(type.id, { label: e.target.value })}
+                        className={`${inputClass} w-full font-medium`}
+                        placeholder="contains"
+                      />
+                    </td>
+                    <td className="pr-2 py-1">
+                      <input
+                        type="text"
+                        value={type.inverseLabel}
+                        onChange={(e) => updateRelationshipType(type.id, { inverseLabel: e.target.value })}
+                        className={`${inputClass} w-full`}
+                        placeholder="same both ways"
+                      />
+                    </td>
+                    <td className="pr-2 py-1">
+                      <select
+                        value={type.kind}
+                        onChange={(e) => updateRelationshipType(type.id, { kind: e.target.value as RelationshipKind })}
+                        className={inputClass}
+                      >
+                        {RELATIONSHIP_KINDS.map(kind => (
+                          <option key={kind} value={kind}>{kindLabels[kind]}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="pr-2 py-1 text-xs text-gray-400 whitespace-nowrap">used {usageCount(type)}×</td>
+                    <td className="py-1">
+                      <button
+                        onClick={() => handleDelete(type)}
+                        className="px-2 py-1 bg-red-100 text-red-600 rounded text-xs hover:bg-red-200"
+                        title="Delete relationship type"
+                      >
+                        ×
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="px-4 py-3 border-t border-gray-200 flex gap-2">
+          <button
+            onClick={addRelationshipType}
+            className="px-3 py-1 bg-blue-100 text-blue-800 rounded text-sm hover:bg-blue-200"
+          >
+            + Relationship Type
+          </button>
+          <button
+            onClick={onClose}
+            className="ml-auto px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RelationshipTypesDialog;
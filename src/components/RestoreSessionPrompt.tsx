@@ -0,0 +1,43 @@
+import React from 'react';
+
+interface RestoreSessionPromptProps {
+  savedAt: string;
+  documentCount: number;
+  entityCount: number;
+  relationshipCount: number;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+const RestoreSessionPrompt: React.FC<RestoreSessionPromptProps> = ({
+  savedAt,
+  documentCount,
+  entityCount,
+  relationshipCount,
+  onRestore,
+  onDiscard,
+}) => {
+  return (
+    <div className="bg-orange-50 border-b border-orange-200 px-4 py-2 flex items-center gap-4 text-sm text-orange-800">
+      <div>
+        Restore previous session? Saved {new Date(savedAt).toLocaleString()} with{' '}
+        {documentCount} {documentCount === 1 ? 'model' : 'models'}, {entityCount} entities and{' '}
+        {relationshipCount} relationships.
+      </div>
+      <button
+        onClick={onRestore}
+        className="px-3 py-1 bg-orange-500 text-white rounded text-sm hover:bg-orange-600"
+      >
+        Restore
+      </button>
+      <button
+        onClick={onDiscard}
+        className="px-3 py-1 bg-white border border-orange-300 text-orange-800 rounded text-sm hover:bg-orange-100"
+      >
+        Discard
+      </button>
+    </div>
+  );
+};
+
+export default RestoreSessionPrompt;
@@ -1,27 +1,44 @@
-import React, { useRef, useEffect } from 'react';
-import { Attribute } from '../types';
+import React, { useRef, useState } from 'react';
+import { Attribute, Cardinality, Relationship } from '../types';
 import { useModelStore } from '../store/modelStore';
+import {
+  CARDINALITIES,
+  RelationshipEnd,
+  getCardinality,
+  isRequiredEnd,
+  cardinalityUpdates,
+  requiredUpdates,
+} from '../utils/cardinality';
+import { defaultValueProblem, getEnumValues } from '../utils/attributes';
+import { findCustomType } from '../utils/customTypes';
+import { getRelationshipTypes, relationshipPhrase, relationshipPhrases } from '../utils/relationships';
+import AttributeTypeSelect from './AttributeTypeSelect';
+import EntityComments from './EntityComments';
 
 interface RightSidebarProps {
-  // Props can now be empty - component will get everything from store
+  onEditStateMachine: () => void;
 }
 
-const RightSidebar: React.FC<RightSidebarProps> = () => {
+const RightSidebar: React.FC<RightSidebarProps> = ({ onEditStateMachine }) => {
   // Refs for auto-focusing new inputs
   const lastAttributeRef = useRef<HTMLInputElement>(null);
   const lastStateRef = useRef<HTMLInputElement>(null);
   const lastActionRef = useRef<HTMLInputElement>(null);
+  // Entity id and index of the attribute whose details are open
+  const [expandedAttribute, setExpandedAttribute] = useState<string | null>(null);
   
   // Get everything directly from the store
   const {
     model,
     selectedEntity,
-    relationshipTypes,
     isCreatingRelationship,
     relationshipStart,
     updateEntity,
     deleteEntity,
     updateRelationshipLabel,
+    updateRelationship,
+    deleteRelationship,
+    retargetRelationship,
     addAttribute,
     addState,
     addAction,
@@ -31,11 +48,13 @@ const RightSidebar: React.FC<RightSidebarProps> = () => {
     updateAttribute,
     updateState,
     updateAction,
+    setAttributeType,
     startRelationshipFromEntity,
     cancelRelationship,
   } = useModelStore();
   
   const { entities, relationships } = model;
+  const relationshipTypes = getRelationshipTypes(model);
   // Wrapper functions for store methods that need selectedEntity.id
   const handleAddAttribute = () => {
     if (!selectedEntity) return;
@@ -90,7 +109,7 @@ const RightSidebar: React.FC<RightSidebarProps> = () => {
     removeAction(selectedEntity.id, index);
   };
 
-  const handleUpdateAttribute = (index: number, field: keyof Attribute, value: string) => {
+  const handleUpdateAttribute = <K extends keyof Attribute>(index: number, field: K, value: Attribute[K]) => {
     if (!selectedEntity) return;
     updateAttribute(selectedEntity.id, index, field, value);
   };
@@ -105,6 +124,89 @@ const RightSidebar: React.FC<RightSidebarProps> = () => {
     updateAction(selectedEntity.id, index, value);
   };
 
+  // Constraints and documentation for one attribute, shown below its row
+  const renderAttributeDetails = (attr: Attribute, index: number) => {
+    const customType = findCustomType(model.customTypes, attr);
+    const enumValues = getEnumValues(attr);
+    const problem = defaultValueProblem(attr, model.customTypes);
+    const defaultChoices = attr.type === 'boolean' ? ['true', 'false'] : attr.type === 'enum' ? enumValues : [];
+
+    return (
+      <div className="mt-1 p-2 bg-gray-50 border border-gray-200 rounded text-xs space-y-1.5">
+        <div className="flex gap-3 text-gray-600">
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={attr.required ?? false}
+              onChange={(e) => handleUpdateAttribute(index, 'required', e.target.checked)}
+            />
+            required
+          </label>
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={attr.unique ?? false}
+              onChange={(e) => handleUpdateAttribute(index, 'unique', e.target.checked)}
+            />
+            unique
+          </label>
+          <label className="flex items-center gap-1" title="Holds a list of values">
+            <input
+              type="checkbox"
+              checked={attr.multiplicity === 'list'}
+              onChange={(e) => handleUpdateAttribute(index, 'multiplicity', e.target.checked ? 'list' : 'single')}
+            />
+            list
+          </label>
+        </div>
+        {attr.type === 'enum' && !customType && (
+          <input
+            type="text"
+            value={(attr.enumValues || []).join(',')}
+            onChange={(e) => handleUpdateAttribute(index, 'enumValues', e.target.value.split(','))}
+            className="w-full px-2 py-1 border border-gray-300 rounded"
+            placeholder="values, separated by commas"
+          />
+        )}
+        {customType?.kind === 'composite' ? (
+          <div className="text-gray-500">
+            {customType.name.trim() || 'Unnamed type'} values have the fields {customType.fields.map(f => f.name.trim()).filter(Boolean).join(', ') || '(none yet)'}
+          </div>
+        ) : defaultChoices.length > 0 ? (
+          <select
+            value={attr.defaultValue ?? ''}
+            onChange={(e) => handleUpdateAttribute(index, 'defaultValue', e.target.value || undefined)}
+            className="w-full px-2 py-1 border border-gray-300 rounded bg-white"
+          >
+            <option value="">no default</option>
+            {attr.defaultValue && !defaultChoices.includes(attr.defaultValue) && (
+              <option value={attr.defaultValue}>{attr.defaultValue}</option>
+            )}
+            {defaultChoices.map(choice => (
+              <option key={choice} value={choice}>{choice}</option>
+            ))}
+          </select>
+        ) : (
+          <input
+            type="text"
+            value={attr.defaultValue ?? ''}
+            onChange={(e) => handleUpdateAttribute(index, 'defaultValue', e.target.value || undefined)}
+            className="w-full px-2 py-1 border border-gray-300 rounded"
+            placeholder={attr.type === 'date' ? 'default, e.g. 2024-01-31' : 'default value'}
+          />
+        )}
+        {problem && <div className="text-red-600">Default {problem}</div>}
+        <textarea
+          value={attr.description ?? ''}
+          onChange={(e) => handleUpdateAttribute(index, 'description', e.target.value || undefined)}
+          className="w-full px-2 py-1 border border-gray-300 rounded resize-y"
+          rows={2}
+          placeholder="description"
+        />
+      </div>
+    );
+  };
+
   // Get relationships for an entity
   const getEntityRelationships = (entityId: string) => {
     return {
@@ -113,6 +215,65 @@ const RightSidebar: React.FC<RightSidebarProps> = () => {
     };
   };
 
+  // Editor for how many entities take part on one end of a relationship,
+  // phrased from the perspective of the entity at the opposite end
+  const renderMultiplicity = (rel: Relationship, end: RelationshipEnd, ownerName?: string, endName?: string) => (
+    <div className="flex items-center gap-1 mt-1 text-gray-600">
+      <span className="truncate">Each {ownerName || 'Unknown'} has</span>
+      <select
+        value={getCardinality(rel, end)}
+        onChange={(e) => updateRelationship(rel.id, cardinalityUpdates(end, e.target.value as Cardinality))}
+        className="px-1 py-0.5 border border-gray-200 rounded text-xs"
+      >
+        {CARDINALITIES.map(cardinality => (
+          <option key={cardinality} value={cardinality}>{cardinality}</option>
+        ))}
+      </select>
+      <span className="truncate flex-1">{endName || 'Unknown'}</span>
+      <label className="flex items-center gap-0.5" title="Required">
+        <input
+          type="checkbox"
+          checked={isRequiredEnd(rel, end)}
+          onChange={(e) => updateRelationship(rel.id, requiredUpdates(rel, end, e.target.checked))}
+        />
+        req
+      </label>
+    </div>
+  );
+
+  // Header for a relationship card: the entity at the other end, which can be
+  // switched to any other entity, and a button to remove the relationship
+  const renderEndpoint = (rel: Relationship, end: RelationshipEnd, arrow: string, colorClass: string) => {
+    const endpointId = end === 'from' ? rel.from : rel.to;
+    const endpointExists = entities.some(e => e.id === endpointId);
+
+    return (
+      <div className={`flex items-center gap-1 font-medium ${colorClass}`}>
+        <span>{arrow}</span>
+        <select
+          value={endpointExists ? endpointId : ''}
+          onChange={(e) => retargetRelationship(rel.id, end, e.target.value)}
+          className="flex-1 min-w-0 px-1 py-0.5 border border-gray-200 rounded text-xs bg-white"
+          title="Change the related entity"
+        >
+          {!endpointExists && <option value="">Unknown</option>}
+          {entities
+            .filter(e => e.id !== selectedEntity?.id)
+            .map(e => (
+              <option key={e.id} value={e.id}>{e.name}</option>
+            ))}
+        </select>
+        <button
+          onClick={() => deleteRelationship(rel.id)}
+          className="px-1.5 py-0.5 bg-red-100 text-red-600 rounded text-xs hover:bg-red-200"
+          title="Delete relationship"
+        >
+          ×
+        </button>
+      </div>
+    );
+  };
+
   if (!selectedEntity) {
     return (
       <div className="w-64 bg-white border-l border-gray-200 p-4 overflow-y-auto">
@@ -143,33 +304,38 @@ const RightSidebar: React.FC<RightSidebarProps> = () => {
         <div className="mb-4">
           <label className="block text-sm font-medium mb-2">Attributes:</label>
           {(selectedEntity.attributes || []).map((attr: Attribute, i: number) => (
-            <div key={i} className="flex gap-2 mb-2">
-              <input
-                ref={i === (selectedEntity.attributes || []).length - 1 ? lastAttributeRef : undefined}
-                type="text"
-                value={attr.name || ''}
-                onChange={(e) => handleUpdateAttribute(i, 'name', e.target.value)}
-                onKeyDown={(e) => handleKeyDown(e, 'attribute')}
-                className="flex-1 px-2 py-1 border border-gray-300 rounded text-xs"
-                placeholder="attribute name"
-              />
-              <select
-                value={attr.type || 'string'}
-                onChange={(e) => handleUpdateAttribute(i, 'type', e.target.value)}
-                className="px-2 py-1 border border-gray-300 rounded text-xs"
-              >
-                <option value="string">string</option>
-                <option value="number">number</option>
-                <option value="boolean">boolean</option>
-                <option value="date">date</option>
-                <option value="enum">enum</option>
-              </select>
-              <button
-                onClick={() => handleRemoveAttribute(i)}
-                className="px-2 py-1 bg-red-100 text-red-600 rounded text-xs hover:bg-red-200"
-              >
-                ×
-              </button>
+            <div key={i} className="mb-2">
+              <div className="flex gap-2">
+                <input
+                  ref={i === (selectedEntity.attributes || []).length - 1 ? lastAttributeRef : undefined}
+                  type="text"
+                  value={attr.name || ''}
+                  onChange={(e) => handleUpdateAttribute(i, 'name', e.target.value)}
+                  onKeyDown={(e) => handleKeyDown(e, 'attribute')}
+                  className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded text-xs"
+                  placeholder="attribute name"
+                />
+                <AttributeTypeSelect
+                  attribute={attr}
+                  customTypes={model.customTypes}
+                  onChange={(value) => setAttributeType(selectedEntity.id, i, value)}
+                  className="w-20 px-1 py-1 border border-gray-300 rounded text-xs"
+                />
+                <button
+                  onClick={() => setExpandedAttribute(expandedAttribute === `${selectedEntity.id}:${i}` ? null : `${selectedEntity.id}:${i}`)}
+                  className={`px-1.5 py-1 rounded text-xs ${expandedAttribute === `${selectedEntity.id}:${i}` ? 'bg-gray-200 text-gray-800' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+                  title="Attribute details"
+                >
+                  ⋯
+                </button>
+                <button
+                  onClick={() => handleRemoveAttribute(i)}
+                  className="px-2 py-1 bg-red-100 text-red-600 rounded text-xs hover:bg-red-200"
+                >
+                  ×
+                </button>
+              </div>
+              {expandedAttribute === `${selectedEntity.id}:${i}` && renderAttributeDetails(attr, i)}
             </div>
           ))}
           <button
@@ -240,6 +406,20 @@ const RightSidebar: React.FC<RightSidebarProps> = () => {
           </button>
         </div>
 
+        {/* State machine */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium mb-2">State machine:</label>
+          <div className="text-xs text-gray-500 mb-2">
+            {(selectedEntity.transitions || []).length} transition(s)
+          </div>
+          <button
+            onClick={onEditStateMachine}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            Edit transitions…
+          </button>
+        </div>
+
         <button
           onClick={() => deleteEntity(selectedEntity.id)}
           className="w-full px-3 py-2 bg-red-500 text-white rounded text-sm hover:bg-red-600 mt-4"
@@ -287,61 +467,47 @@ const RightSidebar: React.FC<RightSidebarProps> = () => {
               <div className="space-y-2">
                 {rels.outgoing.map(rel => {
                   const targetEntity = entities.find(e => e.id === rel.to);
-                  const displayLabel = rel.label === 'belongs to' ? 'contains' : rel.label;
-                  const dropdownValue = rel.label === 'belongs to' ? 'contains' : rel.label;
+                  const displayLabel = relationshipPhrase(rel, relationshipTypes, 'from');
                   return (
                     <div key={rel.id} className="text-xs bg-blue-50 p-2 rounded">
-                      <div className="font-medium text-blue-800">
-                        → {targetEntity?.name || 'Unknown'}
-                      </div>
+                      {renderEndpoint(rel, 'to', '→', 'text-blue-800')}
                       <select
-                        value={dropdownValue}
-                        onChange={(e) => {
-                          // If we're showing the flipped perspective, flip the value back
-                          const actualValue = rel.label === 'belongs to' && e.target.value === 'belongs to' ? 'contains' :
-                                             rel.label === 'belongs to' && e.target.value === 'contains' ? 'belongs to' :
-                                             e.target.value;
-                          updateRelationshipLabel(rel.id, actualValue);
-                        }}
+                        value={displayLabel}
+                        onChange={(e) => updateRelationshipLabel(rel.id, e.target.value, 'from')}
                         className="w-full mt-1 px-1 py-0.5 border border-blue-200 rounded text-xs"
                       >
-                        {relationshipTypes.map(type => (
+                        {relationshipPhrases(relationshipTypes, displayLabel).map(type => (
                           <option key={type} value={type}>{type}</option>
                         ))}
                       </select>
                       <div className="text-xs text-gray-500 mt-1">
                         This entity {displayLabel} {targetEntity?.name}
                       </div>
+                      {renderMultiplicity(rel, 'to', selectedEntity.name, targetEntity?.name)}
+                      {renderMultiplicity(rel, 'from', targetEntity?.name, selectedEntity.name)}
                     </div>
                   );
                 })}
                 {rels.incoming.map(rel => {
                   const sourceEntity = entities.find(e => e.id === rel.from);
-                  const displayLabel = rel.label === 'contains' ? 'belongs to' : rel.label;
-                  const dropdownValue = rel.label === 'contains' ? 'belongs to' : rel.label;
+                  const displayLabel = relationshipPhrase(rel, relationshipTypes, 'to');
                   return (
                     <div key={rel.id} className="text-xs bg-green-50 p-2 rounded">
-                      <div className="font-medium text-green-800">
-                        ← {sourceEntity?.name || 'Unknown'}
-                      </div>
+                      {renderEndpoint(rel, 'from', '←', 'text-green-800')}
                       <select
-                        value={dropdownValue}
-                        onChange={(e) => {
-                          // If we're showing the flipped perspective, flip the value back
-                          const actualValue = rel.label === 'contains' && e.target.value === 'contains' ? 'belongs to' :
-                                             rel.label === 'contains' && e.target.value === 'belongs to' ? 'contains' :
-                                             e.target.value;
-                          updateRelationshipLabel(rel.id, actualValue);
-                        }}
+                        value={displayLabel}
+                        onChange={(e) => updateRelationshipLabel(rel.id, e.target.value, 'to')}
                         className="w-full mt-1 px-1 py-0.5 border border-green-200 rounded text-xs"
                       >
-                        {relationshipTypes.map(type => (
+                        {relationshipPhrases(relationshipTypes, displayLabel).map(type => (
                           <option key={type} value={type}>{type}</option>
                         ))}
                       </select>
                       <div className="text-xs text-gray-500 mt-1">
                         This entity {displayLabel} {sourceEntity?.name}
                       </div>
+                      {renderMultiplicity(rel, 'from', selectedEntity.name, sourceEntity?.name)}
+                      {renderMultiplicity(rel, 'to', sourceEntity?.name, selectedEntity.name)}
                     </div>
                   );
                 })}
@@ -349,6 +515,8 @@ const RightSidebar: React.FC<RightSidebarProps> = () => {
             );
           })()}
         </div>
+
+        <EntityComments entity={selectedEntity} />
       </div>
     </div>
   );
@@ -0,0 +1,206 @@
+import React, { useRef, useState } from 'react';
+import { useModelStore } from '../store/modelStore';
+import { useWorkspaceStore } from '../store/workspaceStore';
+import { ComparisonSide, useComparisonStore } from '../store/comparisonStore';
+import { formatFieldErrors, parseModelFile } from '../schema/modelFile';
+
+interface SnapshotsDialogProps {
+  // Called once a comparison has been picked, to show it
+  onCompare: () => void;
+  onClose: () => void;
+}
+
+const inputClass = 'px-2 py-1 border border-gray-300 rounded text-sm';
+
+const CURRENT = 'current';
+const FILE = 'file';
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+// Take, rename, restore and compare named snapshots of the model
+const SnapshotsDialog: React.FC<SnapshotsDialogProps> = ({ onCompare, onClose }) => {
+  const { model, takeSnapshot, renameSnapshot, deleteSnapshot, restoreSnapshot } = useModelStore();
+  const activeDocumentId = useWorkspaceStore(state => state.activeDocumentId);
+  const compare = useComparisonStore(state => state.compare);
+  const snapshots = model.snapshots || [];
+
+  const [name, setName] = useState('');
+  const [importedFile, setImportedFile] = useState<ComparisonSide | null>(null);
+  const [beforeKey, setBeforeKey] = useState(snapshots[snapshots.length - 1]?.id ?? '');
+  const [afterKey, setAfterKey] = useState(CURRENT);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleTake = () => {
+    takeSnapshot(name.trim() || `Snapshot ${snapshots.length + 1}`);
+    setName('');
+  };
+
+  const handleRestore = (snapshotId: string, snapshotName: string) => {
+    if (!confirm(`Restore "${snapshotName}"? The model goes back to how it was then; this can be undone.`)) return;
+    restoreSnapshot(snapshotId);
+  };
+
+  const handleDelete = (snapshotId: string, snapshotName: string) => {
+    if (!confirm(`Delete the snapshot "${snapshotName}"?`)) return;
+    deleteSnapshot(snapshotId);
+  };
+
+  // Read an exported model to compare against, repairing what can be repaired
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    file.text()
+      .then(text => {
+        const parsed = parseModelFile(JSON.parse(text), 'lenient');
+        if (!parsed.ok) {
+          throw new Error(formatFieldErrors(parsed.errors));
+        }
+        setImportedFile({ label: file.name, model: parsed.model });
+        setBeforeKey(FILE);
+      })
+      .catch(error => {
+        alert(`Could not read ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      });
+  };
+
+  const side = (key: string): ComparisonSide | null => {
+    if (key === FILE) return importedFile;
+    const snapshot = snapshots.find(s => s.id === key);
+    return snapshot ? { label: snapshot.name, model: snapshot.model } : null;
+  };
+
+  const before = side(beforeKey);
+  const canCompare = before && beforeKey !== afterKey && (afterKey === CURRENT || side(afterKey));
+
+  const handleCompare = () => {
+    if (!before) return;
+    compare(activeDocumentId, before, afterKey === CURRENT ? null : side(afterKey));
+    onCompare();
+  };
+
+  const renderOptions = () => (
+    <>
+      {snapshots.map(s => (
+        <option key={s.id} value={s.id}>{s.name.trim() || 'Unnamed snapshot'}</option>
+      ))}
+      {importedFile && <option value={FILE}>File: {importedFile.label}</option>}
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-[40rem] max-h-[85vh] flex flex-col">
+        <div className="px-4 py-3 border-b border-gray-200">
+          <h3 className="font-semibold">Snapshots</h3>
+          <div className="text-xs text-gray-500 mt-1">
+            Named versions saved with the model, to compare against or go back to.
+          </div>
+        </div>
+
+        <div className="px-4 py-2 border-b border-gray-100 flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleTake()}
+            className={`${inputClass} flex-1`}
+            placeholder={`Snapshot ${snapshots.length + 1}, e.g. after stakeholder review`}
+          />
+          <button
+            onClick={handleTake}
+            className="px-3 py-1 bg-blue-500 text-white rounded text-sm hover:bg-blue-600"
+          >
+            Take Snapshot
+          </button>
+        </div>
+
+        <div className="px-4 py-2 overflow-y-auto flex-1">
+          {snapshots.length === 0 && (
+            <div className="text-sm text-gray-500 py-4">No snapshots yet.</div>
+          )}
+          {[...snapshots].reverse().map(snapshot => (
+            <div key={snapshot.id} className="flex items-center gap-2 py-1 border-b border-gray-100">
+              <input
+                type="text"
+                value={snapshot.name}
+                onChange={(e) => renameSnapshot(snapshot.id, e.target.value)}
+                className={`${inputClass} flex-1 min-w-0`}
+              />
+              <span className="text-xs text-gray-500 whitespace-nowrap">{formatTime(snapshot.createdAt)}</span>
+              <span className="text-xs text-gray-400 whitespace-nowrap">{snapshot.model.entities.length} entities</span>
+              <button
+                onClick={() => handleRestore(snapshot.id, snapshot.name)}
+                className="px-2 py-1 bg-gray-100 text-gray-700 rounded text-xs hover:bg-gray-200"
+              >
+                Restore
+              </button>
+              <button
+                onClick={() => handleDelete(snapshot.id, snapshot.name)}
+                className="px-2 py-1 bg-red-100 text-red-600 rounded text-xs hover:bg-red-200"
+                title="Delete snapshot"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="px-4 py-3 border-t border-gray-200 space-y-2">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-gray-600">Compare</span>
+            <select
+              value={beforeKey}
+              onChange={(e) => setBeforeKey(e.target.value)}
+              className={`${inputClass} flex-1 min-w-0`}
+            >
+              {!before && <option value="">Pick a snapshot or file</option>}
+              {renderOptions()}
+            </select>
+            <span className="text-gray-600">with</span>
+            <select
+              value={afterKey}
+              onChange={(e) => setAfterKey(e.target.value)}
+              className={`${inputClass} flex-1 min-w-0`}
+            >
+              <option value={CURRENT}>Current model</option>
+              {renderOptions()}
+            </select>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleCompare}
+              disabled={!canCompare}
+              className="px-3 py-1 bg-blue-100 text-blue-800 rounded text-sm hover:bg-blue-200 disabled:opacity-50"
+            >
+              Show Changes
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-1 bg-orange-100 text-orange-800 rounded text-sm hover:bg-orange-200"
+              title="Compare against an exported JSON model"
+            >
+              Open JSON File…
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json"
+              onChange={handleFile}
+              className="hidden"
+            />
+            <button
+              onClick={onClose}
+              className="ml-auto px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotsDialog;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { Entity } from '../types';
+import EntityCard from './EntityCard';
+
+interface SortableEntityCardProps {
+  entity: Entity;
+  onEntityClick: (e: React.MouseEvent, entity: Entity) => void;
+}
+
+// Entity card in the ordered strip view, dragged to reorder
+const SortableEntityCard: React.FC<SortableEntityCardProps> = ({
+  entity,
+  onEntityClick,
+}) => {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: entity.id });
+
+  return (
+    <EntityCard
+      entity={entity}
+      onEntityClick={onEntityClick}
+      drag={{
+        setNodeRef,
+        attributes,
+        listeners,
+        style: {
+          transform: CSS.Transform.toString(transform),
+          transition,
+        },
+        isDragging,
+        handleTitle: 'Drag to reorder',
+      }}
+    />
+  );
+};
+
+export default SortableEntityCard;
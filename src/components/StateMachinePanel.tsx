@@ -0,0 +1,249 @@
+import React from 'react';
+import { Entity, Transition } from '../types';
+import { useModelStore } from '../store/modelStore';
+import { CardRect, edgePoint } from '../utils/geometry';
+import {
+  getTransitions,
+  initialState,
+  stateLevels,
+  unfiredActions,
+  unreachableStates,
+  validTransitions,
+} from '../utils/stateMachine';
+
+interface StateMachinePanelProps {
+  entity: Entity;
+  onClose: () => void;
+}
+
+const NODE_WIDTH = 110;
+const NODE_HEIGHT = 30;
+const COLUMN_GAP = 90;
+const ROW_GAP = 36;
+const MARGIN = 24;
+
+const inputClass = 'px-1.5 py-0.5 border border-gray-300 rounded text-xs';
+
+interface Edge {
+  key: string;
+  path: string;
+  labelX: number;
+  labelY: number;
+  label: string;
+}
+
+// Curved arrow between two state boxes; parallel and opposite arrows bend apart
+const edgeBetween = (from: CardRect, to: CardRect, bend: number) => {
+  const x1 = (from.left + from.right) / 2;
+  const y1 = (from.top + from.bottom) / 2;
+  const x2 = (to.left + to.right) / 2;
+  const y2 = (to.top + to.bottom) / 2;
+  const length = Math.hypot(x2 - x1, y2 - y1) || 1;
+  const controlX = (x1 + x2) / 2 - ((y2 - y1) / length) * bend;
+  const controlY = (y1 + y2) / 2 + ((x2 - x1) / length) * bend;
+  const start = edgePoint(from, controlX - x1, controlY - y1);
+  const end = edgePoint(to, controlX - x2, controlY - y2);
+  return {
+    path: `M ${start.x} ${start.y} Q ${controlX} ${controlY} ${end.x} ${end.y}`,
+    labelX: (start.x + 2 * controlX + end.x) / 4,
+    labelY: (start.y + 2 * controlY + end.y) / 4,
+  };
+};
+
+// Loop over the top of a state box
+const selfLoop = (rect: CardRect, index: number) => {
+  const x = (rect.left + rect.right) / 2;
+  const height = 22 + index * 14;
+  return {
+    path: `M ${x - 14} ${rect.top} C ${x - 28} ${rect.top - height}, ${x + 28} ${rect.top - height}, ${x + 14} ${rect.top}`,
+    labelX: x,
+    labelY: rect.top - height * 0.75 - 6,
+  };
+};
+
+const transitionLabel = (transition: Transition) =>
+  transition.action.trim() + (transition.guard?.trim() ? ` [${transition.guard.trim()}]` : '');
+
+// Select that keeps showing a value which is no longer in the list
+const NameSelect: React.FC<{ value: string; names: string[]; onChange: (value: string) => void }> = ({
+  value,
+  names,
+  onChange,
+}) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value)}
+    className={`${inputClass} ${names.includes(value) ? '' : 'border-red-400'}`}
+  >
+    {!names.includes(value) && <option value={value}>{value.trim() || '—'} (missing)</option>}
+    {names.map(name => (
+      <option key={name} value={name}>{name}</option>
+    ))}
+  </select>
+);
+
+// State diagram and transition table for one entity
+const StateMachinePanel: React.FC<StateMachinePanelProps> = ({ entity, onClose }) => {
+  const { addTransition, updateTransition, removeTransition } = useModelStore();
+
+  const states = [...new Set(entity.states.filter(state => state.trim()))];
+  const actions = [...new Set(entity.actions.filter(action => action.trim()))];
+  const transitions = getTransitions(entity);
+  const start = initialState(entity);
+  const unreachable = new Set(unreachableStates(entity));
+  const unfired = unfiredActions(entity);
+
+  // Lay states out left to right by distance from the initial state
+  const levels = stateLevels(entity);
+  const rects: Record<string, CardRect> = {};
+  levels.forEach((level, column) => {
+    level.forEach((state, row) => {
+      const left = MARGIN + column * (NODE_WIDTH + COLUMN_GAP);
+      const top = MARGIN + 20 + row * (NODE_HEIGHT + ROW_GAP);
+      rects[state] = { left, right: left + NODE_WIDTH, top, bottom: top + NODE_HEIGHT };
+    });
+  });
+  const width = MARGIN * 2 + Math.max(1, levels.length) * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP;
+  const height = MARGIN * 2 + 20 + Math.max(1, ...levels.map(level => level.length)) * (NODE_HEIGHT + ROW_GAP) - ROW_GAP;
+
+  const pairCounts: Record<string, number> = {};
+  const valid = validTransitions(entity);
+  const edges: Edge[] = valid.map((t, i) => {
+    const pair = `${t.from}\u0000${t.to}`;
+    const index = pairCounts[pair] ?? 0;
+    pairCounts[pair] = index + 1;
+    const hasReverse = t.from !== t.to && valid.some(other => other.from === t.to && other.to === t.from);
+    const geometry = t.from === t.to
+      ? selfLoop(rects[t.from], index)
+      : edgeBetween(rects[t.from], rects[t.to], (hasReverse ? 18 : 0) + index * 22);
+    return { key: `${i}`, label: transitionLabel(t), ...geometry };
+  });
+
+  return (
+    <div className="bg-white border-t border-gray-200 max-h-80 flex flex-col">
+      <div className="flex justify-between items-center px-4 py-1 border-b border-gray-100">
+        <h4 className="font-medium text-sm">State machine: {entity.name.trim() || 'Unnamed entity'}</h4>
+        <button
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-700 text-sm"
+          title="Hide state machine"
+        >
+          ×
+        </button>
+      </div>
+      <div className="flex flex-1 min-h-0">
+        <div className="flex-1 overflow-auto border-r border-gray-100">
+          {states.length === 0 ? (
+            <div className="px-4 py-2 text-xs text-gray-500">Add states to this entity to draw its state machine</div>
+          ) : (
+            <svg width={width} height={height}>
+              <defs>
+                <marker id="state-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+                  <path d="M 0 0 L 10 5 L 0 10 z" fill="#6b7280" />
+                </marker>
+              </defs>
+              {start && rects[start] && (
+                <g>
+                  <circle cx={rects[start].left - 14} cy={(rects[start].top + rects[start].bottom) / 2} r={5} fill="#374151" />
+                  <line
+                    x1={rects[start].left - 9}
+                    y1={(rects[start].top + rects[start].bottom) / 2}
+                    x2={rects[start].left}
+                    y2={(rects[start].top + rects[start].bottom) / 2}
+                    stroke="#374151"
+                    markerEnd="url(#state-arrow)"
+                  />
+                </g>
+              )}
+              {edges.map(edge => (
+                <g key={edge.key}>
+                  <path d={edge.path} fill="none" stroke="#6b7280" strokeWidth={1.5} markerEnd="url(#state-arrow)" />
+                  <text
+                    x={edge.labelX}
+                    y={edge.labelY}
+                    textAnchor="middle"
+                    dominantBaseline="middle"
+                    fontSize={10}
+                    fill="#374151"
+                    stroke="#ffffff"
+                    strokeWidth={3}
+                    paintOrder="stroke"
+                  >
+                    {edge.label}
+                  </text>
+                </g>
+              ))}
+              {Object.entries(rects).map(([state, rect]) => (
+                <g key={state}>
+                  <rect
+                    x={rect.left}
+                    y={rect.top}
+                    width={NODE_WIDTH}
+                    height={NODE_HEIGHT}
+                    rx={12}
+                    fill={unreachable.has(state) ? '#fef9c3' : '#dcfce7'}
+                    stroke={unreachable.has(state) ? '#ca8a04' : '#16a34a'}
+                    strokeDasharray={unreachable.has(state) ? '4 3' : undefined}
+                  />
+                  <text
+                    x={(rect.left + rect.right) / 2}
+                    y={(rect.top + rect.bottom) / 2}
+                    textAnchor="middle"
+                    dominantBaseline="middle"
+                    fontSize={11}
+                    fill="#166534"
+                  >
+                    {state}
+                  </text>
+                </g>
+              ))}
+            </svg>
+          )}
+        </div>
+
+        <div className="w-[28rem] overflow-y-auto px-3 py-2 text-xs space-y-1">
+          {transitions.length === 0 && (
+            <div className="text-gray-500">No transitions yet. Each transition moves the entity from one state to another when an action happens.</div>
+          )}
+          {transitions.map((transition, i) => (
+            <div key={i} className="flex items-center gap-1">
+              <NameSelect value={transition.from} names={states} onChange={(from) => updateTransition(entity.id, i, { from })} />
+              <span className="text-gray-400">—</span>
+              <NameSelect value={transition.action} names={actions} onChange={(action) => updateTransition(entity.id, i, { action })} />
+              <span className="text-gray-400">→</span>
+              <NameSelect value={transition.to} names={states} onChange={(to) => updateTransition(entity.id, i, { to })} />
+              <input
+                type="text"
+                value={transition.guard ?? ''}
+                onChange={(e) => updateTransition(entity.id, i, { guard: e.target.value || undefined })}
+                className={`${inputClass} flex-1 min-w-0`}
+                placeholder="guard"
+              />
+              <button
+                onClick={() => removeTransition(entity.id, i)}
+                className="px-1.5 py-0.5 bg-red-100 text-red-600 rounded hover:bg-red-200"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => addTransition(entity.id)}
+            disabled={states.length === 0}
+            className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+          >
+            + Add Transition
+          </button>
+          {transitions.length > 0 && (unreachable.size > 0 || unfired.length > 0) && (
+            <div className="pt-1 text-yellow-800 space-y-0.5">
+              {unreachable.size > 0 && <div>Unreachable: {[...unreachable].join(', ')}</div>}
+              {unfired.length > 0 && <div>Never fired: {unfired.join(', ')}</div>}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StateMachinePanel;
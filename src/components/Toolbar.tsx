@@ -1,24 +1,69 @@
 import React from 'react';
+import { CanvasView } from '../types';
+import { LayoutKind } from '../utils/autoLayout';
+import ModelSwitcher from './ModelSwitcher';
+import { useCollaborationStore } from '../store/collaborationStore';
 
 interface ToolbarProps {
   onNewModel: () => void;
   onImportJSON: () => void;
+  onMergeJSON: () => void;
+  onImportDiagram: () => void;
   onExportJSON: () => void;
   onExportPNG: () => void;
+  onExportCode: () => void;
   fileInputRef: React.RefObject<HTMLInputElement>;
   onFileImport: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  canvasView: CanvasView;
+  onCanvasViewChange: (view: CanvasView) => void;
+  onAutoLayout: (kind: LayoutKind) => void;
+  onEditCustomTypes: () => void;
+  onEditRelationshipTypes: () => void;
+  onEditPermissions: () => void;
+  problemCount: number;
+  onToggleProblems: () => void;
+  openCommentCount: number;
+  onToggleComments: () => void;
+  onToggleHistory: () => void;
+  onEditSnapshots: () => void;
+  onCollaborate: () => void;
 }
 
+const viewLabels: Record<CanvasView, string> = {
+  strip: 'Strip',
+  free: 'Free-form',
+  matrix: 'ORCA matrix',
+};
+
 const Toolbar: React.FC<ToolbarProps> = ({
   onNewModel,
   onImportJSON,
+  onMergeJSON,
+  onImportDiagram,
   onExportJSON,
   onExportPNG,
+  onExportCode,
   fileInputRef,
   onFileImport,
+  canvasView,
+  onCanvasViewChange,
+  onAutoLayout,
+  onEditCustomTypes,
+  onEditRelationshipTypes,
+  onEditPermissions,
+  problemCount,
+  onToggleProblems,
+  openCommentCount,
+  onToggleComments,
+  onToggleHistory,
+  onEditSnapshots,
+  onCollaborate,
 }) => {
+  const { status, collaborators } = useCollaborationStore();
+
   return (
     <div className="bg-white border-b border-gray-200 px-4 py-2 flex items-center gap-4">
+      <ModelSwitcher />
       <button
         onClick={onNewModel}
         className="px-3 py-1 bg-blue-500 text-white rounded text-sm hover:bg-blue-600"
@@ -31,6 +76,20 @@ const Toolbar: React.FC<ToolbarProps> = ({
       >
         Import JSON
       </button>
+      <button
+        onClick={onMergeJSON}
+        className="px-3 py-1 bg-orange-100 text-orange-800 rounded text-sm hover:bg-orange-200"
+        title="Add the objects from a JSON file to this model"
+      >
+        Merge JSON
+      </button>
+      <button
+        onClick={onImportDiagram}
+        className="px-3 py-1 bg-orange-100 text-orange-800 rounded text-sm hover:bg-orange-200"
+        title="Import a Mermaid or PlantUML diagram"
+      >
+        Import Diagram…
+      </button>
       <button
         onClick={onExportJSON}
         className="px-3 py-1 bg-green-500 text-white rounded text-sm hover:bg-green-600"
@@ -43,6 +102,13 @@ const Toolbar: React.FC<ToolbarProps> = ({
       >
         Export PNG
       </button>
+      <button
+        onClick={onExportCode}
+        className="px-3 py-1 bg-green-100 text-green-800 rounded text-sm hover:bg-green-200"
+        title="Export code, schemas and diagrams generated from this model"
+      >
+        Export As…
+      </button>
 
       {/* Hidden file input for JSON import */}
       <input
@@ -52,6 +118,99 @@ const Toolbar: React.FC<ToolbarProps> = ({
         onChange={onFileImport}
         style={{ display: 'none' }}
       />
+      {/* Canvas view switcher */}
+      <div className="flex rounded border border-gray-300 overflow-hidden text-sm">
+        {(Object.keys(viewLabels) as CanvasView[]).map(view => (
+          <button
+            key={view}
+            onClick={() => onCanvasViewChange(view)}
+            className={`px-3 py-1 ${canvasView === view ? 'bg-gray-700 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+          >
+            {viewLabels[view]}
+          </button>
+        ))}
+      </div>
+      <select
+        value=""
+        onChange={(e) => onAutoLayout(e.target.value as LayoutKind)}
+        className="px-2 py-1 border border-gray-300 rounded text-sm"
+        title="Arrange entities automatically"
+      >
+        <option value="" disabled>Auto-layout…</option>
+        <option value="hierarchical">Hierarchical (by containment)</option>
+        <option value="force">Force-directed</option>
+      </select>
+      <button
+        onClick={onEditCustomTypes}
+        className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+        title="Define reusable attribute types such as Email or Money"
+      >
+        Types…
+      </button>
+      <button
+        onClick={onEditRelationshipTypes}
+        className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+        title="Define how relationships read from each end and how they are drawn"
+      >
+        Relationships…
+      </button>
+      <button
+        onClick={onEditPermissions}
+        className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+        title="Define user roles and which of them may perform each action"
+      >
+        Permissions…
+      </button>
+      <button
+        onClick={onEditSnapshots}
+        className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+        title="Save named versions of the model, compare them and restore them"
+      >
+        Snapshots…
+      </button>
+      <button
+        onClick={onToggleProblems}
+        className={`px-3 py-1 rounded text-sm ${
+          problemCount > 0 ? 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+        }`}
+      >
+        Problems ({problemCount})
+      </button>
+      <button
+        onClick={onToggleComments}
+        className={`px-3 py-1 rounded text-sm ${
+          openCommentCount > 0 ? 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+        }`}
+        title="Review comments on the model"
+      >
+        Comments ({openCommentCount})
+      </button>
+      <button
+        onClick={onToggleHistory}
+        className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+        title="List the undo steps and go back or forward to any of them"
+      >
+        History
+      </button>
+      <button
+        onClick={onCollaborate}
+        className={`px-3 py-1 rounded text-sm flex items-center gap-1 ${
+          status === 'offline' ? 'bg-gray-100 text-gray-700 hover:bg-gray-200' : 'bg-green-100 text-green-800 hover:bg-green-200'
+        }`}
+        title="Edit this model together with others"
+      >
+        {status === 'offline' ? 'Collaborate…' : status === 'connecting' ? 'Connecting…' : 'Live'}
+        {collaborators.map(c => (
+          <span
+            key={c.clientId}
+            className="w-5 h-5 rounded-full text-white text-[10px] flex items-center justify-center"
+            style={{ backgroundColor: c.color }}
+            title={c.name}
+          >
+            {c.name.trim().charAt(0).toUpperCase()}
+          </span>
+        ))}
+      </button>
       <div className="ml-auto text-sm text-gray-500">
         Ctrl+Z: Undo | Ctrl+Y: Redo | Del: Delete Selected
       </div>
@@ -0,0 +1,176 @@
+import { Attribute, CustomType, Entity, Model, Relationship, Transition } from '../types';
+import { isListAttribute, typedDefaultValue } from '../utils/attributes';
+import { orderedCustomTypes } from '../utils/customTypes';
+import { getCardinality, isManyCardinality, isRequiredEnd } from '../utils/cardinality';
+import { getRelationshipTypes, isContainment, relationshipPhrase } from '../utils/relationships';
+import { validTransitions } from '../utils/stateMachine';
+import { camelCase, pascalCase, pluralize, uniqueNames } from './naming';
+
+export type RelationshipStyle = 'ids' | 'nested';
+
+// Language-neutral description of a generated field
+export type CodeFieldType =
+  | { kind: 'id' }
+  | { kind: 'attribute'; attribute: Attribute; customType?: CodeType }
+  | { kind: 'status' }
+  | { kind: 'reference'; target: CodeEntity }
+  | { kind: 'nested'; target: CodeEntity };
+
+export interface CodeField {
+  name: string;
+  type: CodeFieldType;
+  list: boolean;
+  optional: boolean;
+  comment?: string;
+}
+
+// A custom type: an alias of its base for a constrained primitive, or a type
+// of its own with fields for a value object
+export interface CodeType {
+  customType: CustomType;
+  typeName: string;
+  fields: CodeField[];
+}
+
+export interface CodeEntity {
+  entity: Entity;
+  typeName: string;
+  statusTypeName: string;
+  states: string[];
+  actionTypeName: string;
+  // Transitions between existing states, trimmed
+  transitions: Transition[];
+  fields: CodeField[];
+}
+
+// Default of an attribute field, if valid for its type and any custom type's constraints
+export const fieldDefaultValue = (field: CodeField) => {
+  if (field.type.kind !== 'attribute') return undefined;
+  const { attribute, customType } = field.type;
+  return typedDefaultValue(attribute, customType ? [customType.customType] : undefined);
+};
+
+const distinctStates = (entity: Entity) =>
+  [...new Set((entity.states || []).map(state => state.trim()).filter(Boolean))];
+
+const sortedEntities = (model: Model) => [...model.entities].sort((a, b) => (a.order || 0) - (b.order || 0));
+
+// Entities and custom types share one namespace; entities claim names first
+const typeNameTable = (model: Model) => {
+  const entities = sortedEntities(model);
+  const customTypes = orderedCustomTypes(model.customTypes || []);
+  const names = uniqueNames(
+    [...entities.map(e => pascalCase(e.name, 'Entity')), ...customTypes.map(t => pascalCase(t.name, 'CustomType'))],
+    name => name
+  );
+  return new Map([...entities, ...customTypes].map((item, i) => [item.id, names[i]]));
+};
+
+const attributeField = (attribute: Attribute, codeTypes: Map<string, CodeType>): Omit<CodeField, 'name'> => ({
+  type: { kind: 'attribute', attribute, customType: attribute.customType ? codeTypes.get(attribute.customType) : undefined },
+  list: isListAttribute(attribute),
+  optional: !attribute.required,
+  comment: attribute.description?.trim() || undefined
+});
+
+const namedFields = (fields: Omit<CodeField, 'name'>[], baseNames: string[]): CodeField[] => {
+  const names = uniqueNames(baseNames, name => name);
+  return fields.map((field, i) => ({ ...field, name: names[i] }));
+};
+
+// Custom types in dependency order, so each value object follows the types it uses
+export const buildCodeTypes = (model: Model): CodeType[] => {
+  const typeNames = typeNameTable(model);
+  const codeTypes: CodeType[] = orderedCustomTypes(model.customTypes || []).map(customType => ({
+    customType,
+    typeName: typeNames.get(customType.id)!,
+    fields: []
+  }));
+  const byId = new Map(codeTypes.map(c => [c.customType.id, c]));
+
+  codeTypes
+    .filter(code => code.customType.kind === 'composite')
+    .forEach(code => {
+      const attributes = code.customType.fields;
+      code.fields = namedFields(
+        attributes.map(attr => attributeField(attr, byId)),
+        attributes.map(attr => camelCase(attr.name, 'field'))
+      );
+    });
+
+  return codeTypes;
+};
+
+// Build the fields every code exporter shares. Each relationship adds a field
+// on its `from` entity; composition also gives the part a reference back to
+// its whole. With the nested style, containers embed
+// their contents instead of referencing them by id.
+export const buildCodeModel = (model: Model, relationshipStyle: RelationshipStyle = 'ids'): CodeEntity[] => {
+  const typeNames = typeNameTable(model);
+  const codeTypes = new Map(buildCodeTypes(model).map(c => [c.customType.id, c]));
+  const relationshipTypes = getRelationshipTypes(model);
+
+  const codeEntities: CodeEntity[] = sortedEntities(model).map(entity => ({
+    entity,
+    typeName: typeNames.get(entity.id)!,
+    statusTypeName: `${typeNames.get(entity.id)}Status`,
+    states: distinctStates(entity),
+    actionTypeName: `${typeNames.get(entity.id)}Action`,
+    transitions: validTransitions(entity),
+    fields: []
+  }));
+  const byId = new Map(codeEntities.map(c => [c.entity.id, c]));
+
+  codeEntities.forEach(code => {
+    const fields: Omit<CodeField, 'name'>[] = [];
+    const baseNames: string[] = [];
+
+    const hasIdAttribute = (code.entity.attributes || []).some(attr => camelCase(attr.name) === 'id');
+    if (!hasIdAttribute) {
+      fields.push({ type: { kind: 'id' }, list: false, optional: false });
+      baseNames.push('id');
+    }
+
+    (code.entity.attributes || []).forEach(attribute => {
+      fields.push(attributeField(attribute, codeTypes));
+      baseNames.push(camelCase(attribute.name, 'field'));
+    });
+
+    if (code.states.length > 0) {
+      fields.push({ type: { kind: 'status' }, list: false, optional: false });
+      baseNames.push('status');
+    }
+
+    const addRelationshipField = (rel: Relationship, end: 'from' | 'to') => {
+      const target = byId.get(end === 'to' ? rel.to : rel.from);
+      if (!target) return;
+
+      const list = isManyCardinality(getCardinality(rel, end));
+      const nested = relationshipStyle === 'nested' && isContainment(rel, relationshipTypes) && end === 'to';
+      const stem = camelCase(target.entity.name, 'related');
+
+      fields.push({
+        type: nested ? { kind: 'nested', target } : { kind: 'reference', target },
+        list,
+        optional: !isRequiredEnd(rel, end),
+        comment: end === 'to'
+          ? `${rel.label} ${target.typeName}`
+          : `${relationshipPhrase(rel, relationshipTypes, 'to')} ${target.typeName}`
+      });
+      baseNames.push(
+        nested
+          ? (list ? pluralize(stem) : stem)
+          : (list ? `${stem}Ids` : `${stem}Id`)
+      );
+    };
+
+    model.relationships.forEach(rel => {
+      if (rel.from === code.entity.id) addRelationshipField(rel, 'to');
+      if (rel.to === code.entity.id && isContainment(rel, relationshipTypes)) addRelationshipField(rel, 'from');
+    });
+
+    code.fields = namedFields(fields, baseNames);
+  });
+
+  return codeEntities;
+};
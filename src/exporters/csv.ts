@@ -0,0 +1,12 @@
+// Spreadsheets run a cell starting with one of these as a formula, so such
+// cells are written with a leading apostrophe to keep them as text
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// Quote a cell when it holds a separator, quote or line break
+export const csvCell = (value: string) => {
+  const text = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Rows with CRLF line endings, as spreadsheets expect
+export const csvRows = (rows: string[][]) => rows.map(cells => cells.map(csvCell).join(',')).join('\r\n') + '\r\n';
@@ -0,0 +1,137 @@
+import { Attribute, Cardinality, Entity, Model, RelationshipKind, Transition } from '../types';
+import { isListAttribute } from '../utils/attributes';
+import { findCustomType } from '../utils/customTypes';
+import { DEFAULT_CARDINALITY } from '../utils/cardinality';
+import { formatTransition, validTransitions } from '../utils/stateMachine';
+import { camelCase, pascalCase, uniqueNames } from './naming';
+
+// Notation shared by the Mermaid and PlantUML exporters and importers
+
+export const TYPE_NAMES: Record<Attribute['type'], string> = {
+  string: 'String',
+  number: 'Number',
+  boolean: 'Boolean',
+  date: 'Date',
+  enum: 'Enum',
+};
+
+// Type as written in a diagram, with "[]" marking a list, e.g. "String[]".
+// Custom types are written by name and read back as their base type.
+export const diagramTypeName = (attr: { type: Attribute['type']; customTypeName?: string; list: boolean }) =>
+  `${attr.customTypeName ?? TYPE_NAMES[attr.type]}${attr.list ? '[]' : ''}`;
+
+export const isListTypeName = (name: string) => /\[\]$|^(list|array|set)\s*[<~(]/i.test(name.trim());
+
+// Read a type written by us or found in a hand-written diagram
+export const parseTypeName = (name: string): Attribute['type'] => {
+  const type = name.trim().toLowerCase().replace(/^(list|array|set)\s*[<~(]/, '').replace(/[^a-z]/g, '');
+  if (/^(number|int|integer|long|short|float|double|decimal|numeric|real|bigint|money)$/.test(type)) return 'number';
+  if (/^(boolean|bool|bit)$/.test(type)) return 'boolean';
+  if (/^(date|datetime|timestamp|time|instant)$/.test(type)) return 'date';
+  if (type === 'enum') return 'enum';
+  return 'string';
+};
+
+// Class diagram line for each kind of relationship, diamond on the whole
+export const CLASS_ARROWS: Record<RelationshipKind, string> = {
+  composition: '*--',
+  aggregation: 'o--',
+  association: '-->',
+};
+
+export const MULTIPLICITY: Record<Cardinality, string> = {
+  '0..1': '0..1',
+  '1': '1',
+  '0..n': '0..*',
+  '1..n': '1..*',
+};
+
+// The default multiplicity is left unset, as if it had never been chosen
+export const parseMultiplicity = (text: string | undefined): Cardinality | undefined => {
+  if (!text) return undefined;
+  const value = text.trim().toLowerCase().replace(/\s+/g, '');
+  let cardinality: Cardinality | undefined;
+  if (value === '0..1' || value === '?') cardinality = '0..1';
+  else if (value === '1' || value === '1..1') cardinality = '1';
+  else if (/^(0\.\.)?(\*|n|many)$/.test(value)) cardinality = '0..n';
+  else if (/^1\.\.(\*|n|many)$/.test(value) || value === '+') cardinality = '1..n';
+  return cardinality === DEFAULT_CARDINALITY ? undefined : cardinality;
+};
+
+// States have no diagram syntax, so they travel in a comment that the
+// importers recognise, e.g. "%% states Order: draft, placed"
+export const statesComment = (id: string, states: string[]) => `states ${id}: ${states.join(', ')}`;
+
+export const parseStatesComment = (comment: string) => {
+  const match = comment.trim().match(/^states\s+(\S+?)\s*:\s*(.*)$/);
+  if (!match) return null;
+  return { id: match[1], states: match[2].split(',').map(state => state.trim()).filter(Boolean) };
+};
+
+// Transitions travel the same way, one per comment, e.g.
+// "%% transition Order: draft --submit--> placed [has items]"
+export const transitionComment = (id: string, transition: Transition) => `transition ${id}: ${formatTransition(transition)}`;
+
+export const parseTransitionComment = (comment: string) => {
+  const match = comment.trim().match(/^transition\s+(\S+?)\s*:\s*(.+?)\s+--(\S+?)-->\s+(.+?)(?:\s+\[(.*)\])?$/);
+  if (!match) return null;
+  const [, id, from, action, to, guard] = match;
+  const transition: Transition = { from, action, to };
+  if (guard?.trim()) transition.guard = guard.trim();
+  return { id, transition };
+};
+
+// Comment lines carrying an entity's states and transitions
+export const stateMachineComments = (entities: DiagramEntity[]) => [
+  ...entities.filter(e => e.states.length > 0).map(e => statesComment(e.id, e.states)),
+  ...entities.flatMap(e => e.transitions.map(t => transitionComment(e.id, t))),
+];
+
+export interface DiagramEntity {
+  entity: Entity;
+  // Identifier used in the diagram; the entity name is shown as a label when they differ
+  id: string;
+  attributes: {
+    name: string;
+    type: Attribute['type'];
+    customTypeName?: string;
+    list: boolean;
+    unique: boolean;
+    description?: string;
+  }[];
+  states: string[];
+  actions: string[];
+  // Actions are named as the methods that class diagrams show
+  transitions: Transition[];
+}
+
+export const diagramEntities = (model: Model): DiagramEntity[] => {
+  const entities = [...model.entities].sort((a, b) => (a.order || 0) - (b.order || 0));
+  const ids = uniqueNames(entities, e => pascalCase(e.name, 'Entity'));
+  const customTypeName = (attr: Attribute) => {
+    const customType = findCustomType(model.customTypes, attr);
+    return customType && pascalCase(customType.name, 'CustomType');
+  };
+
+  return entities.map((entity, i) => {
+    const attributes = entity.attributes || [];
+    const names = uniqueNames(attributes, attr => camelCase(attr.name, 'field'));
+    return {
+      entity,
+      id: ids[i],
+      attributes: attributes.map((attr, j) => ({
+        name: names[j],
+        type: attr.type,
+        customTypeName: customTypeName(attr),
+        list: isListAttribute(attr),
+        unique: attr.unique ?? false,
+        description: attr.description?.trim() || undefined,
+      })),
+      states: [...new Set((entity.states || []).map(state => state.trim()).filter(Boolean))],
+      actions: [...new Set((entity.actions || []).map(action => action.trim()).filter(Boolean))],
+      transitions: validTransitions(entity).map(t => ({ ...t, action: camelCase(t.action, 'action') })),
+    };
+  });
+};
+
+export const quoteLabel = (text: string) => `"${text.replace(/"/g, "'")}"`;
@@ -0,0 +1,327 @@
+import { CustomType, Entity, Model, Position, RelationshipKind } from '../types';
+import { computeLayout, NodeSize } from '../utils/autoLayout';
+import { formatAttribute } from '../utils/attributes';
+import { getCardinality } from '../utils/cardinality';
+import { CardRect, edgePoint } from '../utils/geometry';
+import { CARD_WIDTH, getEntityPosition } from '../utils/layout';
+import { getRelationshipTypes, relationshipKind } from '../utils/relationships';
+import { formatTransition, validTransitions } from '../utils/stateMachine';
+
+// Drawing of a model built from its data rather than the DOM, shared by the
+// SVG and PDF writers. Coordinates are in canvas pixels, y pointing down.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type SceneItem =
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; radius: number; fill: string; stroke?: string; strokeWidth?: number }
+  | { kind: 'line'; from: Point; to: Point; stroke: string; strokeWidth: number }
+  | { kind: 'polygon'; points: Point[]; fill: string; stroke?: string }
+  | { kind: 'text'; x: number; y: number; text: string; size: number; color: string; bold?: boolean; anchor?: 'start' | 'middle' };
+
+export interface Scene {
+  width: number;
+  height: number;
+  items: SceneItem[];
+}
+
+export type SceneLayout = 'canvas' | 'hierarchical';
+
+export interface SceneOptions {
+  layout: SceneLayout;
+  title?: string;
+  legend: boolean;
+}
+
+export const COLORS = {
+  background: '#f9fafb',
+  card: '#ffffff',
+  cardBorder: '#d1d5db',
+  name: '#111827',
+  heading: '#374151',
+  attribute: '#4b5563',
+  states: '#2563eb',
+  actions: '#16a34a',
+  line: '#a78bfa',
+  label: '#6d28d9',
+};
+
+const PADDING = 16;
+const MARGIN = 32;
+const LINE_HEIGHT = 16;
+
+// Rough Helvetica advance width, for wrapping and for centring in PDF
+export const textWidth = (text: string, size: number, bold = false) =>
+  text.length * size * (bold ? 0.58 : 0.52);
+
+const fitText = (text: string, size: number, width: number, bold = false) => {
+  if (textWidth(text, size, bold) <= width) return text;
+  let fitted = text;
+  while (fitted.length > 1 && textWidth(`${fitted}…`, size, bold) > width) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}…`;
+};
+
+// Break a comma-separated list into lines that fit the card
+const wrapList = (items: string[], size: number, width: number) => {
+  const lines: string[] = [];
+  let current = '';
+  items.forEach((item, i) => {
+    const piece = i < items.length - 1 ? `${item},` : item;
+    const candidate = current ? `${current} ${piece}` : piece;
+    if (current && textWidth(candidate, size) > width) {
+      lines.push(current);
+      current = piece;
+    } else {
+      current = candidate;
+    }
+  });
+  if (current) lines.push(current);
+  return lines.map(line => fitText(line, size, width));
+};
+
+interface CardSection {
+  heading: string;
+  color: string;
+  lines: string[];
+}
+
+const cardSections = (entity: Entity, customTypes?: CustomType[]): CardSection[] => {
+  const width = CARD_WIDTH - PADDING * 2 - 8;
+  const sections: CardSection[] = [];
+
+  if ((entity.attributes || []).length > 0) {
+    sections.push({
+      heading: 'Attributes:',
+      color: COLORS.attribute,
+      lines: entity.attributes.map(attr => fitText(`• ${formatAttribute(attr, customTypes)}`, 11, width)),
+    });
+  }
+  if ((entity.states || []).length > 0) {
+    sections.push({ heading: 'States:', color: COLORS.states, lines: wrapList(entity.states, 11, width) });
+  }
+  if ((entity.actions || []).length > 0) {
+    sections.push({ heading: 'Actions:', color: COLORS.actions, lines: wrapList(entity.actions, 11, width) });
+  }
+  const transitions = validTransitions(entity);
+  if (transitions.length > 0) {
+    sections.push({
+      heading: 'Transitions:',
+      color: COLORS.states,
+      lines: transitions.map(t => fitText(`• ${formatTransition(t)}`, 11, width)),
+    });
+  }
+  return sections;
+};
+
+const cardHeight = (sections: CardSection[]) =>
+  Math.max(
+    120,
+    PADDING * 2 + 28 + sections.reduce((total, section) => total + LINE_HEIGHT * (section.lines.length + 1) + 8, 0)
+  );
+
+const cardItems = (entity: Entity, sections: CardSection[], rect: CardRect): SceneItem[] => {
+  const items: SceneItem[] = [{
+    kind: 'rect',
+    x: rect.left,
+    y: rect.top,
+    width: rect.right - rect.left,
+    height: rect.bottom - rect.top,
+    radius: 8,
+    fill: COLORS.card,
+    stroke: COLORS.cardBorder,
+    strokeWidth: 2,
+  }];
+
+  const left = rect.left + PADDING;
+  let y = rect.top + PADDING + 16;
+  items.push({
+    kind: 'text',
+    x: left,
+    y,
+    text: fitText(entity.name || 'Unnamed entity', 17, CARD_WIDTH - PADDING * 2, true),
+    size: 17,
+    color: COLORS.name,
+    bold: true,
+  });
+  y += 28;
+
+  sections.forEach(section => {
+    items.push({ kind: 'text', x: left, y, text: section.heading, size: 11, color: COLORS.heading, bold: true });
+    y += LINE_HEIGHT;
+    section.lines.forEach(line => {
+      items.push({ kind: 'text', x: left + 8, y, text: line, size: 11, color: section.color });
+      y += LINE_HEIGHT;
+    });
+    y += 8;
+  });
+
+  return items;
+};
+
+const arrowHead = (tip: Point, ux: number, uy: number): SceneItem => ({
+  kind: 'polygon',
+  points: [
+    tip,
+    { x: tip.x - ux * 10 - uy * 5, y: tip.y - uy * 10 + ux * 5 },
+    { x: tip.x - ux * 10 + uy * 5, y: tip.y - uy * 10 - ux * 5 },
+  ],
+  fill: COLORS.line,
+});
+
+// Diamond at the whole's end of a composition (filled) or aggregation (hollow) line
+const diamond = (base: Point, ux: number, uy: number, hollow = false): SceneItem => ({
+  kind: 'polygon',
+  points: [
+    base,
+    { x: base.x + ux * 8 - uy * 5, y: base.y + uy * 8 + ux * 5 },
+    { x: base.x + ux * 16, y: base.y + uy * 16 },
+    { x: base.x + ux * 8 + uy * 5, y: base.y + uy * 8 - ux * 5 },
+  ],
+  ...(hollow ? { fill: COLORS.background, stroke: COLORS.line } : { fill: COLORS.line }),
+});
+
+const labelItems = (text: string, at: Point): SceneItem[] => {
+  const width = textWidth(text, 11) + 8;
+  return [
+    { kind: 'rect', x: at.x - width / 2, y: at.y - 8, width, height: 16, radius: 3, fill: COLORS.background },
+    { kind: 'text', x: at.x, y: at.y + 4, text, size: 11, color: COLORS.label, anchor: 'middle' },
+  ];
+};
+
+const legendItems = (x: number, y: number): SceneItem[] => {
+  const items: SceneItem[] = [];
+  const entry = (offset: number, text: string, kind: RelationshipKind) => {
+    const from = { x, y: y + offset };
+    const to = { x: x + 40, y: y + offset };
+    items.push({ kind: 'line', from, to, stroke: COLORS.line, strokeWidth: 1.5 }, arrowHead(to, 1, 0));
+    if (kind !== 'association') items.push(diamond(from, 1, 0, kind === 'aggregation'));
+    items.push({ kind: 'text', x: x + 50, y: y + offset + 4, text, size: 11, color: COLORS.heading });
+  };
+  entry(0, 'Relationship, pointing from source to target', 'association');
+  entry(20, 'Composition, filled diamond on the whole', 'composition');
+  entry(40, 'Aggregation, hollow diamond on the whole', 'aggregation');
+  return items;
+};
+
+const movePoint = (point: Point, dx: number, dy: number) => ({ x: point.x + dx, y: point.y + dy });
+
+const translate = (item: SceneItem, dx: number, dy: number): SceneItem => {
+  switch (item.kind) {
+    case 'rect':
+    case 'text':
+      return { ...item, x: item.x + dx, y: item.y + dy };
+    case 'line':
+      return { ...item, from: movePoint(item.from, dx, dy), to: movePoint(item.to, dx, dy) };
+    case 'polygon':
+      return { ...item, points: item.points.map(point => movePoint(point, dx, dy)) };
+  }
+};
+
+const LEGEND_HEIGHT = 68;
+
+export const buildScene = (model: Model, options: SceneOptions): Scene => {
+  const entities = [...model.entities].sort((a, b) => (a.order || 0) - (b.order || 0));
+  const sections = new Map(entities.map(e => [e.id, cardSections(e, model.customTypes)]));
+  const sizes: Record<string, NodeSize> = Object.fromEntries(
+    entities.map(e => [e.id, { width: CARD_WIDTH, height: cardHeight(sections.get(e.id)!) }])
+  );
+
+  const positions: Record<string, Position> = options.layout === 'hierarchical'
+    ? computeLayout('hierarchical', model, sizes)
+    : Object.fromEntries(entities.map(e => [e.id, getEntityPosition(e)]));
+
+  const rects: Record<string, CardRect> = Object.fromEntries(entities.map(e => {
+    const { x, y } = positions[e.id];
+    return [e.id, { left: x, top: y, right: x + sizes[e.id].width, bottom: y + sizes[e.id].height }];
+  }));
+
+  const lines: SceneItem[] = [];
+  const labels: SceneItem[] = [];
+  const pairCounts: Record<string, number> = {};
+
+  const relationshipTypes = getRelationshipTypes(model);
+  model.relationships.forEach(rel => {
+    const from = rects[rel.from];
+    const to = rects[rel.to];
+    if (!from || !to || rel.from === rel.to) return;
+
+    // Parallel relationships between the same pair are spread sideways
+    const pairKey = [rel.from, rel.to].sort().join('|');
+    const parallelIndex = pairCounts[pairKey] ?? 0;
+    pairCounts[pairKey] = parallelIndex + 1;
+
+    const dx = (to.left + to.right - from.left - from.right) / 2;
+    const dy = (to.top + to.bottom - from.top - from.bottom) / 2;
+    const length = Math.hypot(dx, dy) || 1;
+    const ux = dx / length;
+    const uy = dy / length;
+    const shift = parallelIndex === 0 ? 0 : (parallelIndex % 2 === 1 ? 1 : -1) * Math.ceil(parallelIndex / 2) * 14;
+
+    const start = edgePoint(from, dx, dy);
+    const end = edgePoint(to, -dx, -dy);
+    start.x -= uy * shift;
+    start.y += ux * shift;
+    end.x -= uy * shift;
+    end.y += ux * shift;
+
+    lines.push({ kind: 'line', from: start, to: end, stroke: COLORS.line, strokeWidth: 1.5 }, arrowHead(end, ux, uy));
+    const kind = relationshipKind(rel, relationshipTypes);
+    if (kind !== 'association') lines.push(diamond(start, ux, uy, kind === 'aggregation'));
+
+    const label = `${rel.label} [${getCardinality(rel, 'to')}]`;
+    labels.push(...labelItems(label, { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 }));
+  });
+
+  const cards = entities.flatMap(e => cardItems(e, sections.get(e.id)!, rects[e.id]));
+  const content = [...lines, ...cards, ...labels];
+
+  // Fit the bounds to the content, leaving room for the title and legend
+  const boxes = content.flatMap(item => {
+    if (item.kind === 'rect') return [{ left: item.x, top: item.y, right: item.x + item.width, bottom: item.y + item.height }];
+    if (item.kind === 'line') return [{
+      left: Math.min(item.from.x, item.to.x),
+      top: Math.min(item.from.y, item.to.y),
+      right: Math.max(item.from.x, item.to.x),
+      bottom: Math.max(item.from.y, item.to.y),
+    }];
+    return [];
+  });
+  const bounds = boxes.length > 0
+    ? {
+      left: Math.min(...boxes.map(b => b.left)),
+      top: Math.min(...boxes.map(b => b.top)),
+      right: Math.max(...boxes.map(b => b.right)),
+      bottom: Math.max(...boxes.map(b => b.bottom)),
+    }
+    : { left: 0, top: 0, right: CARD_WIDTH, bottom: 0 };
+
+  const titleHeight = options.title ? 40 : 0;
+  const offsetX = MARGIN - bounds.left;
+  const offsetY = MARGIN + titleHeight - bounds.top;
+  const contentWidth = bounds.right - bounds.left;
+  const contentHeight = bounds.bottom - bounds.top;
+
+  const items: SceneItem[] = [];
+  if (options.title) {
+    items.push({ kind: 'text', x: MARGIN, y: MARGIN + 20, text: options.title, size: 22, color: COLORS.name, bold: true });
+  }
+  items.push(...content.map(item => translate(item, offsetX, offsetY)));
+
+  let height = MARGIN * 2 + titleHeight + contentHeight;
+  if (options.legend) {
+    items.push(...legendItems(MARGIN, height - MARGIN + 24));
+    height += LEGEND_HEIGHT;
+  }
+
+  const legendWidth = options.legend ? 340 : 0;
+  const titleWidth = options.title ? textWidth(options.title, 22, true) : 0;
+  return {
+    width: Math.ceil(MARGIN * 2 + Math.max(contentWidth, legendWidth, titleWidth)),
+    height: Math.ceil(height),
+    items,
+  };
+};
@@ -0,0 +1,28 @@
+import { Exporter } from './types';
+import { mermaidExporter } from './mermaid';
+import { openApiExporter } from './openapi';
+import { orcaCsvExporter } from './orcaMatrix';
+import { pdfExporter } from './pdf';
+import { permissionsExporter } from './permissions';
+import { plantUmlExporter } from './plantuml';
+import { sqlExporter } from './sql';
+import { svgExporter } from './svg';
+import { typescriptExporter } from './typescript';
+
+export type { Exporter, ExportContext, ExportFile, ExportOption } from './types';
+
+// Exporters offered in the export dialog, in menu order
+export const exporters: Exporter[] = [
+  typescriptExporter,
+  sqlExporter,
+  openApiExporter,
+  mermaidExporter,
+  plantUmlExporter,
+  svgExporter,
+  pdfExporter,
+  orcaCsvExporter,
+  permissionsExporter,
+];
+
+export const defaultExportOptions = (exporter: Exporter): Record<string, string> =>
+  Object.fromEntries(exporter.options.map(option => [option.id, option.defaultValue]));
@@ -0,0 +1,146 @@
+import { Cardinality, Entity, Model } from '../types';
+import { getCardinality } from '../utils/cardinality';
+import { getRelationshipTypes, isContainment, relationshipKind } from '../utils/relationships';
+import { initialState, validTransitions } from '../utils/stateMachine';
+import { CLASS_ARROWS, MULTIPLICITY, diagramEntities, diagramTypeName, quoteLabel, stateMachineComments } from './diagramNotation';
+import { camelCase, kebabCase } from './naming';
+import { ExportFile, Exporter } from './types';
+
+export type MermaidDiagram = 'classDiagram' | 'erDiagram' | 'stateDiagram';
+
+// Crow's foot markers, written on the left and right of the line
+const ER_LEFT: Record<Cardinality, string> = { '0..1': '|o', '1': '||', '0..n': '}o', '1..n': '}|' };
+const ER_RIGHT: Record<Cardinality, string> = { '0..1': 'o|', '1': '||', '0..n': 'o{', '1..n': '|{' };
+
+const multiplicity = (cardinality: Cardinality | undefined) =>
+  cardinality ? ` "${MULTIPLICITY[cardinality]}"` : '';
+
+const generateClassDiagram = (model: Model, title: string) => {
+  const entities = diagramEntities(model);
+  const ids = new Map(entities.map(e => [e.entity.id, e.id]));
+  const lines = ['---', `title: ${quoteLabel(title)}`, '---', 'classDiagram'];
+
+  entities.forEach(({ entity, id, attributes, actions }) => {
+    const label = entity.name.trim() && entity.name !== id ? `[${quoteLabel(entity.name)}]` : '';
+    const members = [
+      ...attributes.map(attr => `+${diagramTypeName(attr)} ${attr.name}`),
+      ...actions.map(action => `+${camelCase(action, 'action')}()`),
+    ];
+    if (members.length === 0) {
+      lines.push(`  class ${id}${label}`);
+    } else {
+      lines.push(`  class ${id}${label} {`, ...members.map(member => `    ${member}`), '  }');
+    }
+  });
+
+  const relationshipTypes = getRelationshipTypes(model);
+  model.relationships.forEach(rel => {
+    const from = ids.get(rel.from);
+    const to = ids.get(rel.to);
+    if (!from || !to) return;
+    const arrow = CLASS_ARROWS[relationshipKind(rel, relationshipTypes)];
+    lines.push(`  ${from}${multiplicity(rel.fromCardinality)} ${arrow}${multiplicity(rel.toCardinality)} ${to} : ${rel.label}`);
+  });
+
+  stateMachineComments(entities).forEach(comment => lines.push(`  %% ${comment}`));
+
+  return lines.join('\n') + '\n';
+};
+
+const generateErDiagram = (model: Model, title: string) => {
+  const entities = diagramEntities(model);
+  const ids = new Map(entities.map(e => [e.entity.id, e.id]));
+  const lines = ['---', `title: ${quoteLabel(title)}`, '---', 'erDiagram'];
+
+  entities.forEach(({ entity, id, attributes }) => {
+    const label = entity.name.trim() && entity.name !== id ? `[${quoteLabel(entity.name)}]` : '';
+    if (attributes.length === 0) {
+      lines.push(`  ${id}${label} {`, '  }');
+      return;
+    }
+    lines.push(
+      `  ${id}${label} {`,
+      ...attributes.map(attr =>
+        `    ${diagramTypeName(attr).toLowerCase()} ${attr.name}` +
+        (attr.unique ? ' UK' : '') +
+        (attr.description ? ` ${quoteLabel(attr.description)}` : '')
+      ),
+      '  }'
+    );
+  });
+
+  const relationshipTypes = getRelationshipTypes(model);
+  model.relationships.forEach(rel => {
+    const from = ids.get(rel.from);
+    const to = ids.get(rel.to);
+    if (!from || !to) return;
+    // Identifying (solid) lines for composition, dashed for other relationships
+    const line = isContainment(rel, relationshipTypes) ? '--' : '..';
+    const markers = `${ER_LEFT[getCardinality(rel, 'from')]}${line}${ER_RIGHT[getCardinality(rel, 'to')]}`;
+    lines.push(`  ${from} ${markers} ${to} : ${quoteLabel(rel.label)}`);
+  });
+
+  stateMachineComments(entities).forEach(comment => lines.push(`  %% ${comment}`));
+
+  return lines.join('\n') + '\n';
+};
+
+// State names are free text, so each state is declared with a plain id
+export const generateStateDiagram = (entity: Entity) => {
+  const states = [...new Set((entity.states || []).map(state => state.trim()).filter(Boolean))];
+  const ids = new Map(states.map((state, i) => [state, `s${i + 1}`]));
+  const start = initialState(entity);
+  const lines = ['---', `title: ${quoteLabel(entity.name.trim() || 'Unnamed entity')}`, '---', 'stateDiagram-v2'];
+
+  states.forEach(state => lines.push(`  state ${quoteLabel(state)} as ${ids.get(state)}`));
+  if (start) lines.push(`  [*] --> ${ids.get(start)}`);
+  validTransitions(entity).forEach(t => {
+    const guard = t.guard?.trim() ? ` [${t.guard.trim()}]` : '';
+    lines.push(`  ${ids.get(t.from)} --> ${ids.get(t.to)} : ${t.action}${guard}`);
+  });
+
+  return lines.join('\n') + '\n';
+};
+
+export const generateMermaid = (model: Model, diagram: Exclude<MermaidDiagram, 'stateDiagram'>, title: string) =>
+  diagram === 'erDiagram' ? generateErDiagram(model, title) : generateClassDiagram(model, title);
+
+// One state diagram per entity that has transitions
+const stateDiagramFiles = (model: Model, baseName: string): ExportFile[] => {
+  const entities = diagramEntities(model).filter(e => e.transitions.length > 0);
+  if (entities.length === 0) {
+    return [{ filename: `${baseName}-states.mmd`, content: '%% No entity has state transitions yet\n', mimeType: 'text/plain' }];
+  }
+  return entities.map(e => ({
+    filename: `${baseName}-${kebabCase(e.id, 'entity')}-states.mmd`,
+    content: generateStateDiagram(e.entity),
+    mimeType: 'text/plain',
+  }));
+};
+
+export const mermaidExporter: Exporter = {
+  id: 'mermaid',
+  label: 'Mermaid diagram',
+  description: 'Text diagram for Markdown docs, with attributes, actions as methods and relationships',
+  options: [
+    {
+      id: 'diagram',
+      label: 'Diagram',
+      choices: [
+        { value: 'classDiagram', label: 'Class diagram' },
+        { value: 'erDiagram', label: 'Entity relationship diagram' },
+        { value: 'stateDiagram', label: 'State diagrams, one per entity with transitions' },
+      ],
+      defaultValue: 'classDiagram',
+    },
+  ],
+  generate: (model, options, { baseName, title }) => {
+    const diagram = options.diagram as MermaidDiagram;
+    if (diagram === 'stateDiagram') return stateDiagramFiles(model, baseName);
+    return [{
+      filename: `${baseName}.mmd`,
+      content: generateMermaid(model, diagram, title),
+      mimeType: 'text/plain',
+    }];
+  },
+};
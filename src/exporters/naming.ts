@@ -0,0 +1,50 @@
+// Helpers for turning free-text model names into code identifiers
+
+const words = (text: string) =>
+  text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+// Identifiers can't start with a digit
+const safeIdentifier = (identifier: string, fallback: string) => {
+  if (!identifier) return fallback;
+  return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier;
+};
+
+export const pascalCase = (text: string, fallback = 'Unnamed') =>
+  safeIdentifier(words(text).map(capitalize).join(''), fallback);
+
+export const camelCase = (text: string, fallback = 'unnamed') => {
+  const pascal = words(text).map(capitalize).join('');
+  return safeIdentifier(pascal.charAt(0).toLowerCase() + pascal.slice(1), fallback);
+};
+
+export const snakeCase = (text: string, fallback = 'unnamed') =>
+  safeIdentifier(words(text).map(word => word.toLowerCase()).join('_'), fallback);
+
+export const kebabCase = (text: string, fallback = 'unnamed') =>
+  words(text).map(word => word.toLowerCase()).join('-') || fallback;
+
+// Naive English plural, good enough for generated field and table names
+export const pluralize = (word: string) => {
+  if (/[^aeiou]y$/i.test(word)) return `${word.slice(0, -1)}ies`;
+  if (/(s|x|z|ch|sh)$/i.test(word)) return `${word}es`;
+  return `${word}s`;
+};
+
+// Make each name unique by appending a number to repeats
+export const uniqueNames = <T>(items: T[], name: (item: T) => string) => {
+  const taken = new Set<string>();
+  return items.map(item => {
+    const base = name(item);
+    let candidate = base;
+    for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+      candidate = `${base}${n}`;
+    }
+    taken.add(candidate.toLowerCase());
+    return candidate;
+  });
+};
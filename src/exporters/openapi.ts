@@ -0,0 +1,265 @@
+import { Attribute, Model } from '../types';
+import { getEnumValues } from '../utils/attributes';
+import { getRelationshipTypes, isContainment } from '../utils/relationships';
+import { findPermission } from '../utils/permissions';
+import { formatTransition } from '../utils/stateMachine';
+import { CodeEntity, CodeField, CodeType, buildCodeModel, buildCodeTypes, fieldDefaultValue } from './codeModel';
+import { camelCase, kebabCase, pluralize } from './naming';
+import { Exporter } from './types';
+import { toYaml } from './yaml';
+
+type Schema = Record<string, unknown>;
+
+const primitiveSchema = (type: Attribute['type']): Schema => {
+  switch (type) {
+    case 'number':
+      return { type: 'number' };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'date':
+      return { type: 'string', format: 'date-time' };
+    default:
+      return { type: 'string' };
+  }
+};
+
+const attributeSchema = (attr: Attribute): Schema => {
+  const enumValues = attr.type === 'enum' ? getEnumValues(attr) : [];
+  return {
+    ...primitiveSchema(attr.type),
+    ...(enumValues.length > 0 && { enum: enumValues }),
+  };
+};
+
+const schemaRef = (typeName: string) => ({ $ref: `#/components/schemas/${typeName}` });
+
+// States are only passed for entities, whose status field lists them
+const fieldSchema = (field: CodeField, states: string[] = []): Schema => {
+  let schema: Schema;
+  switch (field.type.kind) {
+    case 'id':
+      return { type: 'string', readOnly: true };
+    case 'attribute':
+      schema = field.type.customType ? schemaRef(field.type.customType.typeName) : attributeSchema(field.type.attribute);
+      break;
+    case 'status':
+      schema = { type: 'string', enum: states };
+      break;
+    case 'reference':
+      schema = { type: 'string', description: `${field.comment} (id)` };
+      break;
+    case 'nested':
+      schema = schemaRef(field.type.target.typeName);
+      break;
+  }
+  if (field.list) schema = { type: 'array', items: schema };
+
+  // Descriptions sit on the property rather than on list items
+  if (field.type.kind === 'attribute') {
+    const defaultValue = field.list ? undefined : fieldDefaultValue(field);
+    if (field.comment) schema.description = field.comment;
+    if (defaultValue !== undefined) schema.default = defaultValue;
+  }
+  return schema;
+};
+
+const objectSchema = (fields: CodeField[], description?: string, states?: string[]): Schema => {
+  const required = fields.filter(field => !field.optional).map(field => field.name);
+  return {
+    type: 'object',
+    ...(description && { description }),
+    properties: Object.fromEntries(fields.map(field => [field.name, fieldSchema(field, states)])),
+    ...(required.length > 0 && { required }),
+  };
+};
+
+const entitySchema = (code: CodeEntity): Schema =>
+  objectSchema(
+    code.fields,
+    code.entity.actions.length > 0 ? `Actions: ${code.entity.actions.join(', ')}` : undefined,
+    code.states
+  );
+
+// Constrained primitives carry their constraints as JSON Schema keywords
+const customTypeSchema = (code: CodeType): Schema => {
+  const { customType } = code;
+  const description = customType.description?.trim() || undefined;
+  if (customType.kind === 'composite') return objectSchema(code.fields, description);
+
+  return {
+    ...primitiveSchema(customType.base),
+    ...(description && { description }),
+    ...(customType.base === 'string' && {
+      ...(customType.pattern && { pattern: customType.pattern }),
+      ...(customType.minLength !== undefined && { minLength: customType.minLength }),
+      ...(customType.maxLength !== undefined && { maxLength: customType.maxLength }),
+    }),
+    ...(customType.base === 'number' && {
+      ...(customType.minimum !== undefined && { minimum: customType.minimum }),
+      ...(customType.maximum !== undefined && { maximum: customType.maximum }),
+    }),
+  };
+};
+
+const ref = (code: CodeEntity) => schemaRef(code.typeName);
+
+const jsonContent = (schema: Schema) => ({ 'application/json': { schema } });
+
+const pathParameter = (name: string) => ({ name, in: 'path', required: true, schema: { type: 'string' } });
+
+// Build an OpenAPI 3.1 document. Each entity gets CRUD paths and a POST
+// endpoint per action; containment adds list/create paths under the container.
+export const buildOpenApi = (model: Model, title: string) => {
+  const codeEntities = buildCodeModel(model, 'ids');
+  const byId = new Map(codeEntities.map(code => [code.entity.id, code]));
+  const segment = (code: CodeEntity) => pluralize(kebabCase(code.entity.name, 'items'));
+  const paths: Record<string, Record<string, unknown>> = {};
+  const operationIds = new Set<string>();
+
+  const operationId = (base: string) => {
+    let candidate = base;
+    for (let n = 2; operationIds.has(candidate); n++) {
+      candidate = `${base}${n}`;
+    }
+    operationIds.add(candidate);
+    return candidate;
+  };
+
+  const addOperation = (path: string, method: string, operation: Record<string, unknown>) => {
+    // Two entities can share a path segment; keep the first one's operation
+    paths[path] = paths[path] ?? {};
+    if (!paths[path][method]) paths[path][method] = operation;
+  };
+
+  const notFound = { $ref: '#/components/responses/NotFound' };
+
+  codeEntities.forEach(code => {
+    const collection = `/${segment(code)}`;
+    const item = `${collection}/{id}`;
+    const tags = [code.typeName];
+    const plural = pluralize(code.typeName);
+
+    addOperation(collection, 'get', {
+      tags,
+      operationId: operationId(`list${plural}`),
+      summary: `List ${pluralize(code.entity.name)}`,
+      responses: { 200: { description: 'OK', content: jsonContent({ type: 'array', items: ref(code) }) } },
+    });
+    addOperation(collection, 'post', {
+      tags,
+      operationId: operationId(`create${code.typeName}`),
+      summary: `Create ${code.entity.name}`,
+      requestBody: { required: true, content: jsonContent(ref(code)) },
+      responses: { 201: { description: 'Created', content: jsonContent(ref(code)) } },
+    });
+
+    paths[item] = paths[item] ?? { parameters: [pathParameter('id')] };
+    addOperation(item, 'get', {
+      tags,
+      operationId: operationId(`get${code.typeName}`),
+      summary: `Get ${code.entity.name}`,
+      responses: { 200: { description: 'OK', content: jsonContent(ref(code)) }, 404: notFound },
+    });
+    addOperation(item, 'put', {
+      tags,
+      operationId: operationId(`update${code.typeName}`),
+      summary: `Update ${code.entity.name}`,
+      requestBody: { required: true, content: jsonContent(ref(code)) },
+      responses: { 200: { description: 'OK', content: jsonContent(ref(code)) }, 404: notFound },
+    });
+    addOperation(item, 'delete', {
+      tags,
+      operationId: operationId(`delete${code.typeName}`),
+      summary: `Delete ${code.entity.name}`,
+      responses: { 204: { description: 'Deleted' }, 404: notFound },
+    });
+
+    [...new Set(code.entity.actions.map(action => action.trim()).filter(Boolean))].forEach(action => {
+      const path = `${item}/${kebabCase(action, 'action')}`;
+      paths[path] = paths[path] ?? { parameters: [pathParameter('id')] };
+      // Actions in the state machine only succeed from their source states
+      const transitions = code.transitions.filter(t => t.action === action);
+      const permission = findPermission(code.entity, action);
+      const roles = (model.roles || []).filter(role => permission?.roleIds.includes(role.id));
+      addOperation(path, 'post', {
+        tags,
+        operationId: operationId(`${camelCase(action, 'action')}${code.typeName}`),
+        summary: `${action} ${code.entity.name}`,
+        ...(transitions.length > 0 && {
+          description: transitions.map(formatTransition).join('\n'),
+          'x-transitions': transitions.map(({ from, to, guard }) => ({ from, to, ...(guard?.trim() && { guard: guard.trim() }) })),
+        }),
+        ...(roles.length > 0 && { 'x-roles': roles.map(role => role.name.trim()) }),
+        ...(permission?.states && { 'x-allowed-states': permission.states }),
+        responses: {
+          200: { description: 'OK', content: jsonContent(ref(code)) },
+          404: notFound,
+          ...(transitions.length > 0 && { 409: { description: `The ${code.entity.name} is not in a state this action applies to` } }),
+        },
+      });
+    });
+  });
+
+  const relationshipTypes = getRelationshipTypes(model);
+  model.relationships.filter(rel => isContainment(rel, relationshipTypes)).forEach(rel => {
+    const container = byId.get(rel.from);
+    const contained = byId.get(rel.to);
+    if (!container || !contained) return;
+
+    const parameter = `${camelCase(container.entity.name, 'parent')}Id`;
+    const path = `/${segment(container)}/{${parameter}}/${segment(contained)}`;
+    const tags = [contained.typeName];
+    paths[path] = paths[path] ?? { parameters: [pathParameter(parameter)] };
+
+    addOperation(path, 'get', {
+      tags,
+      operationId: operationId(`list${container.typeName}${pluralize(contained.typeName)}`),
+      summary: `List the ${pluralize(contained.entity.name)} in ${container.entity.name}`,
+      responses: { 200: { description: 'OK', content: jsonContent({ type: 'array', items: ref(contained) }) }, 404: notFound },
+    });
+    addOperation(path, 'post', {
+      tags,
+      operationId: operationId(`create${container.typeName}${contained.typeName}`),
+      summary: `Create ${contained.entity.name} in ${container.entity.name}`,
+      requestBody: { required: true, content: jsonContent(ref(contained)) },
+      responses: { 201: { description: 'Created', content: jsonContent(ref(contained)) }, 404: notFound },
+    });
+  });
+
+  return {
+    openapi: '3.1.0',
+    info: { title, version: '1.0.0', description: 'Generated by the OOUX Business Domain Modeler' },
+    tags: codeEntities.map(code => ({ name: code.typeName })),
+    paths,
+    components: {
+      schemas: Object.fromEntries([
+        ...buildCodeTypes(model).map(code => [code.typeName, customTypeSchema(code)]),
+        ...codeEntities.map(code => [code.typeName, entitySchema(code)]),
+      ]),
+      responses: { NotFound: { description: 'Not found' } },
+    },
+  };
+};
+
+export const openApiExporter: Exporter = {
+  id: 'openapi',
+  label: 'OpenAPI 3.1',
+  description: 'CRUD paths and schemas per entity, action endpoints and nested routes for containment',
+  options: [
+    {
+      id: 'format',
+      label: 'Format',
+      choices: [
+        { value: 'yaml', label: 'YAML' },
+        { value: 'json', label: 'JSON' },
+      ],
+      defaultValue: 'yaml',
+    },
+  ],
+  generate: (model, options, { baseName, title }) => {
+    const document = buildOpenApi(model, title);
+    return [options.format === 'json'
+      ? { filename: `${baseName}.openapi.json`, content: JSON.stringify(document, null, 2) + '\n', mimeType: 'application/json' }
+      : { filename: `${baseName}.openapi.yaml`, content: toYaml(document), mimeType: 'application/yaml' }];
+  },
+};
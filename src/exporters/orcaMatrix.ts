@@ -0,0 +1,77 @@
+import { Attribute, Entity, Model } from '../types';
+import { formatAttribute } from '../utils/attributes';
+import { getCardinality } from '../utils/cardinality';
+import { getRelationshipTypes, relationshipPhrase } from '../utils/relationships';
+import { validTransitions } from '../utils/stateMachine';
+import { csvRows } from './csv';
+import { Exporter } from './types';
+
+// Rows of the OOUX ORCA matrix: Objects as columns, and their Relationships,
+// CTAs and Attributes down the side
+export type OrcaRow = 'core' | 'metadata' | 'nested' | 'ctas' | 'states';
+
+export const ORCA_ROWS: { id: OrcaRow; label: string }[] = [
+  { id: 'core', label: 'Core content' },
+  { id: 'metadata', label: 'Metadata' },
+  { id: 'nested', label: 'Nested objects' },
+  { id: 'ctas', label: 'CTAs' },
+  { id: 'states', label: 'States' },
+];
+
+export const sortedEntities = (model: Model) =>
+  [...model.entities].sort((a, b) => (a.order || 0) - (b.order || 0));
+
+// Text of each item in one cell of the matrix
+export const orcaCellItems = (model: Model, entity: Entity, row: OrcaRow): string[] => {
+  const nameOf = (id: string) => model.entities.find(e => e.id === id)?.name ?? '?';
+  const format = (attr: Attribute) => formatAttribute(attr, model.customTypes);
+  const relationshipTypes = getRelationshipTypes(model);
+
+  switch (row) {
+    case 'core':
+      return (entity.attributes || []).filter(attr => attr.role !== 'metadata').map(format);
+    case 'metadata':
+      return (entity.attributes || []).filter(attr => attr.role === 'metadata').map(format);
+    case 'nested':
+      return [
+        ...model.relationships
+          .filter(rel => rel.from === entity.id)
+          .map(rel => `${relationshipPhrase(rel, relationshipTypes, 'from')} ${nameOf(rel.to)} [${getCardinality(rel, 'to')}]`),
+        ...model.relationships
+          .filter(rel => rel.to === entity.id)
+          .map(rel => `${relationshipPhrase(rel, relationshipTypes, 'to')} ${nameOf(rel.from)} [${getCardinality(rel, 'from')}]`),
+      ];
+    case 'ctas': {
+      // CTAs that drive the state machine show where they lead
+      const transitions = validTransitions(entity);
+      return (entity.actions || []).map(action => {
+        const moves = transitions.filter(t => t.action === action.trim()).map(t => `${t.from} → ${t.to}`);
+        return moves.length > 0 ? `${action} (${moves.join(', ')})` : action;
+      });
+    }
+    case 'states':
+      return entity.states || [];
+  }
+};
+
+// One column per object, with each cell's items on separate lines
+export const generateOrcaCsv = (model: Model) => {
+  const entities = sortedEntities(model);
+  const rows = [
+    ['', ...entities.map(e => e.name)],
+    ...ORCA_ROWS.map(row => [row.label, ...entities.map(e => orcaCellItems(model, e, row.id).join('\n'))]),
+  ];
+  return csvRows(rows);
+};
+
+export const orcaCsvExporter: Exporter = {
+  id: 'orca-csv',
+  label: 'ORCA matrix (CSV)',
+  description: 'Objects as columns with core content, metadata, nested objects, CTAs and states as rows',
+  options: [],
+  generate: (model, _options, { baseName }) => [{
+    filename: `${baseName}.orca.csv`,
+    content: generateOrcaCsv(model),
+    mimeType: 'text/csv',
+  }],
+};
@@ -0,0 +1,222 @@
+import { Model } from '../types';
+import { COLORS, Scene, SceneItem, SceneLayout, buildScene, textWidth } from './diagramScene';
+import { DIAGRAM_OPTIONS } from './svg';
+import { Exporter } from './types';
+
+export type PageSize = 'a4' | 'letter';
+export type PdfScale = 'fit' | 'tile';
+
+// Page sizes in points, portrait
+const PAGE_SIZES: Record<PageSize, { width: number; height: number }> = {
+  a4: { width: 595, height: 842 },
+  letter: { width: 612, height: 792 },
+};
+
+const PAGE_MARGIN = 36;
+const FOOTER_HEIGHT = 18;
+// Canvas pixels are 1/96 inch, points 1/72
+const ACTUAL_SIZE = 0.75;
+// Tiles overlap a little so lines cut at a page edge can be lined up
+const TILE_OVERLAP = 24;
+
+const number = (value: number) => (Math.round(value * 100) / 100).toString();
+
+const rgb = (hex: string) =>
+  [1, 3, 5].map(i => number(parseInt(hex.slice(i, i + 2), 16) / 255)).join(' ');
+
+// Characters outside ASCII that the standard fonts' WinAnsi encoding can show
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+// PDF string literal; everything is kept ASCII so byte offsets equal string lengths
+const pdfString = (text: string) => {
+  let out = '';
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (char === '(' || char === ')' || char === '\\') {
+      out += `\\${char}`;
+    } else if (code >= 32 && code < 127) {
+      out += char;
+    } else {
+      const ansi = WIN_ANSI[char] ?? (code >= 160 && code <= 255 ? code : 63);
+      out += `\\${ansi.toString(8).padStart(3, '0')}`;
+    }
+  }
+  return `(${out})`;
+};
+
+const roundedRect = (x: number, y: number, w: number, h: number, r: number) => {
+  if (r <= 0) return `${number(x)} ${number(y)} ${number(w)} ${number(h)} re`;
+  const k = r * 0.5523;
+  const right = x + w;
+  const bottom = y + h;
+  return [
+    `${number(x + r)} ${number(y)} m`,
+    `${number(right - r)} ${number(y)} l`,
+    `${number(right - r + k)} ${number(y)} ${number(right)} ${number(y + r - k)} ${number(right)} ${number(y + r)} c`,
+    `${number(right)} ${number(bottom - r)} l`,
+    `${number(right)} ${number(bottom - r + k)} ${number(right - r + k)} ${number(bottom)} ${number(right - r)} ${number(bottom)} c`,
+    `${number(x + r)} ${number(bottom)} l`,
+    `${number(x + r - k)} ${number(bottom)} ${number(x)} ${number(bottom - r + k)} ${number(x)} ${number(bottom - r)} c`,
+    `${number(x)} ${number(y + r)} l`,
+    `${number(x)} ${number(y + r - k)} ${number(x + r - k)} ${number(y)} ${number(x + r)} ${number(y)} c`,
+    'h',
+  ].join('\n');
+};
+
+// Drawing operators for one item, in a coordinate system with y pointing down
+const pdfItem = (item: SceneItem) => {
+  switch (item.kind) {
+    case 'rect': {
+      const path = roundedRect(item.x, item.y, item.width, item.height, item.radius);
+      if (!item.stroke) return `${rgb(item.fill)} rg\n${path}\nf`;
+      return `${rgb(item.fill)} rg ${rgb(item.stroke)} RG ${number(item.strokeWidth ?? 1)} w\n${path}\nB`;
+    }
+    case 'line':
+      return `${rgb(item.stroke)} RG ${number(item.strokeWidth)} w\n` +
+        `${number(item.from.x)} ${number(item.from.y)} m ${number(item.to.x)} ${number(item.to.y)} l S`;
+    case 'polygon':
+      return `${rgb(item.fill)} rg${item.stroke ? ` ${rgb(item.stroke)} RG 1 w` : ''}\n` +
+        item.points.map((p, i) => `${number(p.x)} ${number(p.y)} ${i === 0 ? 'm' : 'l'}`).join(' ') + (item.stroke ? ' h B' : ' h f');
+    case 'text': {
+      const x = item.anchor === 'middle' ? item.x - textWidth(item.text, item.size, item.bold) / 2 : item.x;
+      // Flip text back upright inside the y-down coordinate system
+      return `BT ${rgb(item.color)} rg /${item.bold ? 'F2' : 'F1'} ${number(item.size)} Tf ` +
+        `1 0 0 -1 ${number(x)} ${number(item.y)} Tm ${pdfString(item.text)} Tj ET`;
+    }
+  }
+};
+
+interface PdfPage {
+  width: number;
+  height: number;
+  content: string;
+}
+
+// Assemble pages into a PDF file using the standard Helvetica fonts
+const writePdf = (pages: PdfPage[], title: string) => {
+  const objects: string[] = [];
+  const add = (body: string) => {
+    objects.push(body);
+    return objects.length;
+  };
+
+  const catalog = add('');
+  const pagesRef = add('');
+  const regular = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  const bold = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  const info = add(`<< /Title ${pdfString(title)} /Producer (OOUX Business Domain Modeler) >>`);
+
+  const pageRefs = pages.map(page => {
+    const content = add(`<< /Length ${page.content.length} >>\nstream\n${page.content}\nendstream`);
+    return add(
+      `<< /Type /Page /Parent ${pagesRef} 0 R /MediaBox [0 0 ${page.width} ${page.height}] ` +
+      `/Resources << /Font << /F1 ${regular} 0 R /F2 ${bold} 0 R >> >> /Contents ${content} 0 R >>`
+    );
+  });
+
+  objects[catalog - 1] = `<< /Type /Catalog /Pages ${pagesRef} 0 R >>`;
+  objects[pagesRef - 1] = `<< /Type /Pages /Kids [${pageRefs.map(ref => `${ref} 0 R`).join(' ')}] /Count ${pageRefs.length} >>`;
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((body, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return pdf;
+};
+
+// Lay the scene out on pages: scaled down to fit one page, or at actual size
+// tiled across as many pages as it needs
+export const sceneToPdf = (scene: Scene, title: string, pageSize: PageSize, scaleMode: PdfScale) => {
+  const portrait = PAGE_SIZES[pageSize];
+  const landscape = scene.width > scene.height;
+  const page = landscape ? { width: portrait.height, height: portrait.width } : portrait;
+  const areaWidth = page.width - PAGE_MARGIN * 2;
+  const areaHeight = page.height - PAGE_MARGIN * 2 - FOOTER_HEIGHT;
+
+  const scale = scaleMode === 'fit'
+    ? Math.min(areaWidth / scene.width, areaHeight / scene.height, ACTUAL_SIZE)
+    : ACTUAL_SIZE;
+  const tileWidth = areaWidth / scale;
+  const tileHeight = areaHeight / scale;
+  const step = (size: number) => scaleMode === 'fit' ? size : size - TILE_OVERLAP;
+  const columns = Math.max(1, Math.ceil((scene.width - TILE_OVERLAP) / step(tileWidth)));
+  const rows = Math.max(1, Math.ceil((scene.height - TILE_OVERLAP) / step(tileHeight)));
+
+  const drawing = [
+    `${rgb(COLORS.background)} rg 0 0 ${scene.width} ${scene.height} re f`,
+    '1 j 1 J',
+    ...scene.items.map(pdfItem),
+  ].join('\n');
+
+  const pages: PdfPage[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const footer = rows * columns > 1
+        ? `${title} - page ${pages.length + 1} of ${rows * columns} (row ${row + 1}, column ${column + 1})`
+        : title;
+      const content = [
+        'q',
+        // y-down coordinates from the top-left corner of the printable area
+        `1 0 0 -1 ${PAGE_MARGIN} ${page.height - PAGE_MARGIN} cm`,
+        `0 0 ${number(areaWidth)} ${number(areaHeight)} re W n`,
+        `${number(scale)} 0 0 ${number(scale)} 0 0 cm`,
+        `1 0 0 1 ${number(-column * step(tileWidth))} ${number(-row * step(tileHeight))} cm`,
+        drawing,
+        'Q',
+        `BT ${rgb(COLORS.attribute)} rg /F1 8 Tf ${PAGE_MARGIN} ${PAGE_MARGIN} Td ${pdfString(footer)} Tj ET`,
+      ].join('\n');
+      pages.push({ width: page.width, height: page.height, content });
+    }
+  }
+
+  return writePdf(pages, title);
+};
+
+export const pdfExporter: Exporter = {
+  id: 'pdf',
+  label: 'PDF document',
+  description: 'Printable vector drawing, on one page or tiled across pages at actual size',
+  options: [
+    ...DIAGRAM_OPTIONS,
+    {
+      id: 'pageSize',
+      label: 'Paper',
+      choices: [
+        { value: 'a4', label: 'A4' },
+        { value: 'letter', label: 'Letter' },
+      ],
+      defaultValue: 'a4',
+    },
+    {
+      id: 'scale',
+      label: 'Scale',
+      choices: [
+        { value: 'fit', label: 'Fit to one page' },
+        { value: 'tile', label: 'Actual size, tiled' },
+      ],
+      defaultValue: 'fit',
+    },
+  ],
+  generate: (model: Model, options, { baseName, title }) => {
+    const scene = buildScene(model, {
+      layout: options.layout as SceneLayout,
+      title: options.title === 'yes' ? title : undefined,
+      legend: options.legend === 'yes',
+    });
+    return [{
+      filename: `${baseName}.pdf`,
+      content: sceneToPdf(scene, title, options.pageSize as PageSize, options.scale as PdfScale),
+      mimeType: 'application/pdf',
+    }];
+  },
+};
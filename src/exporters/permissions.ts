@@ -0,0 +1,67 @@
+import { Model } from '../types';
+import { permissionRows } from '../utils/permissions';
+import { csvRows } from './csv';
+import { Exporter } from './types';
+
+export type PermissionsFormat = 'csv' | 'json';
+
+const roleName = (name: string) => name.trim() || 'Unnamed role';
+
+// One row per entity action and one column per role, marked where allowed
+export const generatePermissionsCsv = (model: Model) => {
+  const roles = model.roles || [];
+  const rows = [
+    ['Entity', 'Action', 'Allowed in states', ...roles.map(role => roleName(role.name))],
+    ...permissionRows(model).map(row => [
+      row.entity.name,
+      row.action,
+      row.states.join('\n'),
+      ...roles.map(role => (row.roles.includes(role) ? 'yes' : '')),
+    ]),
+  ];
+  return csvRows(rows);
+};
+
+// Roles and permissions refer to each other by name, for use outside the modeler
+export const buildPermissionsJson = (model: Model) => ({
+  roles: (model.roles || []).map(role => ({
+    name: roleName(role.name),
+    ...(role.description?.trim() && { description: role.description.trim() }),
+  })),
+  permissions: permissionRows(model).map(row => ({
+    entity: row.entity.name,
+    action: row.action,
+    roles: row.roles.map(role => roleName(role.name)),
+    ...(row.states.length > 0 && { states: row.states }),
+  })),
+});
+
+export const permissionsExporter: Exporter = {
+  id: 'permissions',
+  label: 'Permissions matrix',
+  description: 'Which roles may perform each action, and in which states, for authorization rules',
+  options: [
+    {
+      id: 'format',
+      label: 'Format',
+      choices: [
+        { value: 'csv', label: 'CSV' },
+        { value: 'json', label: 'JSON' },
+      ],
+      defaultValue: 'csv',
+    },
+  ],
+  generate: (model, options, { baseName }) => [
+    options.format === 'json'
+      ? {
+        filename: `${baseName}.permissions.json`,
+        content: JSON.stringify(buildPermissionsJson(model), null, 2) + '\n',
+        mimeType: 'application/json',
+      }
+      : {
+        filename: `${baseName}.permissions.csv`,
+        content: generatePermissionsCsv(model),
+        mimeType: 'text/csv',
+      },
+  ],
+};
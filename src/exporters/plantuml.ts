@@ -0,0 +1,55 @@
+import { Model } from '../types';
+import { getRelationshipTypes, relationshipKind } from '../utils/relationships';
+import { CLASS_ARROWS, MULTIPLICITY, diagramEntities, diagramTypeName, quoteLabel, stateMachineComments } from './diagramNotation';
+import { camelCase } from './naming';
+import { Exporter } from './types';
+
+export const generatePlantUml = (model: Model, title: string) => {
+  const entities = diagramEntities(model);
+  const ids = new Map(entities.map(e => [e.entity.id, e.id]));
+  const lines = ['@startuml', `title ${title}`, 'hide empty members', ''];
+
+  entities.forEach(({ entity, id, attributes, actions }) => {
+    const declaration = entity.name.trim() && entity.name !== id
+      ? `class ${quoteLabel(entity.name)} as ${id}`
+      : `class ${id}`;
+    const members = [
+      ...attributes.map(attr => `+${attr.name} : ${diagramTypeName(attr)}`),
+      ...actions.map(action => `+${camelCase(action, 'action')}()`),
+    ];
+    if (members.length === 0) {
+      lines.push(declaration);
+    } else {
+      lines.push(`${declaration} {`, ...members.map(member => `  ${member}`), '}');
+    }
+  });
+
+  lines.push('');
+  const relationshipTypes = getRelationshipTypes(model);
+  model.relationships.forEach(rel => {
+    const from = ids.get(rel.from);
+    const to = ids.get(rel.to);
+    if (!from || !to) return;
+    const fromMultiplicity = rel.fromCardinality ? ` "${MULTIPLICITY[rel.fromCardinality]}"` : '';
+    const toMultiplicity = rel.toCardinality ? ` "${MULTIPLICITY[rel.toCardinality]}"` : '';
+    const arrow = CLASS_ARROWS[relationshipKind(rel, relationshipTypes)];
+    lines.push(`${from}${fromMultiplicity} ${arrow}${toMultiplicity} ${to} : ${rel.label}`);
+  });
+
+  stateMachineComments(entities).forEach(comment => lines.push(`' ${comment}`));
+
+  lines.push('@enduml');
+  return lines.join('\n') + '\n';
+};
+
+export const plantUmlExporter: Exporter = {
+  id: 'plantuml',
+  label: 'PlantUML class diagram',
+  description: 'Text diagram with attributes, actions as methods and relationships',
+  options: [],
+  generate: (model, _options, { baseName, title }) => [{
+    filename: `${baseName}.puml`,
+    content: generatePlantUml(model, title),
+    mimeType: 'text/plain',
+  }],
+};
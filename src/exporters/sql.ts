@@ -0,0 +1,356 @@
+import { Attribute, CustomType, Model, Relationship } from '../types';
+import { getEnumValues, isListAttribute, typedDefaultValue } from '../utils/attributes';
+import { getCardinality, isManyCardinality, isRequiredEnd } from '../utils/cardinality';
+import { getRelationshipTypes, isContainment } from '../utils/relationships';
+import { formatTransition, validTransitions } from '../utils/stateMachine';
+import { pluralize, snakeCase, uniqueNames } from './naming';
+import { Exporter } from './types';
+
+export type SqlDialect = 'postgresql' | 'sqlite' | 'mysql';
+
+interface DialectRules {
+  label: string;
+  quote: (identifier: string) => string;
+  // Column definition for a generated surrogate key
+  idColumn: string;
+  // Type of a column that references a surrogate key
+  foreignKeyType: string;
+  columnType: (type: Attribute['type']) => string;
+  // Column type holding a list of values of the given type
+  listColumnType: (type: Attribute['type']) => string;
+  // Column type for a value object, or a list of them, stored as JSON
+  jsonColumnType: string;
+  lengthFunction: string;
+  // Check that text matches a regular expression; SQLite has none built in
+  patternCheck?: (column: string, pattern: string) => string;
+  // SQLite can't add constraints after the fact, but resolves references
+  // lazily, so its foreign keys are declared inside CREATE TABLE
+  inlineForeignKeys: boolean;
+}
+
+const sqlString = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+const postgresColumnType = (type: Attribute['type']) =>
+  ({ string: 'TEXT', number: 'NUMERIC', boolean: 'BOOLEAN', date: 'TIMESTAMP', enum: 'TEXT' })[type];
+
+const dialects: Record<SqlDialect, DialectRules> = {
+  postgresql: {
+    label: 'PostgreSQL',
+    quote: name => `"${name}"`,
+    idColumn: 'BIGSERIAL PRIMARY KEY',
+    foreignKeyType: 'BIGINT',
+    columnType: postgresColumnType,
+    listColumnType: type => `${postgresColumnType(type)}[]`,
+    jsonColumnType: 'JSONB',
+    lengthFunction: 'char_length',
+    patternCheck: (column, pattern) => `${column} ~ ${sqlString(pattern)}`,
+    inlineForeignKeys: false,
+  },
+  sqlite: {
+    label: 'SQLite',
+    quote: name => `"${name}"`,
+    idColumn: 'INTEGER PRIMARY KEY AUTOINCREMENT',
+    foreignKeyType: 'INTEGER',
+    columnType: type => ({ string: 'TEXT', number: 'REAL', boolean: 'INTEGER', date: 'TEXT', enum: 'TEXT' })[type],
+    // Stored as a JSON array
+    listColumnType: () => 'TEXT',
+    jsonColumnType: 'TEXT',
+    lengthFunction: 'length',
+    inlineForeignKeys: true,
+  },
+  mysql: {
+    label: 'MySQL',
+    quote: name => `\`${name}\``,
+    idColumn: 'BIGINT AUTO_INCREMENT PRIMARY KEY',
+    foreignKeyType: 'BIGINT',
+    columnType: type => ({ string: 'VARCHAR(255)', number: 'DOUBLE', boolean: 'BOOLEAN', date: 'DATETIME', enum: 'VARCHAR(255)' })[type],
+    listColumnType: () => 'JSON',
+    jsonColumnType: 'JSON',
+    lengthFunction: 'CHAR_LENGTH',
+    patternCheck: (column, pattern) => `REGEXP_LIKE(${column}, ${sqlString(pattern)})`,
+    inlineForeignKeys: false,
+  },
+};
+
+interface Column {
+  name: string;
+  // A surrogate key column when type is undefined
+  type?: string;
+  notNull: boolean;
+  unique?: boolean;
+  defaultValue?: string;
+  allowedValues?: string[];
+  // Constrained primitive whose constraints become checks
+  constraints?: CustomType;
+}
+
+interface ForeignKey {
+  column: string;
+  references: string;
+  onDelete?: 'CASCADE' | 'SET NULL';
+}
+
+interface Table {
+  name: string;
+  comment: string;
+  // Extra comment lines, such as the status column's allowed transitions
+  notes?: string[];
+  columns: Column[];
+  primaryKey?: string[];
+  foreignKeys: ForeignKey[];
+}
+
+const sqlLiteral = (value: string | number | boolean) => {
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return typeof value === 'number' ? String(value) : sqlString(value);
+};
+
+// Columns for an attribute, named after it. Value objects are embedded as a
+// column per field, or stored as JSON when listed or when they contain
+// themselves. List columns hold arrays or JSON, which can't take value
+// checks or defaults.
+const attributeColumns = (
+  attribute: Attribute,
+  name: string,
+  rules: DialectRules,
+  customTypes: Map<string, CustomType>,
+  required = attribute.required ?? false,
+  embedding: string[] = []
+): Column[] => {
+  const customType = attribute.customType ? customTypes.get(attribute.customType) : undefined;
+
+  if (customType?.kind === 'composite') {
+    if (isListAttribute(attribute) || embedding.includes(customType.id) || customType.fields.length === 0) {
+      return [{ name, type: rules.jsonColumnType, notNull: required }];
+    }
+    return customType.fields.flatMap(field => attributeColumns(
+      field,
+      `${name}_${snakeCase(field.name, 'field')}`,
+      rules,
+      customTypes,
+      required && (field.required ?? false),
+      [...embedding, customType.id]
+    ));
+  }
+
+  if (isListAttribute(attribute)) {
+    return [{ name, type: rules.listColumnType(attribute.type), notNull: required }];
+  }
+
+  const defaultValue = typedDefaultValue(attribute, customType && [customType]);
+  const enumValues = attribute.type === 'enum' && !customType ? getEnumValues(attribute) : [];
+  return [{
+    name,
+    type: rules.columnType(attribute.type),
+    notNull: required,
+    unique: attribute.unique,
+    defaultValue: defaultValue !== undefined ? sqlLiteral(defaultValue) : undefined,
+    allowedValues: enumValues.length > 0 ? enumValues : undefined,
+    constraints: customType,
+  }];
+};
+
+const constraintChecks = (column: string, customType: CustomType, rules: DialectRules) => {
+  const checks: string[] = [];
+  if (customType.base === 'string') {
+    if (customType.pattern && rules.patternCheck) checks.push(rules.patternCheck(column, customType.pattern));
+    if (customType.minLength !== undefined) checks.push(`${rules.lengthFunction}(${column}) >= ${customType.minLength}`);
+    if (customType.maxLength !== undefined) checks.push(`${rules.lengthFunction}(${column}) <= ${customType.maxLength}`);
+  } else if (customType.base === 'number') {
+    if (customType.minimum !== undefined) checks.push(`${column} >= ${customType.minimum}`);
+    if (customType.maximum !== undefined) checks.push(`${column} <= ${customType.maximum}`);
+  }
+  return checks;
+};
+
+// Claim a column name within a table, numbering repeats
+const claimName = (taken: Set<string>, base: string) => {
+  let candidate = base;
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = `${base}_${n}`;
+  }
+  taken.add(candidate);
+  return candidate;
+};
+
+// Work out the tables for a model. Each entity gets a table with a surrogate
+// key. Containment puts a key to the container on the contained table;
+// other relationships put a key on whichever end is single, or get a join
+// table when both ends are many.
+const buildTables = (model: Model, rules: DialectRules): Table[] => {
+  const entities = [...model.entities].sort((a, b) => (a.order || 0) - (b.order || 0));
+  const tableNames = uniqueNames(entities, e => pluralize(snakeCase(e.name, 'entity')));
+  const singular = new Map(entities.map(e => [e.id, snakeCase(e.name, 'entity')]));
+
+  const tables = new Map<string, Table>();
+  const takenColumns = new Map<string, Set<string>>();
+  const customTypes = new Map((model.customTypes || []).map(t => [t.id, t]));
+
+  entities.forEach((entity, i) => {
+    const taken = new Set(['id']);
+    const columns: Column[] = [{ name: 'id', notNull: true }];
+
+    (entity.attributes || []).forEach(attribute => {
+      attributeColumns(attribute, snakeCase(attribute.name, 'column'), rules, customTypes).forEach(column => {
+        columns.push({ ...column, name: claimName(taken, column.name) });
+      });
+    });
+
+    const states = [...new Set((entity.states || []).map(state => state.trim()).filter(Boolean))];
+    if (states.length > 0) {
+      columns.push({
+        name: claimName(taken, 'status'),
+        type: rules.columnType('string'),
+        notNull: true,
+        defaultValue: sqlString(states[0]),
+        allowedValues: states,
+      });
+    }
+
+    const transitions = validTransitions(entity);
+    const notes = transitions.length > 0 ? ['Status transitions:', ...transitions.map(t => `  ${formatTransition(t)}`)] : undefined;
+
+    tables.set(entity.id, { name: tableNames[i], comment: entity.name, notes, columns, foreignKeys: [] });
+    takenColumns.set(entity.id, taken);
+  });
+
+  const addForeignKey = (ownerId: string, targetId: string, notNull: boolean, onDelete?: ForeignKey['onDelete']) => {
+    const owner = tables.get(ownerId)!;
+    const column = claimName(takenColumns.get(ownerId)!, `${singular.get(targetId)}_id`);
+    owner.columns.push({ name: column, type: rules.foreignKeyType, notNull });
+    owner.foreignKeys.push({ column, references: tables.get(targetId)!.name, onDelete });
+  };
+
+  const joinTables: Table[] = [];
+  const takenTableNames = new Set(tableNames.map(name => name.toLowerCase()));
+
+  const addJoinTable = (rel: Relationship) => {
+    const from = tables.get(rel.from)!;
+    const to = tables.get(rel.to)!;
+    const taken = new Set<string>();
+    const fromColumn = claimName(taken, `${singular.get(rel.from)}_id`);
+    const toColumn = claimName(taken, `${singular.get(rel.to)}_id`);
+
+    let name = `${singular.get(rel.from)}_${to.name}`;
+    for (let n = 2; takenTableNames.has(name.toLowerCase()); n++) {
+      name = `${singular.get(rel.from)}_${to.name}_${n}`;
+    }
+    takenTableNames.add(name.toLowerCase());
+
+    joinTables.push({
+      name,
+      comment: `${from.comment} ${rel.label} ${to.comment}`,
+      columns: [
+        { name: fromColumn, type: rules.foreignKeyType, notNull: true },
+        { name: toColumn, type: rules.foreignKeyType, notNull: true },
+      ],
+      primaryKey: [fromColumn, toColumn],
+      foreignKeys: [
+        { column: fromColumn, references: from.name, onDelete: 'CASCADE' },
+        { column: toColumn, references: to.name, onDelete: 'CASCADE' },
+      ],
+    });
+  };
+
+  const relationshipTypes = getRelationshipTypes(model);
+  model.relationships.forEach(rel => {
+    if (!tables.has(rel.from) || !tables.has(rel.to)) return;
+
+    const fromMany = isManyCardinality(getCardinality(rel, 'from'));
+    const toMany = isManyCardinality(getCardinality(rel, 'to'));
+
+    if (isContainment(rel, relationshipTypes)) {
+      // Contained rows belong to a single container unless the model
+      // explicitly allows several
+      if (rel.fromCardinality && fromMany) {
+        addJoinTable(rel);
+      } else {
+        addForeignKey(rel.to, rel.from, isRequiredEnd(rel, 'from'), 'CASCADE');
+      }
+    } else if (!toMany) {
+      addForeignKey(rel.from, rel.to, isRequiredEnd(rel, 'to'), isRequiredEnd(rel, 'to') ? undefined : 'SET NULL');
+    } else if (!fromMany) {
+      addForeignKey(rel.to, rel.from, isRequiredEnd(rel, 'from'), isRequiredEnd(rel, 'from') ? undefined : 'SET NULL');
+    } else {
+      addJoinTable(rel);
+    }
+  });
+
+  return [...tables.values(), ...joinTables];
+};
+
+const foreignKeyClause = (table: Table, fk: ForeignKey, rules: DialectRules) =>
+  `CONSTRAINT ${rules.quote(`fk_${table.name}_${fk.column}`)} FOREIGN KEY (${rules.quote(fk.column)}) ` +
+  `REFERENCES ${rules.quote(fk.references)} (${rules.quote('id')})` +
+  (fk.onDelete ? ` ON DELETE ${fk.onDelete}` : '');
+
+const columnDefinition = (column: Column, rules: DialectRules) => {
+  const name = rules.quote(column.name);
+  if (!column.type) return `${name} ${rules.idColumn}`;
+
+  let definition = `${name} ${column.type}`;
+  if (column.notNull) definition += ' NOT NULL';
+  if (column.unique) definition += ' UNIQUE';
+  if (column.defaultValue) definition += ` DEFAULT ${column.defaultValue}`;
+  if (column.allowedValues) {
+    definition += ` CHECK (${name} IN (${column.allowedValues.map(sqlString).join(', ')}))`;
+  }
+  const checks = column.constraints ? constraintChecks(name, column.constraints, rules) : [];
+  if (checks.length > 0) definition += ` CHECK (${checks.join(' AND ')})`;
+  return definition;
+};
+
+export const generateSql = (model: Model, dialect: SqlDialect, title: string) => {
+  const rules = dialects[dialect];
+  const tables = buildTables(model, rules);
+  const statements: string[] = [];
+
+  if (dialect === 'sqlite') {
+    statements.push('PRAGMA foreign_keys = ON;');
+  }
+
+  tables.forEach(table => {
+    const lines = table.columns.map(column => columnDefinition(column, rules));
+    if (table.primaryKey) {
+      lines.push(`PRIMARY KEY (${table.primaryKey.map(rules.quote).join(', ')})`);
+    }
+    if (rules.inlineForeignKeys) {
+      table.foreignKeys.forEach(fk => lines.push(foreignKeyClause(table, fk, rules)));
+    }
+    const comments = [table.comment, ...(table.notes || [])].map(line => `-- ${line}\n`).join('');
+    statements.push(
+      `${comments}CREATE TABLE ${rules.quote(table.name)} (\n${lines.map(line => `  ${line}`).join(',\n')}\n);`
+    );
+  });
+
+  // Added once every table exists, so tables can reference each other in any order
+  if (!rules.inlineForeignKeys) {
+    tables.forEach(table => {
+      table.foreignKeys.forEach(fk => {
+        statements.push(`ALTER TABLE ${rules.quote(table.name)} ADD ${foreignKeyClause(table, fk, rules)};`);
+      });
+    });
+  }
+
+  const header = `-- ${title}\n-- Generated by the OOUX Business Domain Modeler for ${rules.label}\n`;
+  return [header, statements.join('\n\n')].join('\n') + '\n';
+};
+
+export const sqlExporter: Exporter = {
+  id: 'sql',
+  label: 'SQL DDL',
+  description: 'CREATE TABLE statements, with foreign keys and join tables from relationships',
+  options: [
+    {
+      id: 'dialect',
+      label: 'Dialect',
+      choices: (Object.keys(dialects) as SqlDialect[]).map(dialect => ({ value: dialect, label: dialects[dialect].label })),
+      defaultValue: 'postgresql',
+    },
+  ],
+  generate: (model, options, { baseName, title }) => [{
+    filename: `${baseName}.sql`,
+    content: generateSql(model, options.dialect as SqlDialect, title),
+    mimeType: 'application/sql',
+  }],
+};
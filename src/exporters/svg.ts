@@ -0,0 +1,81 @@
+import { Model } from '../types';
+import { COLORS, Scene, SceneItem, SceneLayout, buildScene } from './diagramScene';
+import { Exporter } from './types';
+
+const FONT = 'Helvetica, Arial, sans-serif';
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const svgItem = (item: SceneItem) => {
+  switch (item.kind) {
+    case 'rect':
+      return `<rect x="${round(item.x)}" y="${round(item.y)}" width="${round(item.width)}" height="${round(item.height)}" rx="${item.radius}" fill="${item.fill}"` +
+        (item.stroke ? ` stroke="${item.stroke}" stroke-width="${item.strokeWidth ?? 1}"` : '') + '/>';
+    case 'line':
+      return `<line x1="${round(item.from.x)}" y1="${round(item.from.y)}" x2="${round(item.to.x)}" y2="${round(item.to.y)}" stroke="${item.stroke}" stroke-width="${item.strokeWidth}"/>`;
+    case 'polygon':
+      return `<polygon points="${item.points.map(p => `${round(p.x)},${round(p.y)}`).join(' ')}" fill="${item.fill}"` +
+        (item.stroke ? ` stroke="${item.stroke}"` : '') + '/>';
+    case 'text':
+      return `<text x="${round(item.x)}" y="${round(item.y)}" font-size="${item.size}" fill="${item.color}"` +
+        (item.bold ? ' font-weight="bold"' : '') +
+        (item.anchor === 'middle' ? ' text-anchor="middle"' : '') +
+        `>${escapeXml(item.text)}</text>`;
+  }
+};
+
+export const sceneToSvg = (scene: Scene, title?: string) => [
+  `<svg xmlns="http://www.w3.org/2000/svg" width="${scene.width}" height="${scene.height}" viewBox="0 0 ${scene.width} ${scene.height}" font-family="${FONT}">`,
+  ...(title ? [`  <title>${escapeXml(title)}</title>`] : []),
+  `  <rect width="100%" height="100%" fill="${COLORS.background}"/>`,
+  ...scene.items.map(item => `  ${svgItem(item)}`),
+  '</svg>',
+].join('\n') + '\n';
+
+export const generateSvg = (model: Model, layout: SceneLayout, title: string | undefined, legend: boolean) =>
+  sceneToSvg(buildScene(model, { layout, title, legend }), title);
+
+export const DIAGRAM_OPTIONS: Exporter['options'] = [
+  {
+    id: 'layout',
+    label: 'Layout',
+    choices: [
+      { value: 'canvas', label: 'As on the free-form canvas' },
+      { value: 'hierarchical', label: 'Hierarchical' },
+    ],
+    defaultValue: 'canvas',
+  },
+  {
+    id: 'title',
+    label: 'Title',
+    choices: [
+      { value: 'yes', label: 'Show model name' },
+      { value: 'no', label: 'None' },
+    ],
+    defaultValue: 'yes',
+  },
+  {
+    id: 'legend',
+    label: 'Legend',
+    choices: [
+      { value: 'yes', label: 'Show' },
+      { value: 'no', label: 'Hide' },
+    ],
+    defaultValue: 'yes',
+  },
+];
+
+export const svgExporter: Exporter = {
+  id: 'svg',
+  label: 'SVG image',
+  description: 'Vector drawing of the model, sized to fit its content',
+  options: DIAGRAM_OPTIONS,
+  generate: (model, options, { baseName, title }) => [{
+    filename: `${baseName}.svg`,
+    content: generateSvg(model, options.layout as SceneLayout, options.title === 'yes' ? title : undefined, options.legend === 'yes'),
+    mimeType: 'image/svg+xml',
+  }],
+};
@@ -0,0 +1,28 @@
+import { Model } from '../types';
+
+export interface ExportOption {
+  id: string;
+  label: string;
+  choices: { value: string; label: string }[];
+  defaultValue: string;
+}
+
+export interface ExportFile {
+  filename: string;
+  content: string;
+  mimeType: string;
+}
+
+export interface ExportContext {
+  // File name without extension, e.g. "order-management-2024-05-01"
+  baseName: string;
+  title: string;
+}
+
+export interface Exporter {
+  id: string;
+  label: string;
+  description: string;
+  options: ExportOption[];
+  generate: (model: Model, options: Record<string, string>, context: ExportContext) => ExportFile[];
+}
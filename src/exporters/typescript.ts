@@ -0,0 +1,276 @@
+import { Attribute, Model } from '../types';
+import { getEnumValues } from '../utils/attributes';
+import { describeConstraints } from '../utils/customTypes';
+import { CodeEntity, CodeField, CodeType, RelationshipStyle, buildCodeModel, buildCodeTypes, fieldDefaultValue } from './codeModel';
+import { Exporter } from './types';
+
+const HEADER = (title: string) => `// ${title}\n// Generated by the OOUX Business Domain Modeler\n`;
+
+const quote = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+const tsPrimitive = (attr: Pick<Attribute, 'type' | 'enumValues'>) => {
+  const enumValues = attr.type === 'enum' ? getEnumValues(attr) : [];
+  if (enumValues.length > 0) {
+    const union = enumValues.map(quote).join(' | ');
+    return enumValues.length > 1 ? `(${union})` : union;
+  }
+  switch (attr.type) {
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'date':
+      return 'Date';
+    default:
+      return 'string';
+  }
+};
+
+// Status fields only occur on entities, which pass their status type
+const tsFieldType = (field: CodeField, statusTypeName = 'string') => {
+  let type: string;
+  switch (field.type.kind) {
+    case 'id':
+    case 'reference':
+      type = 'string';
+      break;
+    case 'attribute':
+      type = field.type.customType ? field.type.customType.typeName : tsPrimitive(field.type.attribute);
+      break;
+    case 'status':
+      type = statusTypeName;
+      break;
+    case 'nested':
+      type = field.type.target.typeName;
+      break;
+  }
+  return field.list ? `${type}[]` : type;
+};
+
+const fieldComment = (field: CodeField) => {
+  const parts = field.comment ? [field.comment] : [];
+  if (field.type.kind === 'attribute') {
+    const attr = field.type.attribute;
+    if (attr.type === 'enum' && !field.type.customType && getEnumValues(attr).length === 0) {
+      parts.push('enum: values not specified in the model');
+    }
+    if (attr.unique) parts.push('unique');
+    const defaultValue = fieldDefaultValue(field);
+    if (defaultValue !== undefined) parts.push(`@default ${JSON.stringify(defaultValue)}`);
+  }
+  return parts.length > 0 ? parts.join('. ') : undefined;
+};
+
+const interfaceLines = (typeName: string, fields: CodeField[], statusTypeName?: string) => [
+  `export interface ${typeName} {`,
+  ...fields.flatMap(field => {
+    const comment = fieldComment(field);
+    const line = `  ${field.name}${field.optional ? '?' : ''}: ${tsFieldType(field, statusTypeName)};`;
+    return comment ? [`  /** ${comment} */`, line] : [line];
+  }),
+  '}',
+];
+
+// Constrained primitives become aliases that document their constraints;
+// value objects become interfaces
+const customTypeBlock = (code: CodeType) => {
+  const { customType } = code;
+  const constraints = customType.kind === 'constrained' ? describeConstraints(customType) : '';
+  const comment = [customType.description?.trim(), constraints].filter(Boolean).join('. ');
+  const lines = comment ? [`/** ${comment} */`] : [];
+
+  if (customType.kind === 'constrained') {
+    lines.push(`export type ${code.typeName} = ${tsPrimitive({ type: customType.base })};`);
+  } else {
+    lines.push(...interfaceLines(code.typeName, code.fields));
+  }
+  return lines.join('\n');
+};
+
+// The entity's state machine as a typed table of transitions
+const transitionLines = (code: CodeEntity) => {
+  const actions = [...new Set(code.entity.actions.map(action => action.trim()).filter(Boolean))];
+  const constName = code.typeName.charAt(0).toLowerCase() + code.typeName.slice(1) + 'Transitions';
+  return [
+    `export type ${code.actionTypeName} = ${actions.map(quote).join(' | ')};`,
+    '',
+    `export const ${constName}: { from: ${code.statusTypeName}; action: ${code.actionTypeName}; to: ${code.statusTypeName}; guard?: string }[] = [`,
+    ...code.transitions.map(t =>
+      `  { from: ${quote(t.from)}, action: ${quote(t.action)}, to: ${quote(t.to)}${t.guard?.trim() ? `, guard: ${quote(t.guard.trim())}` : ''} },`
+    ),
+    '];',
+  ];
+};
+
+export const generateTypeScript = (model: Model, relationshipStyle: RelationshipStyle, title: string) => {
+  const customTypeBlocks = buildCodeTypes(model).map(customTypeBlock);
+  const entityBlocks = buildCodeModel(model, relationshipStyle).map(code => {
+    const lines: string[] = [];
+
+    if (code.states.length > 0) {
+      lines.push(`export type ${code.statusTypeName} = ${code.states.map(quote).join(' | ')};`, '');
+    }
+    lines.push(...interfaceLines(code.typeName, code.fields, code.statusTypeName));
+    if (code.transitions.length > 0) {
+      lines.push('', ...transitionLines(code));
+    }
+
+    return lines.join('\n');
+  });
+
+  return [HEADER(title), [...customTypeBlocks, ...entityBlocks].join('\n\n')].join('\n') + '\n';
+};
+
+const zodPrimitive = (attr: Pick<Attribute, 'type' | 'enumValues'>) => {
+  const enumValues = attr.type === 'enum' ? getEnumValues(attr) : [];
+  if (enumValues.length > 0) return `z.enum([${enumValues.map(quote).join(', ')}])`;
+  switch (attr.type) {
+    case 'number':
+      return 'z.number()';
+    case 'boolean':
+      return 'z.boolean()';
+    case 'date':
+      return 'z.coerce.date()';
+    default:
+      return 'z.string()';
+  }
+};
+
+// Dates are coerced from strings, so their defaults are left to the interface
+const zodDefault = (field: CodeField) => {
+  if (field.type.kind !== 'attribute' || field.list || field.type.attribute.type === 'date') return undefined;
+  return fieldDefaultValue(field);
+};
+
+const zodFieldSchema = (field: CodeField, statusTypeName?: string) => {
+  let schema: string;
+  switch (field.type.kind) {
+    case 'id':
+    case 'reference':
+      schema = 'z.string()';
+      break;
+    case 'attribute':
+      schema = field.type.customType ? `${field.type.customType.typeName}Schema` : zodPrimitive(field.type.attribute);
+      break;
+    case 'status':
+      schema = `${statusTypeName}Schema`;
+      break;
+    case 'nested':
+      schema = `${field.type.target.typeName}Schema`;
+      break;
+  }
+  if (field.list) schema = `z.array(${schema})`;
+
+  // A default stands in for a missing value, so only optional fields get one
+  const defaultValue = zodDefault(field);
+  if (field.optional) schema = defaultValue !== undefined ? `${schema}.default(${JSON.stringify(defaultValue)})` : `${schema}.optional()`;
+  return schema;
+};
+
+const objectSchemaLines = (typeName: string, fields: CodeField[], statusTypeName?: string) => [
+  `export const ${typeName}Schema: z.ZodType<${typeName}> = z.lazy(() => z.object({`,
+  ...fields.map(field => `  ${field.name}: ${zodFieldSchema(field, statusTypeName)},`),
+  '}));',
+];
+
+const constrainedSchema = (code: CodeType) => {
+  const { customType } = code;
+  let schema = zodPrimitive({ type: customType.base });
+  if (customType.base === 'string') {
+    if (customType.pattern) schema += `.regex(new RegExp(${JSON.stringify(customType.pattern)}))`;
+    if (customType.minLength !== undefined) schema += `.min(${customType.minLength})`;
+    if (customType.maxLength !== undefined) schema += `.max(${customType.maxLength})`;
+  } else if (customType.base === 'number') {
+    if (customType.minimum !== undefined) schema += `.min(${customType.minimum})`;
+    if (customType.maximum !== undefined) schema += `.max(${customType.maximum})`;
+  }
+  return `export const ${code.typeName}Schema: z.ZodType<${code.typeName}> = ${schema};`;
+};
+
+// Zod schemas typed against the generated interfaces. Object schemas are lazy
+// so nested objects can refer to each other regardless of declaration order.
+export const generateZod = (model: Model, relationshipStyle: RelationshipStyle, title: string, typesModule: string) => {
+  const codeTypes = buildCodeTypes(model);
+  const codeEntities = buildCodeModel(model, relationshipStyle);
+  const typeImports = [
+    ...codeTypes.map(code => code.typeName),
+    ...codeEntities.flatMap(code =>
+      code.states.length > 0 ? [code.typeName, code.statusTypeName] : [code.typeName]
+    ),
+  ];
+
+  const lines = [
+    HEADER(title),
+    `import { z } from 'zod';`,
+  ];
+  if (typeImports.length > 0) {
+    lines.push(`import type { ${typeImports.join(', ')} } from ${quote(typesModule)};`);
+  }
+
+  codeTypes.forEach(code => {
+    lines.push('');
+    if (code.customType.kind === 'constrained') {
+      lines.push(constrainedSchema(code));
+    } else {
+      lines.push(...objectSchemaLines(code.typeName, code.fields));
+    }
+  });
+
+  codeEntities.forEach(code => {
+    lines.push('');
+    if (code.states.length > 0) {
+      lines.push(
+        `export const ${code.statusTypeName}Schema: z.ZodType<${code.statusTypeName}> = z.enum([${code.states.map(quote).join(', ')}]);`,
+        ''
+      );
+    }
+    lines.push(...objectSchemaLines(code.typeName, code.fields, code.statusTypeName));
+  });
+
+  return lines.join('\n') + '\n';
+};
+
+export const typescriptExporter: Exporter = {
+  id: 'typescript',
+  label: 'TypeScript interfaces',
+  description: 'One interface per entity, with an optional matching Zod schema module',
+  options: [
+    {
+      id: 'relationships',
+      label: 'Relationships',
+      choices: [
+        { value: 'ids', label: 'ID references' },
+        { value: 'nested', label: 'Nested objects for containment' },
+      ],
+      defaultValue: 'ids',
+    },
+    {
+      id: 'zod',
+      label: 'Zod schemas',
+      choices: [
+        { value: 'no', label: 'Interfaces only' },
+        { value: 'yes', label: 'Also export Zod schemas' },
+      ],
+      defaultValue: 'no',
+    },
+  ],
+  generate: (model, options, { baseName, title }) => {
+    const style = options.relationships as RelationshipStyle;
+    const typesFile = `${baseName}.types.ts`;
+    const files = [{
+      filename: typesFile,
+      content: generateTypeScript(model, style, title),
+      mimeType: 'text/typescript',
+    }];
+
+    if (options.zod === 'yes') {
+      files.push({
+        filename: `${baseName}.schemas.ts`,
+        content: generateZod(model, style, title, `./${baseName}.types`),
+        mimeType: 'text/typescript',
+      });
+    }
+
+    return files;
+  },
+};
@@ -0,0 +1,37 @@
+// Minimal YAML writer for JSON-compatible data, enough for generated documents
+
+// Strings starting with a digit or "." are always quoted, as a parser could
+// read them as a number, date or time (e.g. 1_000, 0x1F, 2024-01-01, .inf)
+const PLAIN = /^[A-Za-z_/$][A-Za-z0-9_ ./${}()-]*$/;
+// Words YAML 1.1 reads as booleans or null
+const RESERVED = /^(true|false|null|yes|no|on|off|y|n)$/i;
+
+const scalar = (value: unknown): string => {
+  if (Array.isArray(value)) return '[]';
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'object') return '{}';
+  if (typeof value !== 'string') return String(value);
+  if (PLAIN.test(value) && !RESERVED.test(value) && !value.endsWith(' ')) return value;
+  return JSON.stringify(value);
+};
+
+// Non-empty collections are written as indented blocks, everything else inline
+const isBlock = (value: unknown) =>
+  typeof value === 'object' && value !== null && Object.keys(value).length > 0;
+
+const toLines = (value: object): string[] => {
+  if (Array.isArray(value)) {
+    return value.flatMap(item => {
+      if (!isBlock(item)) return [`- ${scalar(item)}`];
+      const [first, ...rest] = toLines(item);
+      return [`- ${first}`, ...rest.map(line => `  ${line}`)];
+    });
+  }
+  return Object.entries(value).flatMap(([key, item]) =>
+    isBlock(item)
+      ? [`${scalar(key)}:`, ...toLines(item).map(line => `  ${line}`)]
+      : [`${scalar(key)}: ${scalar(item)}`]
+  );
+};
+
+export const toYaml = (value: object) => toLines(value).join('\n') + '\n';
@@ -0,0 +1,86 @@
+import { isListTypeName, parseMultiplicity, parseTypeName } from '../exporters/diagramNotation';
+import { ModelBuilder } from './modelBuilder';
+
+// Class diagram syntax shared by Mermaid and PlantUML
+
+export const unquote = (text: string) => text.trim().replace(/^"(.*)"$/, '$1');
+
+// Attribute ("+String name", "name : String") or method ("+approve()") line
+export const addClassMember = (builder: ModelBuilder, diagramId: string, line: string) => {
+  // Skip separators ("--", "==", "..") and stereotypes
+  if (/^[-=._]{2,}/.test(line.trim())) return;
+
+  const member = line
+    .trim()
+    .replace(/^\{(static|abstract|field|method)\}\s*/i, '')
+    .replace(/^[+\-#~*]\s*/, '')
+    .replace(/[$*]$/, '')
+    .trim();
+  if (!member || member.startsWith('<<')) return;
+
+  const method = member.match(/(\w+)\s*\(/);
+  if (method) {
+    builder.addAction(diagramId, method[1]);
+    return;
+  }
+
+  const colon = member.match(/^(\w+)\s*:\s*(.+)$/);
+  if (colon) {
+    builder.addAttribute(diagramId, colon[1], parseTypeName(colon[2]), isListTypeName(colon[2]));
+    return;
+  }
+
+  const words = member.split(/\s+/);
+  if (words.length === 1) {
+    builder.addAttribute(diagramId, words[0], 'string');
+  } else {
+    builder.addAttribute(diagramId, words[words.length - 1], parseTypeName(words[0]), isListTypeName(words[0]));
+  }
+};
+
+const RELATION = new RegExp(
+  '^(\\w+|"[^"]+")\\s*(?:"([^"]*)")?\\s*' +
+  '(<\\|?|\\*|o)?([-.]+(?:\\[[^\\]]*\\]|up|down|left|right)?[-.]*)(\\|?>|\\*|o)?' +
+  '\\s*(?:"([^"]*)")?\\s*(\\w+|"[^"]+")\\s*(?::\\s*(.*))?$'
+);
+
+// Read a relationship line such as `Customer "1" *-- "0..*" Order : contains`.
+// The diamond end becomes the container and arrows point from `from` to `to`.
+// Returns false when the line isn't a relationship.
+export const addClassRelationship = (builder: ModelBuilder, line: string, entityName: (id: string) => string) => {
+  const match = line.trim().match(RELATION);
+  if (!match) return false;
+
+  const [, left, leftMultiplicity, leftHead = '', , rightHead = '', rightMultiplicity, right, rawLabel] = match;
+  const label = rawLabel ? unquote(rawLabel) : '';
+  let from = { id: left, multiplicity: leftMultiplicity };
+  let to = { id: right, multiplicity: rightMultiplicity };
+  let defaultLabel = 'relates to';
+
+  const swap = () => {
+    [from, to] = [to, from];
+  };
+
+  if (leftHead === '*' || leftHead === 'o') {
+    defaultLabel = 'contains';
+  } else if (rightHead === '*' || rightHead === 'o') {
+    defaultLabel = 'contains';
+    swap();
+  } else if (leftHead === '<|') {
+    defaultLabel = 'is a';
+    swap();
+  } else if (rightHead === '|>') {
+    defaultLabel = 'is a';
+  } else if (leftHead === '<' && rightHead !== '>') {
+    swap();
+  }
+
+  builder.addRelationship(
+    entityName(from.id),
+    entityName(to.id),
+    label || defaultLabel,
+    parseMultiplicity(from.multiplicity),
+    parseMultiplicity(to.multiplicity)
+  );
+  return true;
+};
@@ -0,0 +1,44 @@
+import { Model } from '../types';
+import { parseMermaidClassDiagram, parseMermaidErDiagram } from './mermaid';
+import { parsePlantUml } from './plantuml';
+
+export type DiagramFormat = 'mermaid-class' | 'mermaid-er' | 'plantuml';
+
+export const DIAGRAM_FORMAT_LABELS: Record<DiagramFormat, string> = {
+  'mermaid-class': 'Mermaid class diagram',
+  'mermaid-er': 'Mermaid ER diagram',
+  'plantuml': 'PlantUML',
+};
+
+const detectFormat = (text: string): DiagramFormat | null => {
+  if (/@startuml/i.test(text)) return 'plantuml';
+  if (/^\s*erDiagram\b/m.test(text)) return 'mermaid-er';
+  if (/^\s*classDiagram\b/m.test(text)) return 'mermaid-class';
+  return null;
+};
+
+// Markdown pages can hold several diagrams; use the first one we can read
+const extractDiagram = (text: string) => {
+  const fences = [...text.matchAll(/```[^\n]*\n([\s\S]*?)```/g)].map(match => match[1]);
+  return fences.find(block => detectFormat(block)) ?? text;
+};
+
+// Read a Mermaid or PlantUML diagram, pasted on its own or inside Markdown
+export const parseDiagram = (text: string): { model: Model; format: DiagramFormat } => {
+  const diagram = extractDiagram(text);
+  const format = detectFormat(diagram);
+  if (!format) {
+    throw new Error('Expected a Mermaid classDiagram or erDiagram, or a PlantUML @startuml block');
+  }
+
+  const model = format === 'plantuml'
+    ? parsePlantUml(diagram)
+    : format === 'mermaid-er'
+      ? parseMermaidErDiagram(diagram)
+      : parseMermaidClassDiagram(diagram);
+
+  if (model.entities.length === 0) {
+    throw new Error(`No entities found in the ${DIAGRAM_FORMAT_LABELS[format]}`);
+  }
+  return { model, format };
+};
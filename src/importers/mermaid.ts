@@ -0,0 +1,128 @@
+import { Cardinality, Model, Transition } from '../types';
+import { DEFAULT_CARDINALITY } from '../utils/cardinality';
+import { isListTypeName, parseStatesComment, parseTransitionComment, parseTypeName } from '../exporters/diagramNotation';
+import { addClassMember, addClassRelationship, unquote } from './classSyntax';
+import { createModelBuilder } from './modelBuilder';
+
+const ER_LEFT: Record<string, Cardinality> = { '|o': '0..1', '||': '1', '}o': '0..n', '}|': '1..n' };
+const ER_RIGHT: Record<string, Cardinality> = { 'o|': '0..1', '||': '1', 'o{': '0..n', '|{': '1..n' };
+
+const erCardinality = (markers: Record<string, Cardinality>, marker: string) => {
+  const cardinality = markers[marker];
+  return cardinality === DEFAULT_CARDINALITY ? undefined : cardinality;
+};
+
+// Diagram lines without front matter, comments and blank lines. States and
+// transition comments are returned separately.
+const diagramLines = (text: string) => {
+  const lines: string[] = [];
+  const states: { id: string; states: string[] }[] = [];
+  const transitions: { id: string; transition: Transition }[] = [];
+  let inFrontMatter = false;
+
+  text.split('\n').forEach(raw => {
+    const line = raw.trim();
+    if (line === '---' && (inFrontMatter || lines.length === 0)) {
+      inFrontMatter = !inFrontMatter;
+      return;
+    }
+    if (inFrontMatter || !line) return;
+    if (line.startsWith('%%')) {
+      const comment = line.slice(2);
+      const parsed = parseStatesComment(comment);
+      if (parsed) states.push(parsed);
+      const transition = parseTransitionComment(comment);
+      if (transition) transitions.push(transition);
+      return;
+    }
+    lines.push(line);
+  });
+
+  return { lines, states, transitions };
+};
+
+// Entity name from a `Id["Label"]` or `Id[Label]` declaration
+const ENTITY_DECLARATION = /^([\w-]+)(?:~[^~]*~)?(?:\[("[^"]*"|[^\]]*)\])?(?::::\w+)?\s*(\{)?\s*(\})?$/;
+
+export const parseMermaidClassDiagram = (text: string): Model => {
+  const builder = createModelBuilder();
+  const { lines, states, transitions } = diagramLines(text);
+  let openClass: string | null = null;
+
+  lines.forEach(line => {
+    if (openClass) {
+      if (line === '}') {
+        openClass = null;
+      } else {
+        addClassMember(builder, openClass, line);
+      }
+      return;
+    }
+
+    if (/^(classDiagram|direction|note|click|link|callback|style|classDef|cssClass)\b/.test(line) || line.startsWith('<<')) {
+      return;
+    }
+
+    const declaration = line.match(/^class\s+(.*)$/);
+    if (declaration) {
+      const match = declaration[1].match(ENTITY_DECLARATION);
+      if (!match) return;
+      const [, id, label, open, close] = match;
+      builder.entity(id, label ? unquote(label) : undefined);
+      if (open && !close) openClass = id;
+      return;
+    }
+
+    if (addClassRelationship(builder, line, unquote)) return;
+
+    const member = line.match(/^(\w+)\s*:\s*(.+)$/);
+    if (member) {
+      addClassMember(builder, member[1], member[2]);
+    }
+  });
+
+  states.forEach(({ id, states }) => builder.setStates(id, states));
+  transitions.forEach(({ id, transition }) => builder.addTransition(id, transition));
+  return builder.build();
+};
+
+const ER_RELATION = /^([\w-]+)\s*([|}][o|])(--|\.\.)([o|][|{])\s*([\w-]+)\s*:\s*(.+)$/;
+
+export const parseMermaidErDiagram = (text: string): Model => {
+  const builder = createModelBuilder();
+  const { lines, states, transitions } = diagramLines(text);
+  let openEntity: string | null = null;
+
+  lines.forEach(line => {
+    if (openEntity) {
+      if (line === '}') {
+        openEntity = null;
+        return;
+      }
+      // type name [PK|FK|UK] ["comment"]
+      const [type, name] = line.split(/\s+/);
+      if (type && name) builder.addAttribute(openEntity, name, parseTypeName(type), isListTypeName(type));
+      return;
+    }
+
+    if (/^(erDiagram|direction|style|classDef)\b/.test(line)) return;
+
+    const relation = line.match(ER_RELATION);
+    if (relation) {
+      const [, from, left, , right, to, label] = relation;
+      builder.addRelationship(from, to, unquote(label), erCardinality(ER_LEFT, left), erCardinality(ER_RIGHT, right));
+      return;
+    }
+
+    const declaration = line.match(ENTITY_DECLARATION);
+    if (declaration) {
+      const [, id, label, open, close] = declaration;
+      builder.entity(id, label ? unquote(label) : undefined);
+      if (open && !close) openEntity = id;
+    }
+  });
+
+  states.forEach(({ id, states }) => builder.setStates(id, states));
+  transitions.forEach(({ id, transition }) => builder.addTransition(id, transition));
+  return builder.build();
+};
@@ -0,0 +1,77 @@
+import { Attribute, Cardinality, Entity, Model, Relationship, Transition } from '../types';
+
+export interface ModelBuilder {
+  // Find or create the entity a diagram refers to by id, optionally naming it
+  entity: (diagramId: string, name?: string) => Entity;
+  addAttribute: (diagramId: string, name: string, type: Attribute['type'], list?: boolean) => void;
+  addAction: (diagramId: string, name: string) => void;
+  setStates: (diagramId: string, states: string[]) => void;
+  // Also adds the transition's action, for diagrams that don't list actions
+  addTransition: (diagramId: string, transition: Transition) => void;
+  addRelationship: (
+    from: string,
+    to: string,
+    label: string,
+    fromCardinality?: Cardinality,
+    toCardinality?: Cardinality
+  ) => void;
+  build: () => Model;
+}
+
+// Collects entities and relationships while a diagram is parsed, in the
+// order they first appear
+export const createModelBuilder = (): ModelBuilder => {
+  const stamp = Date.now();
+  const entities = new Map<string, Entity>();
+  const relationships: Relationship[] = [];
+
+  const entity = (diagramId: string, name?: string) => {
+    let existing = entities.get(diagramId);
+    if (!existing) {
+      existing = {
+        id: `entity-${stamp}-${entities.size}`,
+        name: diagramId,
+        order: entities.size,
+        attributes: [],
+        states: [],
+        actions: [],
+      };
+      entities.set(diagramId, existing);
+    }
+    if (name) existing.name = name;
+    return existing;
+  };
+
+  const addAction = (diagramId: string, name: string) => {
+    const target = entity(diagramId);
+    if (!target.actions.includes(name)) target.actions.push(name);
+  };
+
+  return {
+    entity,
+    addAttribute: (diagramId, name, type, list = false) => {
+      entity(diagramId).attributes.push(list ? { name, type, multiplicity: 'list' } : { name, type });
+    },
+    addAction,
+    setStates: (diagramId, states) => {
+      entity(diagramId).states = states;
+    },
+    addTransition: (diagramId, transition) => {
+      addAction(diagramId, transition.action);
+      const target = entity(diagramId);
+      target.transitions = [...(target.transitions || []), transition];
+    },
+    addRelationship: (from, to, label, fromCardinality, toCardinality) => {
+      const relationship: Relationship = {
+        id: `rel-${stamp}-${relationships.length}`,
+        from: entity(from).id,
+        to: entity(to).id,
+        label,
+      };
+      if (fromCardinality) relationship.fromCardinality = fromCardinality;
+      if (toCardinality) relationship.toCardinality = toCardinality;
+      relationships.push(relationship);
+    },
+    build: () => ({ entities: [...entities.values()], relationships }),
+  };
+};
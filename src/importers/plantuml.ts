@@ -0,0 +1,78 @@
+import { Model } from '../types';
+import { parseStatesComment, parseTransitionComment } from '../exporters/diagramNotation';
+import { addClassMember, addClassRelationship, unquote } from './classSyntax';
+import { createModelBuilder } from './modelBuilder';
+
+// `class Name`, `class "Label" as Id`, `entity Id as "Label" {` and similar
+const DECLARATION = /^(?:abstract\s+class|abstract|class|entity|interface)\s+("[^"]+"|[\w.]+)(?:\s+as\s+("[^"]+"|[\w.]+))?(?:\s*<<[^>]*>>)?(?:\s*#\S+)?\s*(\{)?\s*(\})?$/i;
+
+export const parsePlantUml = (text: string): Model => {
+  const builder = createModelBuilder();
+  // Entities declared with a label and an alias are referred to by either
+  const aliases = new Map<string, string>();
+  const entityId = (reference: string) => aliases.get(unquote(reference)) ?? unquote(reference);
+
+  let inDiagram = !/@startuml/i.test(text);
+  let openClass: string | null = null;
+  let inBlockComment = false;
+
+  text.split('\n').forEach(raw => {
+    const line = raw.trim();
+    if (/^@startuml/i.test(line)) {
+      inDiagram = true;
+      return;
+    }
+    if (/^@enduml/i.test(line)) {
+      inDiagram = false;
+      return;
+    }
+    if (!inDiagram || !line) return;
+
+    if (inBlockComment) {
+      if (line.includes("'/")) inBlockComment = false;
+      return;
+    }
+    if (line.startsWith("/'")) {
+      inBlockComment = !line.includes("'/", 2);
+      return;
+    }
+    if (line.startsWith("'")) {
+      const parsed = parseStatesComment(line.slice(1));
+      if (parsed) builder.setStates(entityId(parsed.id), parsed.states);
+      const transition = parseTransitionComment(line.slice(1));
+      if (transition) builder.addTransition(entityId(transition.id), transition.transition);
+      return;
+    }
+
+    if (openClass) {
+      if (line === '}') {
+        openClass = null;
+      } else {
+        addClassMember(builder, openClass, line);
+      }
+      return;
+    }
+
+    const declaration = line.match(DECLARATION);
+    if (declaration) {
+      const [, first, second, open, close] = declaration;
+      // Either `"Label" as Id` or `Id as "Label"`
+      const firstQuoted = first.startsWith('"');
+      const id = second ? unquote(firstQuoted ? second : first) : unquote(first);
+      const label = second ? unquote(firstQuoted ? first : second) : undefined;
+      if (label) aliases.set(label, id);
+      builder.entity(id, label);
+      if (open && !close) openClass = id;
+      return;
+    }
+
+    if (addClassRelationship(builder, line, entityId)) return;
+
+    const member = line.match(/^(\w+)\s*:\s*(.+)$/);
+    if (member) {
+      addClassMember(builder, entityId(member[1]), member[2]);
+    }
+  });
+
+  return builder.build();
+};
@@ -0,0 +1,863 @@
+import {
+  ActionPermission,
+  Comment,
+  CommentTarget,
+  CommentThread,
+  Attribute,
+  AttributeMultiplicity,
+  AttributeRole,
+  Cardinality,
+  CustomType,
+  CustomTypeKind,
+  Entity,
+  Model,
+  Position,
+  PrimitiveType,
+  Relationship,
+  RelationshipKind,
+  RelationshipType,
+  Role,
+  Snapshot,
+  Transition
+} from '../types';
+import { CARDINALITIES } from '../utils/cardinality';
+import { RELATIONSHIP_KINDS } from '../utils/relationships';
+
+// Version of the model format, written by the JSON export and autosave
+export const MODEL_VERSION = '1.1';
+
+export const ATTRIBUTE_TYPES: PrimitiveType[] = ['string', 'number', 'boolean', 'date', 'enum'];
+
+export const ATTRIBUTE_ROLES: AttributeRole[] = ['core', 'metadata'];
+
+export const ATTRIBUTE_MULTIPLICITIES: AttributeMultiplicity[] = ['single', 'list'];
+
+export const CUSTOM_TYPE_KINDS: CustomTypeKind[] = ['constrained', 'composite'];
+
+export { RELATIONSHIP_KINDS };
+
+export type ValidationMode = 'strict' | 'lenient';
+
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
+export type ModelFileResult =
+  | { ok: true; model: Model; version: string; migrations: string[]; repairs: string[] }
+  | { ok: false; errors: FieldError[] };
+
+type RawObject = Record<string, unknown>;
+
+interface Migration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (data: RawObject) => RawObject;
+}
+
+// Each step upgrades a file by one version, until it reaches MODEL_VERSION
+const migrations: Migration[] = [
+  {
+    // Files written before the version field existed could leave out empty
+    // lists and relied on array position for ordering
+    from: '0',
+    to: '1.0',
+    description: 'Added version, ordering and empty lists to an unversioned file',
+    migrate: (data) => ({
+      ...data,
+      entities: Array.isArray(data.entities)
+        ? data.entities.map((entity: RawObject, index: number) => ({
+          attributes: [],
+          states: [],
+          actions: [],
+          order: index,
+          ...entity
+        }))
+        : data.entities,
+      relationships: data.relationships ?? []
+    })
+  },
+  {
+    // "belongs to" used to be another way of writing "contains", reading
+    // "from contains to". It's now the inverse wording of "contains", so
+    // those relationships are relabelled.
+    from: '1.0',
+    to: '1.1',
+    description: 'Relabelled "belongs to" relationships as "contains"',
+    migrate: (data) => ({
+      ...data,
+      relationships: Array.isArray(data.relationships)
+        ? data.relationships.map((rel: RawObject) => (isObject(rel) && rel.label === 'belongs to' ? { ...rel, label: 'contains' } : rel))
+        : data.relationships
+    })
+  }
+];
+
+export const migrateModelFile = (data: RawObject): { data: RawObject; version: string; applied: string[] } => {
+  let version = typeof data.version === 'string' ? data.version : '0';
+  let current = data;
+  const applied: string[] = [];
+
+  while (version !== MODEL_VERSION) {
+    const migration = migrations.find(m => m.from === version);
+    if (!migration) {
+      throw new Error(`Unsupported file version "${version}" (this app reads version ${MODEL_VERSION} and older)`);
+    }
+    current = { ...migration.migrate(current), version: migration.to };
+    applied.push(`${migration.from} → ${migration.to}: ${migration.description}`);
+    version = migration.to;
+  }
+
+  return { data: current, version, applied };
+};
+
+// Collects problems while reading. In lenient mode a problem that has a repair
+// is fixed and recorded; otherwise it is reported as an error.
+interface Reader {
+  errors: FieldError[];
+  repairs: string[];
+  // Returns true when the caller should apply its repair
+  problem: (path: string, message: string, repair?: string) => boolean;
+}
+
+const createReader = (mode: ValidationMode): Reader => {
+  const errors: FieldError[] = [];
+  const repairs: string[] = [];
+
+  return {
+    errors,
+    repairs,
+    problem: (path, message, repair) => {
+      if (mode === 'lenient' && repair) {
+        repairs.push(`${path}: ${message}; ${repair}`);
+        return true;
+      }
+      errors.push({ path, message });
+      return false;
+    }
+  };
+};
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readStringList = (reader: Reader, raw: unknown, path: string): string[] => {
+  if (!Array.isArray(raw)) {
+    reader.problem(path, 'must be an array of strings', 'replaced with an empty list');
+    return [];
+  }
+  return raw.flatMap((value, i) => {
+    if (typeof value === 'string') return [value];
+    reader.problem(`${path}[${i}]`, 'must be a string', 'removed');
+    return [];
+  });
+};
+
+const readAttribute = (reader: Reader, raw: unknown, path: string): Attribute | null => {
+  if (!isObject(raw)) {
+    reader.problem(path, 'must be an object', 'removed');
+    return null;
+  }
+
+  let name = raw.name;
+  if (typeof name !== 'string') {
+    name = reader.problem(`${path}.name`, 'must be a string', 'set to an empty name') ? '' : name;
+  }
+
+  let type = raw.type;
+  if (!ATTRIBUTE_TYPES.includes(type as Attribute['type'])) {
+    const message = `must be one of ${ATTRIBUTE_TYPES.join(', ')} (got ${JSON.stringify(type)})`;
+    type = reader.problem(`${path}.type`, message, 'set to string') ? 'string' : type;
+  }
+
+  const attribute: Attribute = { name: name as string, type: type as Attribute['type'] };
+
+  if (raw.role !== undefined) {
+    if (ATTRIBUTE_ROLES.includes(raw.role as AttributeRole)) {
+      attribute.role = raw.role as AttributeRole;
+    } else {
+      reader.problem(`${path}.role`, `must be one of ${ATTRIBUTE_ROLES.join(', ')}`, 'removed');
+    }
+  }
+
+  if (raw.multiplicity !== undefined) {
+    if (ATTRIBUTE_MULTIPLICITIES.includes(raw.multiplicity as AttributeMultiplicity)) {
+      attribute.multiplicity = raw.multiplicity as AttributeMultiplicity;
+    } else {
+      reader.problem(`${path}.multiplicity`, `must be one of ${ATTRIBUTE_MULTIPLICITIES.join(', ')}`, 'removed');
+    }
+  }
+
+  if (raw.enumValues !== undefined) {
+    attribute.enumValues = readStringList(reader, raw.enumValues, `${path}.enumValues`);
+  }
+
+  for (const field of ['required', 'unique'] as const) {
+    const value = raw[field];
+    if (value === undefined) continue;
+    if (typeof value === 'boolean') {
+      attribute[field] = value;
+    } else {
+      reader.problem(`${path}.${field}`, 'must be true or false', 'removed');
+    }
+  }
+
+  for (const field of ['customType', 'defaultValue', 'description'] as const) {
+    const value = raw[field];
+    if (value === undefined) continue;
+    if (typeof value === 'string') {
+      attribute[field] = value;
+    } else {
+      reader.problem(`${path}.${field}`, 'must be a string', 'removed');
+    }
+  }
+
+  return attribute;
+};
+
+const readAttributes = (reader: Reader, raw: unknown, path: string): Attribute[] => {
+  if (!Array.isArray(raw)) {
+    reader.problem(path, 'must be an array', 'replaced with an empty list');
+    return [];
+  }
+  return raw
+    .map((attr, i) => readAttribute(reader, attr, `${path}[${i}]`))
+    .filter((attr): attr is Attribute => attr !== null);
+};
+
+const readCustomType = (reader: Reader, raw: unknown, path: string, index: number, seenIds: Set<string>): CustomType | null => {
+  if (!isObject(raw)) {
+    reader.problem(path, 'must be an object', 'removed');
+    return null;
+  }
+
+  const id = raw.id;
+  if (typeof id !== 'string' || !id || seenIds.has(id)) {
+    const message = typeof id === 'string' && id ? `duplicates another custom type's id "${id}"` : 'must be a non-empty string';
+    if (reader.problem(`${path}.id`, message, 'removed the custom type')) return null;
+  }
+  seenIds.add(id as string);
+
+  let name = raw.name;
+  if (typeof name !== 'string') {
+    name = reader.problem(`${path}.name`, 'must be a string', `set to "Type ${index + 1}"`) ? `Type ${index + 1}` : name;
+  }
+
+  let kind = raw.kind;
+  if (!CUSTOM_TYPE_KINDS.includes(kind as CustomTypeKind)) {
+    const message = `must be one of ${CUSTOM_TYPE_KINDS.join(', ')}`;
+    kind = reader.problem(`${path}.kind`, message, 'set to constrained') ? 'constrained' : kind;
+  }
+
+  let base = raw.base ?? 'string';
+  if (!ATTRIBUTE_TYPES.includes(base as PrimitiveType)) {
+    const message = `must be one of ${ATTRIBUTE_TYPES.join(', ')}`;
+    base = reader.problem(`${path}.base`, message, 'set to string') ? 'string' : base;
+  }
+
+  const customType: CustomType = {
+    id: id as string,
+    name: name as string,
+    kind: kind as CustomTypeKind,
+    base: base as PrimitiveType,
+    fields: raw.fields === undefined ? [] : readAttributes(reader, raw.fields, `${path}.fields`)
+  };
+
+  for (const field of ['pattern', 'description'] as const) {
+    const value = raw[field];
+    if (value === undefined) continue;
+    if (typeof value === 'string') {
+      customType[field] = value;
+    } else {
+      reader.problem(`${path}.${field}`, 'must be a string', 'removed');
+    }
+  }
+
+  for (const field of ['minLength', 'maxLength', 'minimum', 'maximum'] as const) {
+    const value = raw[field];
+    if (value === undefined) continue;
+    if (Number.isFinite(value)) {
+      customType[field] = value as number;
+    } else {
+      reader.problem(`${path}.${field}`, 'must be a number', 'removed');
+    }
+  }
+
+  return customType;
+};
+
+// Attributes may only refer to custom types defined in the same file
+const checkCustomTypeReferences = (reader: Reader, attributes: Attribute[], path: string, typeIds: Set<string>) => {
+  attributes.forEach((attr, i) => {
+    if (attr.customType === undefined || typeIds.has(attr.customType)) return;
+    const message = `must be the id of a custom type in this file (got ${JSON.stringify(attr.customType)})`;
+    if (reader.problem(`${path}[${i}].customType`, message, 'removed')) delete attr.customType;
+  });
+};
+
+const readTransition = (reader: Reader, raw: unknown, path: string): Transition | null => {
+  if (!isObject(raw)) {
+    reader.problem(path, 'must be an object', 'removed');
+    return null;
+  }
+
+  for (const field of ['from', 'to', 'action'] as const) {
+    if (typeof raw[field] !== 'string') {
+      reader.problem(`${path}.${field}`, 'must be a string', 'removed the transition');
+      return null;
+    }
+  }
+
+  const transition: Transition = { from: raw.from as string, to: raw.to as string, action: raw.action as string };
+
+  if (raw.guard !== undefined) {
+    if (typeof raw.guard === 'string') {
+      transition.guard = raw.guard;
+    } else {
+      reader.problem(`${path}.guard`, 'must be a string', 'removed');
+    }
+  }
+
+  return transition;
+};
+
+const readTransitions = (reader: Reader, raw: unknown, path: string): Transition[] => {
+  if (!Array.isArray(raw)) {
+    reader.problem(path, 'must be an array', 'replaced with an empty list');
+    return [];
+  }
+  return raw
+    .map((transition, i) => readTransition(reader, transition, `${path}[${i}]`))
+    .filter((transition): transition is Transition => transition !== null);
+};
+
+const readPermission = (reader: Reader, raw: unknown, path: string): ActionPermission | null => {
+  if (!isObject(raw)) {
+    reader.problem(path, 'must be an object', 'removed');
+    return null;
+  }
+
+  if (typeof raw.action !== 'string') {
+    reader.problem(`${path}.action`, 'must be a string', 'removed the permission');
+    return null;
+  }
+
+  const permission: ActionPermission = {
+    action: raw.action,
+    roleIds: raw.roleIds === undefined ? [] : readStringList(reader, raw.roleIds, `${path}.roleIds`)
+  };
+  if (raw.states !== undefined) {
+    permission.states = readStringList(reader, raw.states, `${path}.states`);
+  }
+
+  return permission;
+};
+
+const readPermissions = (reader: Reader, raw: unknown, path: string): ActionPermission[] => {
+  if (!Array.isArray(raw)) {
+    reader.problem(path, 'must be an array', 'replaced with an empty list');
+    return [];
+  }
+  return raw
+    .map((permission, i) => readPermission(reader, permission, `${path}[${i}]`))
+    .filter((permission): permission is ActionPermission => permission !== null);
+};
+
+const readRole = (reader: Reader, raw: unknown, path: string, index: number, seenIds: Set<string>): Role | null => {
+  if (!isObject(raw)) {
+    reader.problem(path, 'must be an object', 'removed');
+    return null;
+  }
+
+  const id = raw.id;
+  if (typeof id !== 'string' || !id || seenIds.has(id)) {
+    const message = typeof id === 'string' && id ? `duplicates another role's id "${id}"` : 'must be a non-empty string';
+    if (reader.problem(`${path}.id`, message, 'removed the role')) return null;
+  }
+  seenIds.add(id as string);
+
+  let name = raw.name;
+  if (typeof name !== 'string') {
+    name = reader.problem(`${path}.name`, 'must be a string', `set to "Role ${index + 1}"`) ? `Role ${index + 1}` : name;
+  }
+
+  const role: Role = { id: id as string, name: name as string };
+
+  if (raw.description !== undefined) {
+    if (typeof raw.description === 'string') {
+      role.description = raw.description;
+    } else {
+      reader.problem(`${path}.description`, 'must be a string', 'removed');
+    }
+  }
+
+  return role;
+};
+
+const readRelationshipType = (
+  reader: Reader,
+  raw: unknown,
+  path: string,
+  index: number,
+  seenIds: Set<string>
+): RelationshipType | null => {
+  if (!isObject(raw)) {
+    reader.problem(path, 'must be an object', 'removed');
+    return null;
+  }
+
+  const id = raw.id;
+  if (typeof id !== 'string' || !id || seenIds.has(id)) {
+    const message = typeof id === 'string' && id ? `duplicates another relationship type's id "${id}"` : 'must be a non-empty string';
+    if (reader.problem(`${path}.id`, message, 'removed the relationship type')) return null;
+  }
+  seenIds.add(id as string);
+
+  let label = raw.label;
+  if (typeof label !== 'string') {
+    label = reader.problem(`${path}.label`, 'must be a string', `set to "relationship ${index + 1}"`) ? `relationship ${index + 1}` : label;
+  }
+
+  let inverseLabel = raw.inverseLabel ?? '';
+  if (typeof inverseLabel !== 'string') {
+    inverseLabel = reader.problem(`${path}.inverseLabel`, 'must be a string', 'set to an empty label') ? '' : inverseLabel;
+  }
+
+  let kind = raw.kind ?? 'association';
+  if (!RELATIONSHIP_KINDS.includes(kind as RelationshipKind)) {
+    const message = `must be one of ${RELATIONSHIP_KINDS.join(', ')}`;
+    kind = reader.problem(`${path}.kind`, message, 'set to association') ? 'association' : kind;
+  }
+
+  return {
+    id: id as string,
+    label: label as string,
+    inverseLabel: inverseLabel as string,
+    kind: kind as RelationshipKind
+  };
+};
+
+const readComment = (reader: Reader, raw: unknown, path: string): Comment | null => {
+  if (!isObject(raw)) {
+    reader.problem(path, 'must be an object', 'removed');
+    return null;
+  }
+
+  const { id, author, text, createdAt } = raw;
+  if (typeof id !== 'string' || !id) {
+    if (reader.problem(`${path}.id`, 'must be a non-empty string', 'removed the comment')) return null;
+  }
+  if (typeof text !== 'string') {
+    if (reader.problem(`${path}.text`, 'must be a string', 'removed the comment')) return null;
+  }
+
+  let name = author;
+  if (typeof name !== 'string') {
+    name = reader.problem(`${path}.author`, 'must be a string', 'set to "Unknown"') ? 'Unknown' : name;
+  }
+
+  let timestamp = createdAt;
+  if (typeof timestamp !== 'string' || Number.isNaN(Date.parse(timestamp))) {
+    const repaired = new Date(0).toISOString();
+    timestamp = reader.problem(`${path}.createdAt`, 'must be an ISO date', `set to ${repaired}`) ? repaired : timestamp;
+  }
+
+  return { id: id as string, author: name as string, text: text as string, createdAt: timestamp as string };
+};
+
+// A thread must be about an entity, one of its attributes, or a relationship
+// read earlier from the same file
+const readCommentTarget = (reader: Reader, raw: unknown, path: string, model: Model): CommentTarget | null => {
+  if (!isObject(raw)) {
+    reader.problem(path, 'must be an object', 'removed the thread');
+    return null;
+  }
+
+  if (raw.relationshipId !== undefined) {
+    if (model.relationships.some(r => r.id === raw.relationshipId)) return { relationshipId: raw.relationshipId as string };
+    reader.problem(`${path}.relationshipId`, `refers to unknown relationship "${String(raw.relationshipId)}"`, 'removed the thread');
+    return null;
+  }
+
+  const entity = model.entities.find(e => e.id === raw.entityId);
+  if (!entity) {
+    reader.problem(`${path}.entityId`, `refers to unknown entity "${String(raw.entityId)}"`, 'removed the thread');
+    return null;
+  }
+
+  const index = raw.attributeIndex;
+  if (index === undefined) return { entityId: entity.id };
+  if (typeof index === 'number' && Number.isInteger(index) && index >= 0 && index < entity.attributes.length) {
+    return { entityId: entity.id, attributeIndex: index };
+  }
+  reader.problem(`${path}.attributeIndex`, `must be the index of one of ${entity.name}'s attributes`, 'moved the thread to the entity');
+  return { entityId: entity.id };
+};
+
+const readCommentThread = (
+  reader: Reader,
+  raw: unknown,
+  path: string,
+  model: Model,
+  seenIds: Set<string>
+): CommentThread | null => {
+  if (!isObject(raw)) {
+    reader.problem(path, 'must be an object', 'removed');
+    return null;
+  }
+
+  const id = raw.id;
+  if (typeof id !== 'string' || !id || seenIds.has(id)) {
+    const message = typeof id === 'string' && id ? `duplicates another thread's id "${id}"` : 'must be a non-empty string';
+    if (reader.problem(`${path}.id`, message, 'removed the thread')) return null;
+  }
+  seenIds.add(id as string);
+
+  const target = readCommentTarget(reader, raw.target, `${path}.target`, model);
+  if (!target) return null;
+
+  if (!Array.isArray(raw.comments)) {
+    reader.problem(`${path}.comments`, 'must be an array', 'removed the thread');
+    return null;
+  }
+  const comments = raw.comments
+    .map((comment, i) => readComment(reader, comment, `${path}.comments[${i}]`))
+    .filter((comment): comment is Comment => comment !== null);
+  if (comments.length === 0) {
+    reader.problem(`${path}.comments`, 'must have at least one comment', 'removed the thread');
+    return null;
+  }
+
+  const thread: CommentThread = { id: id as string, target, comments };
+  if (raw.resolved !== undefined) {
+    if (typeof raw.resolved === 'boolean') {
+      if (raw.resolved) thread.resolved = true;
+    } else {
+      reader.problem(`${path}.resolved`, 'must be true or false', 'reopened the thread');
+    }
+  }
+  if (thread.resolved) {
+    (['resolvedBy', 'resolvedAt'] as const).forEach(key => {
+      if (typeof raw[key] === 'string') thread[key] = raw[key] as string;
+    });
+  }
+  return thread;
+};
+
+// A snapshot holds a whole model of its own, read the same way as the file's
+const readSnapshot = (
+  reader: Reader,
+  raw: unknown,
+  path: string,
+  index: number,
+  seenIds: Set<string>,
+  mode: ValidationMode
+): Snapshot | null => {
+  if (!isObject(raw)) {
+    reader.problem(path, 'must be an object', 'removed');
+    return null;
+  }
+
+  const id = raw.id;
+  if (typeof id !== 'string' || !id || seenIds.has(id)) {
+    const message = typeof id === 'string' && id ? `duplicates another snapshot's id "${id}"` : 'must be a non-empty string';
+    if (reader.problem(`${path}.id`, message, 'removed the snapshot')) return null;
+  }
+  seenIds.add(id as string);
+
+  let name = raw.name;
+  if (typeof name !== 'string') {
+    name = reader.problem(`${path}.name`, 'must be a string', `set to "Snapshot ${index + 1}"`) ? `Snapshot ${index + 1}` : name;
+  }
+
+  let createdAt = raw.createdAt;
+  if (typeof createdAt !== 'string' || Number.isNaN(Date.parse(createdAt))) {
+    const repaired = new Date(0).toISOString();
+    createdAt = reader.problem(`${path}.createdAt`, 'must be an ISO date', `set to ${repaired}`) ? repaired : createdAt;
+  }
+
+  if (!isObject(raw.model)) {
+    reader.problem(`${path}.model`, 'must be an object', 'removed the snapshot');
+    return null;
+  }
+  const { snapshots: _nested, ...content } = raw.model;
+  const nested = readModel(content, mode);
+  if (nested.errors.length > 0) {
+    if (reader.problem(`${path}.model`, `has ${nested.errors.length} problem(s)`, 'removed the snapshot')) return null;
+    reader.errors.push(...nested.errors.map(e => ({ ...e, path: `${path}.model.${e.path}` })));
+  }
+  reader.repairs.push(...nested.repairs.map(repair => `${path}.model.${repair}`));
+
+  return { id: id as string, name: name as string, createdAt: createdAt as string, model: nested.model };
+};
+
+// Permissions may only grant roles defined in the same file
+const checkRoleReferences = (reader: Reader, permissions: ActionPermission[], path: string, roleIds: Set<string>) => {
+  permissions.forEach((permission, i) => {
+    permission.roleIds.forEach(roleId => {
+      if (roleIds.has(roleId)) return;
+      const message = `must only contain ids of roles in this file (got ${JSON.stringify(roleId)})`;
+      if (reader.problem(`${path}[${i}].roleIds`, message, 'removed the unknown role')) {
+        permission.roleIds = permission.roleIds.filter(id => id !== roleId);
+      }
+    });
+  });
+};
+
+const readPosition = (reader: Reader, raw: unknown, path: string): Position | undefined => {
+  if (raw === undefined) return undefined;
+  if (isObject(raw) && Number.isFinite(raw.x) && Number.isFinite(raw.y)) {
+    return { x: raw.x as number, y: raw.y as number };
+  }
+  reader.problem(path, 'must be an object with numeric x and y', 'removed');
+  return undefined;
+};
+
+const readEntity = (reader: Reader, raw: unknown, path: string, index: number, seenIds: Set<string>): Entity | null => {
+  if (!isObject(raw)) {
+    reader.problem(path, 'must be an object', 'removed');
+    return null;
+  }
+
+  let id = raw.id;
+  if (typeof id !== 'string' || !id) {
+    id = reader.problem(`${path}.id`, 'must be a non-empty string', 'generated a new id') ? `entity-${Date.now()}-${index}` : id;
+  } else if (seenIds.has(id)) {
+    id = reader.problem(`${path}.id`, `duplicates another entity's id "${id}"`, 'generated a new id') ? `${id}-${index}` : id;
+  }
+  seenIds.add(id as string);
+
+  let name = raw.name;
+  if (typeof name !== 'string') {
+    name = reader.problem(`${path}.name`, 'must be a string', 'set to "Unnamed entity"') ? 'Unnamed entity' : name;
+  }
+
+  let order = raw.order;
+  if (!Number.isFinite(order)) {
+    order = reader.problem(`${path}.order`, 'must be a number', `set to ${index}`) ? index : order;
+  }
+
+  const entity: Entity = {
+    id: id as string,
+    name: name as string,
+    order: order as number,
+    attributes: readAttributes(reader, raw.attributes, `${path}.attributes`),
+    states: readStringList(reader, raw.states, `${path}.states`),
+    actions: readStringList(reader, raw.actions, `${path}.actions`)
+  };
+
+  if (raw.transitions !== undefined) {
+    entity.transitions = readTransitions(reader, raw.transitions, `${path}.transitions`);
+  }
+
+  if (raw.permissions !== undefined) {
+    entity.permissions = readPermissions(reader, raw.permissions, `${path}.permissions`);
+  }
+
+  const position = readPosition(reader, raw.position, `${path}.position`);
+  if (position) entity.position = position;
+
+  return entity;
+};
+
+const readRelationship = (
+  reader: Reader,
+  raw: unknown,
+  path: string,
+  index: number,
+  entityIds: Set<string>,
+  seenIds: Set<string>
+): Relationship | null => {
+  if (!isObject(raw)) {
+    reader.problem(path, 'must be an object', 'removed');
+    return null;
+  }
+
+  let id = raw.id;
+  if (typeof id !== 'string' || !id) {
+    id = reader.problem(`${path}.id`, 'must be a non-empty string', 'generated a new id') ? `rel-${Date.now()}-${index}` : id;
+  } else if (seenIds.has(id)) {
+    id = reader.problem(`${path}.id`, `duplicates another relationship's id "${id}"`, 'generated a new id') ? `${id}-${index}` : id;
+  }
+  seenIds.add(id as string);
+
+  for (const end of ['from', 'to'] as const) {
+    const endpoint = raw[end];
+    if (typeof endpoint !== 'string' || !entityIds.has(endpoint)) {
+      const message = `must be the id of an entity in this file (got ${JSON.stringify(endpoint)})`;
+      if (reader.problem(`${path}.${end}`, message, 'removed the relationship')) return null;
+    }
+  }
+
+  let label = raw.label;
+  if (typeof label !== 'string') {
+    label = reader.problem(`${path}.label`, 'must be a string', 'set to "relates to"') ? 'relates to' : label;
+  }
+
+  const relationship: Relationship = {
+    id: id as string,
+    from: raw.from as string,
+    to: raw.to as string,
+    label: label as string
+  };
+
+  for (const field of ['fromCardinality', 'toCardinality'] as const) {
+    const value = raw[field];
+    if (value === undefined) continue;
+    if (CARDINALITIES.includes(value as Cardinality)) {
+      relationship[field] = value as Cardinality;
+    } else {
+      reader.problem(`${path}.${field}`, `must be one of ${CARDINALITIES.join(', ')}`, 'removed');
+    }
+  }
+
+  for (const field of ['fromRequired', 'toRequired'] as const) {
+    const value = raw[field];
+    if (value === undefined) continue;
+    if (typeof value === 'boolean') {
+      relationship[field] = value;
+    } else {
+      reader.problem(`${path}.${field}`, 'must be true or false', 'removed');
+    }
+  }
+
+  return relationship;
+};
+
+// Read the entities, relationships and model-level catalogues of an already-migrated file
+export const readModel = (data: RawObject, mode: ValidationMode): { model: Model; errors: FieldError[]; repairs: string[] } => {
+  const reader = createReader(mode);
+  const entities: Entity[] = [];
+  const relationships: Relationship[] = [];
+  const customTypes: CustomType[] = [];
+  const roles: Role[] = [];
+  let relationshipTypes: RelationshipType[] | undefined;
+
+  if (data.customTypes !== undefined) {
+    if (Array.isArray(data.customTypes)) {
+      const seenIds = new Set<string>();
+      data.customTypes.forEach((raw, i) => {
+        const customType = readCustomType(reader, raw, `customTypes[${i}]`, i, seenIds);
+        if (customType) customTypes.push(customType);
+      });
+    } else {
+      reader.problem('customTypes', 'must be an array', 'removed');
+    }
+  }
+
+  if (data.roles !== undefined) {
+    if (Array.isArray(data.roles)) {
+      const seenIds = new Set<string>();
+      data.roles.forEach((raw, i) => {
+        const role = readRole(reader, raw, `roles[${i}]`, i, seenIds);
+        if (role) roles.push(role);
+      });
+    } else {
+      reader.problem('roles', 'must be an array', 'removed');
+    }
+  }
+
+  // Kept even when empty, since an empty catalogue replaces the default one
+  if (data.relationshipTypes !== undefined) {
+    if (Array.isArray(data.relationshipTypes)) {
+      const seenIds = new Set<string>();
+      relationshipTypes = data.relationshipTypes
+        .map((raw, i) => readRelationshipType(reader, raw, `relationshipTypes[${i}]`, i, seenIds))
+        .filter((type): type is RelationshipType => type !== null);
+    } else {
+      reader.problem('relationshipTypes', 'must be an array', 'removed');
+    }
+  }
+
+  if (Array.isArray(data.entities)) {
+    const seenIds = new Set<string>();
+    data.entities.forEach((raw, i) => {
+      const entity = readEntity(reader, raw, `entities[${i}]`, i, seenIds);
+      if (entity) entities.push(entity);
+    });
+  } else {
+    reader.errors.push({ path: 'entities', message: 'missing or not an array' });
+  }
+
+  if (Array.isArray(data.relationships)) {
+    const entityIds = new Set(entities.map(e => e.id));
+    const seenIds = new Set<string>();
+    data.relationships.forEach((raw, i) => {
+      const relationship = readRelationship(reader, raw, `relationships[${i}]`, i, entityIds, seenIds);
+      if (relationship) relationships.push(relationship);
+    });
+  } else {
+    reader.errors.push({ path: 'relationships', message: 'missing or not an array' });
+  }
+
+  const typeIds = new Set(customTypes.map(t => t.id));
+  customTypes.forEach((t, i) => checkCustomTypeReferences(reader, t.fields, `customTypes[${i}].fields`, typeIds));
+  entities.forEach((e, i) => checkCustomTypeReferences(reader, e.attributes, `entities[${i}].attributes`, typeIds));
+
+  const roleIds = new Set(roles.map(role => role.id));
+  entities.forEach((e, i) => {
+    if (e.permissions) checkRoleReferences(reader, e.permissions, `entities[${i}].permissions`, roleIds);
+  });
+
+  const model: Model = { entities, relationships };
+  if (customTypes.length > 0) model.customTypes = customTypes;
+  if (roles.length > 0) model.roles = roles;
+  if (relationshipTypes) model.relationshipTypes = relationshipTypes;
+
+  if (data.commentThreads !== undefined) {
+    if (Array.isArray(data.commentThreads)) {
+      const seenIds = new Set<string>();
+      const threads = data.commentThreads
+        .map((raw, i) => readCommentThread(reader, raw, `commentThreads[${i}]`, model, seenIds))
+        .filter((thread): thread is CommentThread => thread !== null);
+      if (threads.length > 0) model.commentThreads = threads;
+    } else {
+      reader.problem('commentThreads', 'must be an array', 'removed');
+    }
+  }
+
+  if (data.snapshots !== undefined) {
+    if (Array.isArray(data.snapshots)) {
+      const seenIds = new Set<string>();
+      const snapshots = data.snapshots
+        .map((raw, i) => readSnapshot(reader, raw, `snapshots[${i}]`, i, seenIds, mode))
+        .filter((snapshot): snapshot is Snapshot => snapshot !== null);
+      if (snapshots.length > 0) model.snapshots = snapshots;
+    } else {
+      reader.problem('snapshots', 'must be an array', 'removed');
+    }
+  }
+
+  return { model, errors: reader.errors, repairs: reader.repairs };
+};
+
+// Migrate and validate parsed JSON from an exported model file
+export const parseModelFile = (json: unknown, mode: ValidationMode = 'strict'): ModelFileResult => {
+  if (!isObject(json)) {
+    return { ok: false, errors: [{ path: '', message: 'file must contain a JSON object' }] };
+  }
+
+  let migrated;
+  try {
+    migrated = migrateModelFile(json);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Migration failed';
+    return { ok: false, errors: [{ path: 'version', message }] };
+  }
+
+  const { model, errors, repairs } = readModel(migrated.data, mode);
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return { ok: true, model, version: migrated.version, migrations: migrated.applied, repairs };
+};
+
+export const formatFieldErrors = (errors: FieldError[], limit = 10) => {
+  const lines = errors.slice(0, limit).map(e => `• ${e.path ? `${e.path}: ` : ''}${e.message}`);
+  if (errors.length > limit) {
+    lines.push(`…and ${errors.length - limit} more`);
+  }
+  return lines.join('\n');
+};
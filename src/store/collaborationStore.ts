@@ -0,0 +1,191 @@
+import { create } from 'zustand';
+import * as Y from 'yjs';
+import { WebsocketProvider } from 'y-websocket';
+import { getModelStore } from './modelStore';
+import { useWorkspaceStore } from './workspaceStore';
+import { isModelDocEmpty, modelRoots, readModel, writeModel } from '../utils/modelDoc';
+
+export type CollaborationStatus = 'offline' | 'connecting' | 'connected';
+
+export interface Collaborator {
+  clientId: number;
+  name: string;
+  color: string;
+  selectedEntityId: string | null;
+}
+
+interface CollaborationState {
+  status: CollaborationStatus;
+  // Workspace document shared in the room
+  documentId: string | null;
+  serverUrl: string;
+  room: string;
+  userName: string;
+  // Everyone else in the room
+  collaborators: Collaborator[];
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+interface CollaborationActions {
+  connect: (documentId: string, serverUrl: string, room: string, userName: string) => void;
+  disconnect: () => void;
+  // Undo and redo only this user's own changes
+  undo: () => void;
+  redo: () => void;
+}
+
+type CollaborationStore = CollaborationState & CollaborationActions;
+
+export const DEFAULT_RELAY_URL = `ws://${window.location.hostname || 'localhost'}:1234`;
+
+const COLORS = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#9333ea', '#0891b2', '#db2777', '#4b5563'];
+
+interface AwarenessState {
+  user?: { name: string; color: string };
+  selectedEntityId?: string | null;
+}
+
+interface Session {
+  doc: Y.Doc;
+  provider: WebsocketProvider;
+  undoManager: Y.UndoManager | null;
+  unbind: () => void;
+}
+
+// The live connection is kept out of the store, since none of it renders
+let session: Session | null = null;
+
+export const useCollaborationStore = create<CollaborationStore>()((set, get) => {
+  const readCollaborators = ({ doc, provider }: Session): Collaborator[] =>
+    [...provider.awareness.getStates()].flatMap(([clientId, state]) => {
+      const { user, selectedEntityId } = state as AwarenessState;
+      if (clientId === doc.clientID || !user) return [];
+      return [{ clientId, name: user.name, color: user.color, selectedEntityId: selectedEntityId ?? null }];
+    });
+
+  // Keep the document's store and the shared document in step. Until the first
+  // sync the room's contents are unknown, so nothing is written before then.
+  const bind = (current: Session, documentId: string) => {
+    const { doc, provider } = current;
+    const store = getModelStore(documentId);
+    const localOrigin = { documentId };
+    let applyingRemote = false;
+
+    if (isModelDocEmpty(doc)) {
+      writeModel(doc, store.getState().model, localOrigin);
+    } else {
+      const { model, selectedEntity } = store.getState();
+      if (model.entities.length > 0 && !confirm(`The room "${get().room}" already has a model. Replace yours with it?`)) {
+        get().disconnect();
+        return;
+      }
+      const shared = readModel(doc);
+      store.setState({ model: shared, selectedEntity: selectedEntity && (shared.entities.find(e => e.id === selectedEntity.id) ?? null) });
+    }
+
+    // Zundo's history would also undo other people's changes, so the undo
+    // manager takes over while connected
+    const history = store.temporal.getState();
+    history.pause();
+
+    const undoManager = new Y.UndoManager(Object.values(modelRoots(doc)), { trackedOrigins: new Set([localOrigin]) });
+    const updateUndoState = () => set({ canUndo: undoManager.canUndo(), canRedo: undoManager.canRedo() });
+    undoManager.on('stack-item-added', updateUndoState);
+    undoManager.on('stack-item-popped', updateUndoState);
+    undoManager.on('stack-cleared', updateUndoState);
+
+    const applyRemote = (_update: Uint8Array, origin: unknown) => {
+      if (origin === localOrigin) return;
+      const { selectedEntity } = store.getState();
+      const model = readModel(doc);
+      applyingRemote = true;
+      store.setState({ model, selectedEntity: selectedEntity && (model.entities.find(e => e.id === selectedEntity.id) ?? null) });
+      applyingRemote = false;
+    };
+    doc.on('update', applyRemote);
+
+    const unsubscribe = store.subscribe((state, previous) => {
+      if (state.model !== previous.model && !applyingRemote) {
+        writeModel(doc, state.model, localOrigin);
+      }
+      if (state.selectedEntity?.id !== previous.selectedEntity?.id) {
+        provider.awareness.setLocalStateField('selectedEntityId', state.selectedEntity?.id ?? null);
+      }
+    });
+    provider.awareness.setLocalStateField('selectedEntityId', store.getState().selectedEntity?.id ?? null);
+
+    current.undoManager = undoManager;
+    current.unbind = () => {
+      unsubscribe();
+      doc.off('update', applyRemote);
+      undoManager.destroy();
+      // Earlier history predates everyone else's changes, so it's dropped
+      history.resume();
+      history.clear();
+    };
+  };
+
+  return {
+    status: 'offline',
+    documentId: null,
+    serverUrl: DEFAULT_RELAY_URL,
+    room: '',
+    userName: '',
+    collaborators: [],
+    canUndo: false,
+    canRedo: false,
+
+    connect: (documentId: string, serverUrl: string, room: string, userName: string) => {
+      get().disconnect();
+
+      const doc = new Y.Doc();
+      const provider = new WebsocketProvider(serverUrl, room, doc);
+      const current: Session = { doc, provider, undoManager: null, unbind: () => {} };
+      session = current;
+
+      provider.awareness.setLocalStateField('user', { name: userName, color: COLORS[doc.clientID % COLORS.length] });
+      provider.awareness.on('change', () => set({ collaborators: readCollaborators(current) }));
+      provider.on('status', ({ status }) => {
+        set({ status: status === 'connected' ? 'connected' : 'connecting' });
+      });
+      provider.once('sync', () => {
+        if (session === current) bind(current, documentId);
+      });
+
+      set({ status: 'connecting', documentId, serverUrl, room, userName, collaborators: [] });
+    },
+
+    disconnect: () => {
+      if (!session) return;
+      const { doc, provider, unbind } = session;
+      session = null;
+      unbind();
+      provider.destroy();
+      doc.destroy();
+      set({ status: 'offline', documentId: null, collaborators: [], canUndo: false, canRedo: false });
+    },
+
+    undo: () => {
+      session?.undoManager?.undo();
+    },
+
+    redo: () => {
+      session?.undoManager?.redo();
+    }
+  };
+});
+
+// Stop sharing a document once it's deleted from the workspace
+useWorkspaceStore.subscribe(({ documents }) => {
+  const { documentId, disconnect } = useCollaborationStore.getState();
+  if (documentId && !documents.some(doc => doc.id === documentId)) disconnect();
+});
+
+// Collaborators with the given entity selected, when the active document is the shared one
+export const useEntityCollaborators = (entityId: string) => {
+  const activeDocumentId = useWorkspaceStore(state => state.activeDocumentId);
+  const documentId = useCollaborationStore(state => state.documentId);
+  const collaborators = useCollaborationStore(state => state.collaborators);
+  return documentId === activeDocumentId ? collaborators.filter(c => c.selectedEntityId === entityId) : [];
+};
@@ -0,0 +1,53 @@
+import { create } from 'zustand';
+import { Model } from '../types';
+import { ChangeKind } from '../utils/snapshots';
+import { useWorkspaceStore } from './workspaceStore';
+
+export interface ComparisonSide {
+  // e.g. a snapshot's name or an imported file's name
+  label: string;
+  model: Model;
+}
+
+interface ComparisonState {
+  // Workspace document the comparison was started from
+  documentId: string | null;
+  before: ComparisonSide | null;
+  // The live model when null
+  after: ComparisonSide | null;
+  // How each entity on the canvas changed, by id
+  highlights: Record<string, ChangeKind>;
+}
+
+interface ComparisonActions {
+  compare: (documentId: string, before: ComparisonSide, after: ComparisonSide | null) => void;
+  setHighlights: (highlights: Record<string, ChangeKind>) => void;
+  clearComparison: () => void;
+}
+
+export const useComparisonStore = create<ComparisonState & ComparisonActions>()((set) => ({
+  documentId: null,
+  before: null,
+  after: null,
+  highlights: {},
+
+  compare: (documentId: string, before: ComparisonSide, after: ComparisonSide | null) => {
+    set({ documentId, before, after, highlights: {} });
+  },
+
+  setHighlights: (highlights: Record<string, ChangeKind>) => {
+    set({ highlights });
+  },
+
+  clearComparison: () => {
+    set({ documentId: null, before: null, after: null, highlights: {} });
+  }
+}));
+
+// How an entity changed in the comparison shown for the active document
+export const useEntityHighlight = (entityId: string): ChangeKind | undefined => {
+  const activeDocumentId = useWorkspaceStore(state => state.activeDocumentId);
+  const documentId = useComparisonStore(state => state.documentId);
+  const highlight = useComparisonStore(state => state.highlights[entityId]);
+  return documentId === activeDocumentId ? highlight : undefined;
+};
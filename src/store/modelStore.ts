@@ -1,20 +1,59 @@
-import { create } from 'zustand';
+import { create, useStore } from 'zustand';
+import { persist } from 'zustand/middleware';
 import { temporal } from 'zundo';
-import { Entity, Model, Attribute, Relationship } from '../types';
+import {
+  Entity,
+  Model,
+  Attribute,
+  Relationship,
+  Position,
+  CustomType,
+  CustomTypeKind,
+  Transition,
+  Role,
+  ActionPermission,
+  RelationshipType,
+  CommentTarget
+} from '../types';
+import { PersistedModelState, modelStorage, modelStorageKey, isAutosaveEnabled } from './persistence';
+import { useWorkspaceStore } from './workspaceStore';
+import { RelationshipEnd, swapEnds } from '../utils/cardinality';
+import { createCustomType, customBaseType, withAttributeType } from '../utils/customTypes';
+import { renameInTransitions, transitionsWithout } from '../utils/stateMachine';
+import { createRelationshipType, getRelationshipTypes, labelForPhrase } from '../utils/relationships';
+import { createComment, createThread, describeTarget, threadsWithTargetsIn, threadsWithoutAttribute } from '../utils/comments';
+import { createSnapshot } from '../utils/snapshots';
+import {
+  HistoryStep,
+  continuesStep,
+  entityName,
+  entityNameById,
+  initialHistoryStep,
+  relationshipName
+} from '../utils/history';
+import {
+  createRole,
+  permissionsWithout,
+  permissionsWithoutRole,
+  renameInPermissions,
+  withActionPermission
+} from '../utils/permissions';
 
 // Define the store state interface
 interface ModelState {
   model: Model;
+  // What produced the model, kept with it in the undo history
+  historyStep: HistoryStep;
   selectedEntity: Entity | null;
   isCreatingRelationship: boolean;
   relationshipStart: Entity | null;
-  relationshipTypes: string[];
 }
 
 // Define the store actions interface
 interface ModelActions {
   // Model actions
-  setModel: (model: Model) => void;
+  // Label names the step in the undo history, e.g. "Merge orders.json"
+  setModel: (model: Model, label?: string) => void;
   resetModel: () => void;
   
   // Entity actions
@@ -23,12 +62,18 @@ interface ModelActions {
   updateEntity: (entityId: string, updates: Partial<Entity>) => void;
   setSelectedEntity: (entity: Entity | null) => void;
   reorderEntities: (oldIndex: number, newIndex: number) => void;
+  moveEntity: (entityId: string, position: Position) => void;
+  applyLayout: (positions: Record<string, Position>) => void;
   
   // Relationship actions
   setIsCreatingRelationship: (creating: boolean) => void;
   setRelationshipStart: (entity: Entity | null) => void;
   addRelationship: (from: string, to: string, label?: string) => void;
-  updateRelationshipLabel: (relId: string, newLabel: string) => void;
+  // Reword a relationship as read from one of its ends
+  updateRelationshipLabel: (relId: string, phrase: string, end?: RelationshipEnd) => void;
+  updateRelationship: (relId: string, updates: Partial<Relationship>) => void;
+  deleteRelationship: (relId: string) => void;
+  retargetRelationship: (relId: string, end: RelationshipEnd, entityId: string) => void;
   
   // Attribute/State/Action management
   addAttribute: (entityId: string) => void;
@@ -37,9 +82,45 @@ interface ModelActions {
   removeAttribute: (entityId: string, index: number) => void;
   removeState: (entityId: string, index: number) => void;
   removeAction: (entityId: string, index: number) => void;
-  updateAttribute: (entityId: string, index: number, field: keyof Attribute, value: string) => void;
+  updateAttribute: <K extends keyof Attribute>(entityId: string, index: number, field: K, value: Attribute[K]) => void;
   updateState: (entityId: string, index: number, value: string) => void;
   updateAction: (entityId: string, index: number, value: string) => void;
+  // Takes a primitive type or a custom type's <select> value
+  setAttributeType: (entityId: string, index: number, value: string) => void;
+  
+  // State machine transitions
+  addTransition: (entityId: string) => void;
+  updateTransition: (entityId: string, index: number, updates: Partial<Transition>) => void;
+  removeTransition: (entityId: string, index: number) => void;
+  
+  // Custom type registry
+  addCustomType: (kind: CustomTypeKind) => void;
+  updateCustomType: (typeId: string, updates: Partial<CustomType>) => void;
+  deleteCustomType: (typeId: string) => void;
+  
+  // Relationship type catalogue
+  addRelationshipType: () => void;
+  updateRelationshipType: (typeId: string, updates: Partial<RelationshipType>) => void;
+  deleteRelationshipType: (typeId: string) => void;
+  
+  // Roles and action permissions
+  addRole: () => void;
+  updateRole: (roleId: string, updates: Partial<Role>) => void;
+  deleteRole: (roleId: string) => void;
+  setActionPermission: (entityId: string, action: string, updates: Partial<Omit<ActionPermission, 'action'>>) => void;
+  
+  // Review comments
+  addCommentThread: (target: CommentTarget, author: string, text: string) => void;
+  replyToThread: (threadId: string, author: string, text: string) => void;
+  setThreadResolved: (threadId: string, resolved: boolean, author: string) => void;
+  deleteCommentThread: (threadId: string) => void;
+  
+  // Named snapshots
+  takeSnapshot: (name: string) => void;
+  renameSnapshot: (snapshotId: string, name: string) => void;
+  deleteSnapshot: (snapshotId: string) => void;
+  // Bring the model back to a snapshot, keeping the list of snapshots
+  restoreSnapshot: (snapshotId: string) => void;
   
   // Utility actions
   startRelationshipFromEntity: (entity: Entity) => void;
@@ -48,7 +129,35 @@ interface ModelActions {
   completeRelationship: (entity: Entity) => void;
 }
 
-type ModelStore = ModelState & ModelActions;
+export type ModelStore = ModelState & ModelActions;
+
+// What undo and redo bring back
+export type HistoryState = Pick<ModelState, 'model' | 'historyStep'>;
+
+// Transitions and permissions follow a renamed or removed state or action,
+// unless another one in the list shares its old name
+const referenceUpdates = (
+  entity: Entity,
+  kind: 'state' | 'action',
+  list: string[],
+  index: number,
+  newName?: string
+): Partial<Entity> => {
+  const oldName = list[index];
+  if (list.some((name, i) => i !== index && name === oldName)) return {};
+  const updates: Partial<Entity> = {};
+  if (entity.transitions) {
+    updates.transitions = newName === undefined
+      ? transitionsWithout(entity.transitions, kind, oldName)
+      : renameInTransitions(entity.transitions, kind, oldName, newName);
+  }
+  if (entity.permissions) {
+    updates.permissions = newName === undefined
+      ? permissionsWithout(entity.permissions, kind, oldName)
+      : renameInPermissions(entity.permissions, kind, oldName, newName);
+  }
+  return updates;
+};
 
 const initialModel: Model = {
   entities: [],
@@ -57,299 +166,742 @@ const initialModel: Model = {
 
 const initialState: ModelState = {
   model: initialModel,
+  historyStep: initialHistoryStep,
   selectedEntity: null,
   isCreatingRelationship: false,
-  relationshipStart: null,
-  relationshipTypes: ['relates to', 'contains', 'belongs to']
+  relationshipStart: null
 };
 
-// Create the store with Zundo temporal middleware for undo/redo
-export const useModelStore = create<ModelStore>()(
-  temporal(
-    (set, get) => ({
-      ...initialState,
-      
-      // Model actions
-      setModel: (model: Model) => {
-        set({ model, selectedEntity: null });
-      },
-      
-      resetModel: () => {
-        set({
-          model: initialModel,
-          selectedEntity: null,
-          isCreatingRelationship: false,
-          relationshipStart: null
-        });
-      },
-      
-      // Entity actions
-      addEntity: () => {
-        const { model } = get();
-        const newEntity: Entity = {
-          id: `entity-${Date.now()}`,
-          name: 'New Entity',
-          order: model.entities.length,
-          attributes: [],
-          states: [],
-          actions: []
-        };
-        
-        set({
-          model: {
-            ...model,
-            entities: [...model.entities, newEntity]
-          },
-          selectedEntity: newEntity
-        });
-      },
-      
-      deleteEntity: (entityId: string) => {
-        const { model } = get();
-        set({
-          model: {
-            entities: model.entities.filter(e => e.id !== entityId),
-            relationships: model.relationships.filter(r => r.from !== entityId && r.to !== entityId)
-          },
-          selectedEntity: null
-        });
-      },
-      
-      updateEntity: (entityId: string, updates: Partial<Entity>) => {
-        const { model, selectedEntity } = get();
-        const updatedEntity = model.entities.find(e => e.id === entityId);
-        if (!updatedEntity) return;
-        
-        const newEntity = { ...updatedEntity, ...updates };
-        
-        set({
-          model: {
-            ...model,
-            entities: model.entities.map(e => 
-              e.id === entityId ? newEntity : e
-            )
-          },
-          selectedEntity: selectedEntity?.id === entityId ? newEntity : selectedEntity
-        });
-      },
-      
-      setSelectedEntity: (entity: Entity | null) => {
-        set({ selectedEntity: entity });
-      },
-      
-      reorderEntities: (oldIndex: number, newIndex: number) => {
-        const { model } = get();
-        const entities = [...model.entities];
-        const [movedEntity] = entities.splice(oldIndex, 1);
-        entities.splice(newIndex, 0, movedEntity);
-        
-        // Update order property
-        const reorderedEntities = entities.map((entity, index) => ({
-          ...entity,
-          order: index
-        }));
-        
-        set({
-          model: {
-            ...model,
-            entities: reorderedEntities
-          }
-        });
-      },
-      
-      // Relationship actions
-      setIsCreatingRelationship: (creating: boolean) => {
-        set({ isCreatingRelationship: creating });
-      },
-      
-      setRelationshipStart: (entity: Entity | null) => {
-        set({ relationshipStart: entity });
-      },
-      
-      addRelationship: (from: string, to: string, label = 'relates to') => {
-        const { model } = get();
-        const newRelationship: Relationship = {
-          id: `rel-${Date.now()}`,
-          from,
-          to,
-          label
-        };
-        
-        set({
-          model: {
-            ...model,
-            relationships: [...model.relationships, newRelationship]
-          }
-        });
-      },
-      
-      updateRelationshipLabel: (relId: string, newLabel: string) => {
-        const { model } = get();
-        const oldRel = model.relationships.find(r => r.id === relId);
-        if (!oldRel) return;
-
-        let updatedRel = { ...oldRel, label: newLabel };
-
-        // If switching between contains and belongs to, flip the relationship direction
-        if ((oldRel.label === 'contains' && newLabel === 'belongs to') || 
-            (oldRel.label === 'belongs to' && newLabel === 'contains')) {
-          updatedRel = {
-            ...updatedRel,
-            from: oldRel.to,
-            to: oldRel.from
+// Create a store for one workspace document, with Zundo temporal middleware for
+// undo/redo and autosave to localStorage. Hydration is skipped until the user
+// has chosen whether to restore their previous session.
+export const createModelStore = (documentId: string, model: Model = initialModel) => {
+  const store = create<ModelStore>()(
+    persist(
+      temporal(
+        (set, get) => {
+          // Change the model as a named undo step. Typing into the same field
+          // carries on the step it started, under its first label.
+          const commit = (label: string, state: Partial<ModelState>, group?: string) => {
+            const step: HistoryStep = { label, at: Date.now(), ...(group && { group }) };
+            const previous = get().historyStep;
+            set({ ...state, historyStep: continuesStep(previous, step) ? { ...step, label: previous.label } : step });
           };
-        }
 
-        set({
-          model: {
-            ...model,
-            relationships: model.relationships.map(r => 
-              r.id === relId ? updatedRel : r
-            )
-          }
-        });
-      },
-      
-      // Attribute/State/Action management
-      addAttribute: (entityId: string) => {
-        const { model } = get();
-        const entity = model.entities.find(e => e.id === entityId);
-        if (!entity) return;
-        
-        get().updateEntity(entityId, {
-          attributes: [...entity.attributes, { name: '', type: 'string' }]
-        });
-      },
-      
-      addState: (entityId: string) => {
-        const { model } = get();
-        const entity = model.entities.find(e => e.id === entityId);
-        if (!entity) return;
-        
-        get().updateEntity(entityId, {
-          states: [...entity.states, '']
-        });
-      },
-      
-      addAction: (entityId: string) => {
-        const { model } = get();
-        const entity = model.entities.find(e => e.id === entityId);
-        if (!entity) return;
-        
-        get().updateEntity(entityId, {
-          actions: [...entity.actions, '']
-        });
-      },
-      
-      removeAttribute: (entityId: string, index: number) => {
-        const { model } = get();
-        const entity = model.entities.find(e => e.id === entityId);
-        if (!entity) return;
-        
-        get().updateEntity(entityId, {
-          attributes: entity.attributes.filter((_, i) => i !== index)
-        });
-      },
-      
-      removeState: (entityId: string, index: number) => {
-        const { model } = get();
-        const entity = model.entities.find(e => e.id === entityId);
-        if (!entity) return;
-        
-        get().updateEntity(entityId, {
-          states: entity.states.filter((_, i) => i !== index)
-        });
-      },
-      
-      removeAction: (entityId: string, index: number) => {
-        const { model } = get();
-        const entity = model.entities.find(e => e.id === entityId);
-        if (!entity) return;
-        
-        get().updateEntity(entityId, {
-          actions: entity.actions.filter((_, i) => i !== index)
-        });
-      },
-      
-      updateAttribute: (entityId: string, index: number, field: keyof Attribute, value: string) => {
-        const { model } = get();
-        const entity = model.entities.find(e => e.id === entityId);
-        if (!entity) return;
-        
-        const newAttributes = [...entity.attributes];
-        newAttributes[index] = { ...newAttributes[index], [field]: value };
-        
-        get().updateEntity(entityId, { attributes: newAttributes });
-      },
-      
-      updateState: (entityId: string, index: number, value: string) => {
-        const { model } = get();
-        const entity = model.entities.find(e => e.id === entityId);
-        if (!entity) return;
-        
-        const newStates = [...entity.states];
-        newStates[index] = value;
-        
-        get().updateEntity(entityId, { states: newStates });
-      },
-      
-      updateAction: (entityId: string, index: number, value: string) => {
-        const { model } = get();
-        const entity = model.entities.find(e => e.id === entityId);
-        if (!entity) return;
-        
-        const newActions = [...entity.actions];
-        newActions[index] = value;
-        
-        get().updateEntity(entityId, { actions: newActions });
-      },
-      
-      // Utility actions
-      startRelationshipFromEntity: (entity: Entity) => {
-        set({
-          isCreatingRelationship: true,
-          relationshipStart: entity
-        });
-      },
-      
-      cancelRelationship: () => {
-        set({
-          isCreatingRelationship: false,
-          relationshipStart: null
-        });
-      },
-      
-      handleEntityClick: (entity: Entity) => {
-        const { isCreatingRelationship, relationshipStart } = get();
-        
-        if (isCreatingRelationship) {
-          if (relationshipStart && relationshipStart.id !== entity.id) {
-            // Complete relationship
-            get().addRelationship(relationshipStart.id, entity.id);
-            console.log('Created relationship from', relationshipStart.name, 'to', entity.name);
+          const editEntity = (entity: Entity, updates: Partial<Entity>, label: string, group?: string) => {
+            const { model, selectedEntity } = get();
+            const newEntity = { ...entity, ...updates };
+            commit(label, {
+              model: {
+                ...model,
+                entities: model.entities.map(e => (e.id === entity.id ? newEntity : e))
+              },
+              selectedEntity: selectedEntity?.id === entity.id ? newEntity : selectedEntity
+            }, group);
+          };
+
+          const editRelationship = (rel: Relationship, updated: Relationship, label: string) => {
+            const { model } = get();
+            commit(label, {
+              model: {
+                ...model,
+                relationships: model.relationships.map(r => (r.id === rel.id ? updated : r))
+              }
+            });
+          };
+
+          const findEntity = (entityId: string) => get().model.entities.find(e => e.id === entityId);
+
+          return {
+            ...initialState,
+            model,
+
+            // Model actions
+            setModel: (model: Model, label = 'Replace model') => {
+              commit(label, { model, selectedEntity: null });
+            },
+
+            resetModel: () => {
+              commit('New model', {
+                model: initialModel,
+                selectedEntity: null,
+                isCreatingRelationship: false,
+                relationshipStart: null
+              });
+            },
+
+            // Entity actions
+            addEntity: () => {
+              const { model } = get();
+              const newEntity: Entity = {
+                id: `entity-${Date.now()}`,
+                name: 'New Entity',
+                order: model.entities.length,
+                attributes: [],
+                states: [],
+                actions: []
+              };
+
+              commit('Add entity', {
+                model: {
+                  ...model,
+                  entities: [...model.entities, newEntity]
+                },
+                selectedEntity: newEntity
+              });
+            },
+
+            deleteEntity: (entityId: string) => {
+              const { model } = get();
+              const updated: Model = {
+                ...model,
+                entities: model.entities.filter(e => e.id !== entityId),
+                relationships: model.relationships.filter(r => r.from !== entityId && r.to !== entityId)
+              };
+              if (model.commentThreads) updated.commentThreads = threadsWithTargetsIn(model.commentThreads, updated);
+              commit(`Delete ${entityNameById(model, entityId)}`, { model: updated, selectedEntity: null });
+            },
+
+            updateEntity: (entityId: string, updates: Partial<Entity>) => {
+              const entity = findEntity(entityId);
+              if (!entity) return;
+
+              if ('name' in updates) {
+                editEntity(entity, updates, `Rename ${entityName(entity)}`, `entity:${entityId}:name`);
+              } else {
+                editEntity(entity, updates, `Edit ${entityName(entity)}`);
+              }
+            },
+
+            setSelectedEntity: (entity: Entity | null) => {
+              set({ selectedEntity: entity });
+            },
+
+            reorderEntities: (oldIndex: number, newIndex: number) => {
+              const { model } = get();
+              const entities = [...model.entities];
+              const [movedEntity] = entities.splice(oldIndex, 1);
+              entities.splice(newIndex, 0, movedEntity);
+
+              // Update order property
+              const reorderedEntities = entities.map((entity, index) => ({
+                ...entity,
+                order: index
+              }));
+
+              commit(`Reorder ${entityName(movedEntity)}`, {
+                model: {
+                  ...model,
+                  entities: reorderedEntities
+                }
+              });
+            },
+
+            moveEntity: (entityId: string, position: Position) => {
+              const entity = findEntity(entityId);
+              if (entity) editEntity(entity, { position }, `Move ${entityName(entity)}`);
+            },
+
+            // Move many entities at once, so a whole layout is a single undo step
+            applyLayout: (positions: Record<string, Position>) => {
+              const { model, selectedEntity } = get();
+              const entities = model.entities.map(e =>
+                positions[e.id] ? { ...e, position: positions[e.id] } : e
+              );
+
+              commit('Arrange layout', {
+                model: { ...model, entities },
+                selectedEntity: selectedEntity && (entities.find(e => e.id === selectedEntity.id) ?? null)
+              });
+            },
+
+            // Relationship actions
+            setIsCreatingRelationship: (creating: boolean) => {
+              set({ isCreatingRelationship: creating });
+            },
+
+            setRelationshipStart: (entity: Entity | null) => {
+              set({ relationshipStart: entity });
+            },
+
+            addRelationship: (from: string, to: string, label?: string) => {
+              const { model } = get();
+              const newRelationship: Relationship = {
+                id: `rel-${Date.now()}`,
+                from,
+                to,
+                label: label ?? getRelationshipTypes(model)[0]?.label ?? 'relates to'
+              };
+
+              commit(`Add relationship ${relationshipName(model, newRelationship)}`, {
+                model: {
+                  ...model,
+                  relationships: [...model.relationships, newRelationship]
+                }
+              });
+            },
+
+            // Picking an inverse wording flips the relationship, so it always
+            // reads "from label to"
+            updateRelationshipLabel: (relId: string, phrase: string, end: RelationshipEnd = 'from') => {
+              const { model } = get();
+              const oldRel = model.relationships.find(r => r.id === relId);
+              if (!oldRel) return;
+
+              const { label, swap } = labelForPhrase(getRelationshipTypes(model), phrase, end);
+              const updatedRel = { ...oldRel, label };
+              editRelationship(oldRel, swap ? swapEnds(updatedRel) : updatedRel, `Relabel relationship ${relationshipName(model, oldRel)}`);
+            },
+
+            updateRelationship: (relId: string, updates: Partial<Relationship>) => {
+              const { model } = get();
+              const rel = model.relationships.find(r => r.id === relId);
+              if (!rel) return;
+
+              editRelationship(rel, { ...rel, ...updates }, `Edit relationship ${relationshipName(model, rel)}`);
+            },
+
+            deleteRelationship: (relId: string) => {
+              const { model } = get();
+              const rel = model.relationships.find(r => r.id === relId);
+              if (!rel) return;
+
+              const updated: Model = {
+                ...model,
+                relationships: model.relationships.filter(r => r.id !== relId)
+              };
+              if (model.commentThreads) updated.commentThreads = threadsWithTargetsIn(model.commentThreads, updated);
+              commit(`Delete relationship ${relationshipName(model, rel)}`, { model: updated });
+            },
+
+            retargetRelationship: (relId: string, end: RelationshipEnd, entityId: string) => {
+              const { model } = get();
+              const rel = model.relationships.find(r => r.id === relId);
+              if (!rel || !model.entities.some(e => e.id === entityId)) return;
+
+              // Don't allow a relationship to point back at its own other endpoint
+              const otherEnd = end === 'from' ? rel.to : rel.from;
+              if (otherEnd === entityId) return;
+
+              editRelationship(rel, { ...rel, [end]: entityId }, `Reconnect relationship ${relationshipName(model, rel)}`);
+            },
+
+            // Attribute/State/Action management
+            addAttribute: (entityId: string) => {
+              const entity = findEntity(entityId);
+              if (!entity) return;
+
+              editEntity(entity, {
+                attributes: [...entity.attributes, { name: '', type: 'string' }]
+              }, `Add attribute to ${entityName(entity)}`);
+            },
+
+            addState: (entityId: string) => {
+              const entity = findEntity(entityId);
+              if (!entity) return;
+
+              editEntity(entity, {
+                states: [...entity.states, '']
+              }, `Add state to ${entityName(entity)}`);
+            },
+
+            addAction: (entityId: string) => {
+              const entity = findEntity(entityId);
+              if (!entity) return;
+
+              editEntity(entity, {
+                actions: [...entity.actions, '']
+              }, `Add action to ${entityName(entity)}`);
+            },
+
+            removeAttribute: (entityId: string, index: number) => {
+              const { model, selectedEntity } = get();
+              const entity = model.entities.find(e => e.id === entityId);
+              if (!entity) return;
+
+              const newEntity = { ...entity, attributes: entity.attributes.filter((_, i) => i !== index) };
+              const updated: Model = {
+                ...model,
+                entities: model.entities.map(e => (e.id === entityId ? newEntity : e))
+              };
+              if (model.commentThreads) updated.commentThreads = threadsWithoutAttribute(model.commentThreads, entityId, index);
+
+              // One update, so removing the attribute and moving its threads is a single undo step
+              commit(`Remove attribute from ${entityName(entity)}`, {
+                model: updated,
+                selectedEntity: selectedEntity?.id === entityId ? newEntity : selectedEntity
+              });
+            },
+
+            removeState: (entityId: string, index: number) => {
+              const entity = findEntity(entityId);
+              if (!entity) return;
+
+              editEntity(entity, {
+                states: entity.states.filter((_, i) => i !== index),
+                ...referenceUpdates(entity, 'state', entity.states, index)
+              }, `Remove state from ${entityName(entity)}`);
+            },
+
+            removeAction: (entityId: string, index: number) => {
+              const entity = findEntity(entityId);
+              if (!entity) return;
+
+              editEntity(entity, {
+                actions: entity.actions.filter((_, i) => i !== index),
+                ...referenceUpdates(entity, 'action', entity.actions, index)
+              }, `Remove action from ${entityName(entity)}`);
+            },
+
+            updateAttribute: <K extends keyof Attribute>(entityId: string, index: number, field: K, value: Attribute[K]) => {
+              const entity = findEntity(entityId);
+              if (!entity) return;
+
+              const newAttributes = [...entity.attributes];
+              newAttributes[index] = { ...newAttributes[index], [field]: value };
+
+              editEntity(
+                entity,
+                { attributes: newAttributes },
+                `${field === 'name' ? 'Rename' : 'Edit'} attribute of ${entityName(entity)}`,
+                `attribute:${entityId}:${index}:${field}`
+              );
+            },
+
+            updateState: (entityId: string, index: number, value: string) => {
+              const entity = findEntity(entityId);
+              if (!entity) return;
+
+              const newStates = [...entity.states];
+              newStates[index] = value;
+
+              editEntity(entity, {
+                states: newStates,
+                ...referenceUpdates(entity, 'state', entity.states, index, value)
+              }, `Rename state of ${entityName(entity)}`, `state:${entityId}:${index}`);
+            },
+
+            updateAction: (entityId: string, index: number, value: string) => {
+              const entity = findEntity(entityId);
+              if (!entity) return;
+
+              const newActions = [...entity.actions];
+              newActions[index] = value;
+
+              editEntity(entity, {
+                actions: newActions,
+                ...referenceUpdates(entity, 'action', entity.actions, index, value)
+              }, `Rename action of ${entityName(entity)}`, `action:${entityId}:${index}`);
+            },
+
+            setAttributeType: (entityId: string, index: number, value: string) => {
+              const { model } = get();
+              const entity = model.entities.find(e => e.id === entityId);
+              if (!entity || !entity.attributes[index]) return;
+
+              const newAttributes = [...entity.attributes];
+              newAttributes[index] = withAttributeType(newAttributes[index], value, model.customTypes);
+
+              editEntity(entity, { attributes: newAttributes }, `Change attribute type on ${entityName(entity)}`);
+            },
+
+            // State machine transitions
+            addTransition: (entityId: string) => {
+              const entity = findEntity(entityId);
+              if (!entity) return;
+
+              const states = entity.states.filter(state => state.trim());
+              const transition: Transition = {
+                from: states[0] ?? '',
+                to: states[1] ?? states[0] ?? '',
+                action: entity.actions.find(action => action.trim()) ?? ''
+              };
+              editEntity(entity, {
+                transitions: [...(entity.transitions || []), transition]
+              }, `Add transition to ${entityName(entity)}`);
+            },
+
+            updateTransition: (entityId: string, index: number, updates: Partial<Transition>) => {
+              const entity = findEntity(entityId);
+              if (!entity?.transitions?.[index]) return;
+
+              editEntity(entity, {
+                transitions: entity.transitions.map((t, i) => (i === index ? { ...t, ...updates } : t))
+              }, `Edit transition of ${entityName(entity)}`, `transition:${entityId}:${index}:${Object.keys(updates).join()}`);
+            },
+
+            removeTransition: (entityId: string, index: number) => {
+              const entity = findEntity(entityId);
+              if (!entity?.transitions) return;
+
+              editEntity(entity, {
+                transitions: entity.transitions.filter((_, i) => i !== index)
+              }, `Remove transition from ${entityName(entity)}`);
+            },
+
+            // Custom type registry
+            addCustomType: (kind: CustomTypeKind) => {
+              const { model } = get();
+              const customTypes = model.customTypes || [];
+              const name = `${kind === 'composite' ? 'Value' : 'Type'} ${customTypes.length + 1}`;
+              commit(`Add type ${name}`, {
+                model: {
+                  ...model,
+                  customTypes: [...customTypes, createCustomType(kind, name)]
+                }
+              });
+            },
+
+            // Attributes of the type keep their stored base type in step with it
+            updateCustomType: (typeId: string, updates: Partial<CustomType>) => {
+              const { model, selectedEntity } = get();
+              const existing = (model.customTypes || []).find(t => t.id === typeId);
+              if (!existing) return;
+
+              const updated = { ...existing, ...updates };
+              const sync = (attr: Attribute) =>
+                attr.customType === typeId ? { ...attr, type: customBaseType(updated) } : attr;
+              const entities = model.entities.map(e => ({ ...e, attributes: e.attributes.map(sync) }));
+
+              commit(`Edit type ${existing.name.trim() || 'unnamed type'}`, {
+                model: {
+                  ...model,
+                  entities,
+                  customTypes: (model.customTypes || [])
+                    .map(t => (t.id === typeId ? updated : t))
+                    .map(t => ({ ...t, fields: t.fields.map(sync) }))
+                },
+                selectedEntity: selectedEntity && (entities.find(e => e.id === selectedEntity.id) ?? null)
+              }, `customType:${typeId}:${Object.keys(updates).join()}`);
+            },
+
+            deleteCustomType: (typeId: string) => {
+              const { model, selectedEntity } = get();
+              const existing = (model.customTypes || []).find(t => t.id === typeId);
+              const detach = (attr: Attribute) => {
+                if (attr.customType !== typeId) return attr;
+                const { customType: _removed, ...rest } = attr;
+                return rest;
+              };
+              const entities = model.entities.map(e => ({ ...e, attributes: e.attributes.map(detach) }));
+
+              commit(`Delete type ${existing?.name.trim() || 'unnamed type'}`, {
+                model: {
+                  ...model,
+                  entities,
+                  customTypes: (model.customTypes || [])
+                    .filter(t => t.id !== typeId)
+                    .map(t => ({ ...t, fields: t.fields.map(detach) }))
+                },
+                selectedEntity: selectedEntity && (entities.find(e => e.id === selectedEntity.id) ?? null)
+              });
+            },
+
+            // Relationship type catalogue; editing it replaces the default one
+            addRelationshipType: () => {
+              const { model } = get();
+              const types = getRelationshipTypes(model);
+              commit('Add relationship type', {
+                model: {
+                  ...model,
+                  relationshipTypes: [...types, createRelationshipType(`relationship ${types.length + 1}`)]
+                }
+              });
+            },
+
+            // Relationships follow a renamed label, unless another type shares the old one
+            updateRelationshipType: (typeId: string, updates: Partial<RelationshipType>) => {
+              const { model } = get();
+              const types = getRelationshipTypes(model);
+              const existing = types.find(t => t.id === typeId);
+              if (!existing) return;
+
+              const updated = { ...existing, ...updates };
+              const shared = types.some(t => t.id !== typeId && t.label === existing.label);
+              const relabel = updated.label !== existing.label && !shared;
+
+              commit(`Edit relationship type ${existing.label}`, {
+                model: {
+                  ...model,
+                  relationshipTypes: types.map(t => (t.id === typeId ? updated : t)),
+                  relationships: relabel
+                    ? model.relationships.map(r => (r.label === existing.label ? { ...r, label: updated.label } : r))
+                    : model.relationships
+                }
+              }, `relationshipType:${typeId}:${Object.keys(updates).join()}`);
+            },
+
+            // Relationships keep their label and become plain associations
+            deleteRelationshipType: (typeId: string) => {
+              const { model } = get();
+              const types = getRelationshipTypes(model);
+              const existing = types.find(t => t.id === typeId);
+              commit(`Delete relationship type ${existing?.label ?? ''}`.trim(), {
+                model: {
+                  ...model,
+                  relationshipTypes: types.filter(t => t.id !== typeId)
+                }
+              });
+            },
+
+            // Roles and action permissions
+            addRole: () => {
+              const { model } = get();
+              const roles = model.roles || [];
+              const name = `Role ${roles.length + 1}`;
+              commit(`Add role ${name}`, {
+                model: {
+                  ...model,
+                  roles: [...roles, createRole(name)]
+                }
+              });
+            },
+
+            updateRole: (roleId: string, updates: Partial<Role>) => {
+              const { model } = get();
+              const existing = (model.roles || []).find(role => role.id === roleId);
+              if (!existing) return;
+
+              commit(`Edit role ${existing.name.trim() || 'unnamed role'}`, {
+                model: {
+                  ...model,
+                  roles: (model.roles || []).map(role => (role.id === roleId ? { ...role, ...updates } : role))
+                }
+              }, `role:${roleId}:${Object.keys(updates).join()}`);
+            },
+
+            deleteRole: (roleId: string) => {
+              const { model, selectedEntity } = get();
+              const existing = (model.roles || []).find(role => role.id === roleId);
+              const entities = model.entities.map(e =>
+                e.permissions ? { ...e, permissions: permissionsWithoutRole(e.permissions, roleId) } : e
+              );
+
+              commit(`Delete role ${existing?.name.trim() || 'unnamed role'}`, {
+                model: {
+                  ...model,
+                  entities,
+                  roles: (model.roles || []).filter(role => role.id !== roleId)
+                },
+                selectedEntity: selectedEntity && (entities.find(e => e.id === selectedEntity.id) ?? null)
+              });
+            },
+
+            setActionPermission: (entityId: string, action: string, updates: Partial<Omit<ActionPermission, 'action'>>) => {
+              const entity = findEntity(entityId);
+              if (!entity) return;
+
+              editEntity(entity, {
+                permissions: withActionPermission(entity.permissions, action, updates)
+              }, `Change who may ${action.trim() || 'act'} on ${entityName(entity)}`);
+            },
+
+            // Review comments
+            addCommentThread: (target: CommentTarget, author: string, text: string) => {
+              const { model } = get();
+              commit(`Comment on ${describeTarget(model, target)}`, {
+                model: {
+                  ...model,
+                  commentThreads: [...(model.commentThreads || []), createThread(target, author, text)]
+                }
+              });
+            },
+
+            replyToThread: (threadId: string, author: string, text: string) => {
+              const { model } = get();
+              commit('Reply to comment', {
+                model: {
+                  ...model,
+                  commentThreads: (model.commentThreads || []).map(thread =>
+                    thread.id === threadId ? { ...thread, comments: [...thread.comments, createComment(author, text)] } : thread
+                  )
+                }
+              });
+            },
+
+            setThreadResolved: (threadId: string, resolved: boolean, author: string) => {
+              const { model } = get();
+              commit(resolved ? 'Resolve comment' : 'Reopen comment', {
+                model: {
+                  ...model,
+                  commentThreads: (model.commentThreads || []).map(thread => {
+                    if (thread.id !== threadId) return thread;
+                    const { resolved: _resolved, resolvedBy: _by, resolvedAt: _at, ...open } = thread;
+                    return resolved ? { ...open, resolved, resolvedBy: author, resolvedAt: new Date().toISOString() } : open;
+                  })
+                }
+              });
+            },
+
+            deleteCommentThread: (threadId: string) => {
+              const { model } = get();
+              commit('Delete comment thread', {
+                model: {
+                  ...model,
+                  commentThreads: (model.commentThreads || []).filter(thread => thread.id !== threadId)
+                }
+              });
+            },
+
+            // Named snapshots
+            takeSnapshot: (name: string) => {
+              const { model } = get();
+              commit(`Take snapshot ${name}`, {
+                model: {
+                  ...model,
+                  snapshots: [...(model.snapshots || []), createSnapshot(name, model)]
+                }
+              });
+            },
+
+            renameSnapshot: (snapshotId: string, name: string) => {
+              const { model } = get();
+              commit('Rename snapshot', {
+                model: {
+                  ...model,
+                  snapshots: (model.snapshots || []).map(s => (s.id === snapshotId ? { ...s, name } : s))
+                }
+              }, `snapshot:${snapshotId}:name`);
+            },
+
+            deleteSnapshot: (snapshotId: string) => {
+              const { model } = get();
+              const snapshot = (model.snapshots || []).find(s => s.id === snapshotId);
+              commit(`Delete snapshot ${snapshot?.name ?? ''}`.trim(), {
+                model: {
+                  ...model,
+                  snapshots: (model.snapshots || []).filter(s => s.id !== snapshotId)
+                }
+              });
+            },
+
+            restoreSnapshot: (snapshotId: string) => {
+              const { model, selectedEntity } = get();
+              const snapshot = (model.snapshots || []).find(s => s.id === snapshotId);
+              if (!snapshot) return;
+
+              const restored: Model = { ...snapshot.model, snapshots: model.snapshots };
+              commit(`Restore snapshot ${snapshot.name}`, {
+                model: restored,
+                selectedEntity: selectedEntity && (restored.entities.find(e => e.id === selectedEntity.id) ?? null)
+              });
+            },
+
+            // Utility actions
+            startRelationshipFromEntity: (entity: Entity) => {
+              set({
+                isCreatingRelationship: true,
+                relationshipStart: entity
+              });
+            },
+
+            cancelRelationship: () => {
+              set({
+                isCreatingRelationship: false,
+                relationshipStart: null
+              });
+            },
+
+            handleEntityClick: (entity: Entity) => {
+              const { isCreatingRelationship, relationshipStart } = get();
+
+              if (isCreatingRelationship) {
+                if (relationshipStart && relationshipStart.id !== entity.id) {
+                  // Complete relationship
+                  get().addRelationship(relationshipStart.id, entity.id);
+                  console.log('Created relationship from', relationshipStart.name, 'to', entity.name);
+                }
+                get().cancelRelationship();
+                return;
+              }
+
+              get().setSelectedEntity(entity);
+            },
+
+            completeRelationship: (entity: Entity) => {
+              const { relationshipStart } = get();
+              if (relationshipStart && relationshipStart.id !== entity.id) {
+                get().addRelationship(relationshipStart.id, entity.id);
+              }
+              get().cancelRelationship();
+            }
+          };
+        },
+        {
+          // Zundo configuration. Only the model and the step that produced it
+          // are tracked, so selecting or starting a relationship isn't undone.
+          partialize: (state): HistoryState => ({ model: state.model, historyStep: state.historyStep }),
+          limit: 50, // Keep last 50 steps for undo/redo
+          equality: (a, b) => JSON.stringify(a.model) === JSON.stringify(b.model), // Deep equality check
+          // Keystrokes continuing a step replace it rather than adding another
+          handleSet: (handleSet) => (pastState, _replace, currentState) => {
+            if (!continuesStep((pastState as HistoryState).historyStep, currentState.historyStep)) {
+              handleSet(pastState);
+            }
           }
-          get().cancelRelationship();
-          return;
         }
-        
-        get().setSelectedEntity(entity);
-      },
-      
-      completeRelationship: (entity: Entity) => {
-        const { relationshipStart } = get();
-        if (relationshipStart && relationshipStart.id !== entity.id) {
-          get().addRelationship(relationshipStart.id, entity.id);
-        }
-        get().cancelRelationship();
+      ),
+      {
+        name: modelStorageKey(documentId),
+        storage: modelStorage,
+        partialize: (state): PersistedModelState => ({ model: state.model }),
+        skipHydration: !isAutosaveEnabled()
       }
-    }),
-    {
-      // Zundo configuration
-      limit: 50, // Keep last 50 states for undo/redo
-      equality: (a, b) => JSON.stringify(a) === JSON.stringify(b), // Deep equality check
+    )
+  );
+
+  // Undo and redo only bring back the model, so the selection and a
+  // relationship being drawn follow it
+  store.subscribe((state, previous) => {
+    if (state.model === previous.model) return;
+    const { selectedEntity, relationshipStart } = state;
+    const current = (entity: Entity | null) => entity && (state.model.entities.find(e => e.id === entity.id) ?? null);
+    if (current(selectedEntity) !== selectedEntity) {
+      store.setState({ selectedEntity: current(selectedEntity) });
     }
-  )
-);
+    if (relationshipStart && !current(relationshipStart)) {
+      store.setState({ isCreatingRelationship: false, relationshipStart: null });
+    }
+  });
+
+  return store;
+};
+
+export type ModelStoreApi = ReturnType<typeof createModelStore>;
+
+// One store per workspace document, so each keeps its own undo history and selection
+const modelStores = new Map<string, ModelStoreApi>();
+
+export const getModelStore = (documentId: string): ModelStoreApi => {
+  let store = modelStores.get(documentId);
+  if (!store) {
+    store = createModelStore(documentId);
+    modelStores.set(documentId, store);
+  }
+  return store;
+};
+
+export const addModelStore = (documentId: string, model: Model): ModelStoreApi => {
+  const store = createModelStore(documentId, model);
+  modelStores.set(documentId, store);
+  // Write the initial model straight away so it survives a reload before any edits
+  store.setState({});
+  store.temporal.getState().clear();
+  return store;
+};
+
+export const removeModelStore = (documentId: string) => {
+  modelStores.get(documentId)?.persist.clearStorage();
+  modelStores.delete(documentId);
+};
+
+export const getActiveModelStore = () => getModelStore(useWorkspaceStore.getState().activeDocumentId);
+
+export const useActiveModelStore = () => getModelStore(useWorkspaceStore(state => state.activeDocumentId));
 
-// Export temporal store for undo/redo operations
-export const { undo, redo, clear } = useModelStore.temporal.getState();
\ No newline at end of file
+// Subscribe to the active document's store
+export function useModelStore(): ModelStore;
+export function useModelStore<T>(selector: (state: ModelStore) => T): T;
+export function useModelStore<T>(selector?: (state: ModelStore) => T) {
+  return useStore(useActiveModelStore(), selector ?? ((state: ModelStore) => state as T));
+}
\ No newline at end of file
@@ -0,0 +1,144 @@
+import { PersistStorage, StorageValue } from 'zustand/middleware';
+import { Model, ModelDocument } from '../types';
+import { MODEL_VERSION, parseModelFile } from '../schema/modelFile';
+
+export const WORKSPACE_STORAGE_KEY = 'ooux-workspace';
+const MODEL_STORAGE_PREFIX = 'ooux-model:';
+
+export const modelStorageKey = (documentId: string) => `${MODEL_STORAGE_PREFIX}${documentId}`;
+
+export interface PersistedModelState {
+  model: Model;
+}
+
+export interface PersistedWorkspaceState {
+  documents: ModelDocument[];
+  activeDocumentId: string;
+}
+
+interface SavedEntry<S> {
+  version: string;
+  savedAt: string;
+  state: S;
+}
+
+// Writes are held back until the user has decided whether to restore a saved
+// session, so that editing a fresh workspace doesn't overwrite it in the meantime
+let writesEnabled = false;
+
+export const enableAutosave = () => {
+  writesEnabled = true;
+};
+
+export const isAutosaveEnabled = () => writesEnabled;
+
+// Upgrade a saved model through the same migrations and repairs as a JSON
+// import, or return null if it can't be read
+const migrateSavedModel = (version: string, state: PersistedModelState): PersistedModelState | null => {
+  if (!state?.model) return null;
+
+  const parsed = parseModelFile({ ...state.model, version }, 'lenient');
+  if (!parsed.ok) return null;
+
+  if (parsed.repairs.length > 0) {
+    console.warn('Repaired saved model:', parsed.repairs);
+  }
+  return { ...state, model: parsed.model };
+};
+
+const migrateSavedWorkspace = (_version: string, state: PersistedWorkspaceState): PersistedWorkspaceState | null => {
+  if (!Array.isArray(state?.documents) || state.documents.length === 0) return null;
+  return state;
+};
+
+const readEntry = <S>(key: string, migrate: (version: string, state: S) => S | null): SavedEntry<S> | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    if (!raw) return null;
+
+    const entry = JSON.parse(raw) as SavedEntry<S>;
+    const version = entry.version ?? MODEL_VERSION;
+    const state = migrate(version, entry.state);
+    if (!state) {
+      console.warn(`Ignoring saved data in "${key}" with unsupported version ${version}`);
+      return null;
+    }
+
+    return { ...entry, state };
+  } catch (error) {
+    console.error(`Failed to read saved data from "${key}":`, error);
+    return null;
+  }
+};
+
+// localStorage-backed storage for the zustand persist middleware, stamped with
+// the model version so older saves can be migrated on load
+const createStorage = <S>(migrate: (version: string, state: S) => S | null): PersistStorage<S> => ({
+  getItem: (name: string): StorageValue<S> | null => {
+    const entry = readEntry(name, migrate);
+    return entry ? { state: entry.state } : null;
+  },
+
+  setItem: (name: string, value: StorageValue<S>) => {
+    if (!writesEnabled) return;
+
+    const entry: SavedEntry<S> = {
+      version: MODEL_VERSION,
+      savedAt: new Date().toISOString(),
+      state: value.state
+    };
+
+    try {
+      localStorage.setItem(name, JSON.stringify(entry));
+    } catch (error) {
+      console.error('Autosave failed:', error);
+    }
+  },
+
+  removeItem: (name: string) => {
+    localStorage.removeItem(name);
+  }
+});
+
+export const modelStorage = createStorage<PersistedModelState>(migrateSavedModel);
+export const workspaceStorage = createStorage<PersistedWorkspaceState>(migrateSavedWorkspace);
+
+export interface SavedSessionSummary {
+  savedAt: string;
+  documentCount: number;
+  entityCount: number;
+  relationshipCount: number;
+}
+
+export const getSavedSession = (): SavedSessionSummary | null => {
+  const workspace = readEntry(WORKSPACE_STORAGE_KEY, migrateSavedWorkspace);
+  if (!workspace) return null;
+
+  let savedAt = workspace.savedAt;
+  let entityCount = 0;
+  let relationshipCount = 0;
+
+  workspace.state.documents.forEach(doc => {
+    const entry = readEntry(modelStorageKey(doc.id), migrateSavedModel);
+    if (!entry) return;
+
+    entityCount += entry.state.model.entities.length;
+    relationshipCount += entry.state.model.relationships.length;
+    if (entry.savedAt > savedAt) savedAt = entry.savedAt;
+  });
+
+  if (entityCount === 0 && relationshipCount === 0) return null;
+
+  return {
+    savedAt,
+    documentCount: workspace.state.documents.length,
+    entityCount,
+    relationshipCount
+  };
+};
+
+export const clearSavedSession = () => {
+  Object.keys(localStorage)
+    .filter(key => key === WORKSPACE_STORAGE_KEY || key.startsWith(MODEL_STORAGE_PREFIX))
+    .forEach(key => localStorage.removeItem(key));
+};
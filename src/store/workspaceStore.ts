@@ -0,0 +1,112 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { ModelDocument } from '../types';
+import { PersistedWorkspaceState, WORKSPACE_STORAGE_KEY, workspaceStorage } from './persistence';
+import { getModelStore, addModelStore, removeModelStore } from './modelStore';
+
+interface WorkspaceState {
+  documents: ModelDocument[];
+  activeDocumentId: string;
+}
+
+interface WorkspaceActions {
+  createDocument: (name?: string) => void;
+  renameDocument: (documentId: string, name: string) => void;
+  duplicateDocument: (documentId: string) => void;
+  deleteDocument: (documentId: string) => void;
+  setActiveDocument: (documentId: string) => void;
+  saveWorkspace: () => void;
+}
+
+type WorkspaceStore = WorkspaceState & WorkspaceActions;
+
+const createDocumentId = () => `model-${Date.now()}`;
+
+const initialDocument: ModelDocument = {
+  id: createDocumentId(),
+  name: 'Untitled Model'
+};
+
+export const useWorkspaceStore = create<WorkspaceStore>()(
+  persist(
+    (set, get) => ({
+      documents: [initialDocument],
+      activeDocumentId: initialDocument.id,
+
+      createDocument: (name = 'Untitled Model') => {
+        const newDocument: ModelDocument = { id: createDocumentId(), name };
+        addModelStore(newDocument.id, { entities: [], relationships: [] });
+
+        set({
+          documents: [...get().documents, newDocument],
+          activeDocumentId: newDocument.id
+        });
+      },
+
+      renameDocument: (documentId: string, name: string) => {
+        set({
+          documents: get().documents.map(doc =>
+            doc.id === documentId ? { ...doc, name } : doc
+          )
+        });
+      },
+
+      duplicateDocument: (documentId: string) => {
+        const { documents } = get();
+        const source = documents.find(doc => doc.id === documentId);
+        if (!source) return;
+
+        const copy: ModelDocument = { id: createDocumentId(), name: `${source.name} (copy)` };
+        addModelStore(copy.id, getModelStore(documentId).getState().model);
+
+        const index = documents.indexOf(source);
+        set({
+          documents: [...documents.slice(0, index + 1), copy, ...documents.slice(index + 1)],
+          activeDocumentId: copy.id
+        });
+      },
+
+      deleteDocument: (documentId: string) => {
+        const { documents, activeDocumentId } = get();
+        const index = documents.findIndex(doc => doc.id === documentId);
+        if (index === -1) return;
+
+        let remaining = documents.filter(doc => doc.id !== documentId);
+
+        // Always keep at least one document to edit
+        if (remaining.length === 0) {
+          const replacement: ModelDocument = { id: createDocumentId(), name: 'Untitled Model' };
+          addModelStore(replacement.id, { entities: [], relationships: [] });
+          remaining = [replacement];
+        }
+
+        set({
+          documents: remaining,
+          activeDocumentId: activeDocumentId === documentId
+            ? remaining[Math.min(index, remaining.length - 1)].id
+            : activeDocumentId
+        });
+        removeModelStore(documentId);
+      },
+
+      setActiveDocument: (documentId: string) => {
+        if (!get().documents.some(doc => doc.id === documentId)) return;
+        set({ activeDocumentId: documentId });
+      },
+
+      // Persist the document list as it stands, e.g. once autosave is enabled
+      saveWorkspace: () => {
+        set({});
+      }
+    }),
+    {
+      name: WORKSPACE_STORAGE_KEY,
+      storage: workspaceStorage,
+      partialize: (state): PersistedWorkspaceState => ({
+        documents: state.documents,
+        activeDocumentId: state.activeDocumentId
+      }),
+      skipHydration: true
+    }
+  )
+);
@@ -1,25 +1,175 @@
+// OOUX splits attributes into core content, which users come for, and
+// metadata, which they use to sort, filter and scan
+export type AttributeRole = 'core' | 'metadata';
+
+export type AttributeMultiplicity = 'single' | 'list';
+
+export type PrimitiveType = 'string' | 'number' | 'boolean' | 'date' | 'enum';
+
 export interface Attribute {
   name: string;
-  type: 'string' | 'number' | 'boolean' | 'date' | 'enum';
+  // For an attribute of a custom type: the custom type's base, or string
+  // for a value object
+  type: PrimitiveType;
+  // Id of a custom type from the model's registry
+  customType?: string;
+  // Core content when unset
+  role?: AttributeRole;
+  // Allowed values of an enum attribute
+  enumValues?: string[];
+  required?: boolean;
+  unique?: boolean;
+  // A single value when unset
+  multiplicity?: AttributeMultiplicity;
+  // Written as text, e.g. "0", "true", "2024-01-31" or one of the enum values
+  defaultValue?: string;
+  description?: string;
+}
+
+export interface Position {
+  x: number;
+  y: number;
+}
+
+// An action moving an entity from one of its states to another, written with
+// the state and action names, e.g. draft --submit--> pending
+export interface Transition {
+  from: string;
+  to: string;
+  action: string;
+  // Condition that must hold for the action to fire, in plain words
+  guard?: string;
+}
+
+// Who may perform one of an entity's actions, and in which of its states
+export interface ActionPermission {
+  action: string;
+  // Ids of roles from the model; not yet decided when empty
+  roleIds: string[];
+  // Allowed in any state when unset or empty
+  states?: string[];
 }
 
 export interface Entity {
   id: string;
   name: string;
   order: number;
+  // Top-left corner on the free-form canvas; unset until the entity is placed there
+  position?: Position;
   attributes: Attribute[];
+  // The first state is where an entity starts
   states: string[];
   actions: string[];
+  transitions?: Transition[];
+  permissions?: ActionPermission[];
+}
+
+export type Cardinality = '0..1' | '1' | '0..n' | '1..n';
+
+// Composition: the `to` entity is part of the `from` entity and can't exist
+// without it. Aggregation: a looser whole and part. Association: anything else.
+export type RelationshipKind = 'composition' | 'aggregation' | 'association';
+
+// Catalogue entry a relationship picks by its label, e.g. "manages", read
+// back from the other end as "is managed by"
+export interface RelationshipType {
+  id: string;
+  label: string;
+  inverseLabel: string;
+  kind: RelationshipKind;
 }
 
 export interface Relationship {
   id: string;
   from: string;
   to: string;
+  // Reads "from label to"; matches a relationship type's label when it has one
   label: string;
+  // How many `from` entities relate to each `to` entity, and vice versa
+  fromCardinality?: Cardinality;
+  toCardinality?: Cardinality;
+  // Whether each `to` must have a `from`, and each `from` must have a `to`
+  fromRequired?: boolean;
+  toRequired?: boolean;
+}
+
+// A constrained primitive narrows its base type, e.g. Email is a string
+// matching a pattern. A value object groups fields, e.g. Money is an amount
+// and a currency, and has no identity of its own.
+export type CustomTypeKind = 'constrained' | 'composite';
+
+export interface CustomType {
+  id: string;
+  name: string;
+  kind: CustomTypeKind;
+  // Constrained primitives only
+  base: PrimitiveType;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  // Value objects only; fields may themselves use custom types
+  fields: Attribute[];
+  description?: string;
+}
+
+// A kind of user, e.g. Admin, Customer or Support
+export interface Role {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+// What a comment thread is about: an entity, one of its attributes, or a relationship
+export interface CommentTarget {
+  entityId?: string;
+  // Index into the entity's attributes
+  attributeIndex?: number;
+  relationshipId?: string;
+}
+
+export interface Comment {
+  id: string;
+  author: string;
+  text: string;
+  // ISO timestamp
+  createdAt: string;
+}
+
+// The first comment opens the thread and the rest are replies
+export interface CommentThread {
+  id: string;
+  target: CommentTarget;
+  comments: Comment[];
+  resolved?: boolean;
+  resolvedBy?: string;
+  resolvedAt?: string;
 }
 
 export interface Model {
   entities: Entity[];
   relationships: Relationship[];
-}
\ No newline at end of file
+  customTypes?: CustomType[];
+  roles?: Role[];
+  // The default catalogue applies until the model has its own
+  relationshipTypes?: RelationshipType[];
+  commentThreads?: CommentThread[];
+  snapshots?: Snapshot[];
+}
+
+// A named copy of the model as it was, e.g. "after stakeholder review v2"
+export interface Snapshot {
+  id: string;
+  name: string;
+  // ISO timestamp
+  createdAt: string;
+  model: Omit<Model, 'snapshots'>;
+}
+
+export type CanvasView = 'strip' | 'free' | 'matrix';
+
+export interface ModelDocument {
+  id: string;
+  name: string;
+}
@@ -0,0 +1,62 @@
+import { Attribute, CustomType } from '../types';
+import { constraintProblem, findCustomType } from './customTypes';
+
+export const isListAttribute = (attr: Attribute) => attr.multiplicity === 'list';
+
+// Enum values without blanks or repeats
+export const getEnumValues = (attr: Pick<Attribute, 'enumValues'>) =>
+  [...new Set((attr.enumValues || []).map(value => value.trim()).filter(Boolean))];
+
+const primitiveValueProblem = (attr: Attribute, value: string): string | null => {
+  switch (attr.type) {
+    case 'number':
+      return Number.isFinite(Number(value)) ? null : 'is not a number';
+    case 'boolean':
+      return value === 'true' || value === 'false' ? null : 'must be true or false';
+    case 'date':
+      return Number.isNaN(Date.parse(value)) ? 'is not a date' : null;
+    case 'enum': {
+      const values = getEnumValues(attr);
+      return values.length === 0 || values.includes(value) ? null : 'is not one of the enum values';
+    }
+    default:
+      return null;
+  }
+};
+
+// Why an attribute's default value doesn't suit its type, or null if it does.
+// Pass the model's custom types to check their constraints too.
+export const defaultValueProblem = (attr: Attribute, customTypes?: CustomType[]): string | null => {
+  const value = attr.defaultValue?.trim();
+  if (!value) return null;
+
+  const customType = findCustomType(customTypes, attr);
+  if (customType?.kind === 'composite') return `can't be set for a ${customType.name} value`;
+
+  const problem = primitiveValueProblem(attr, value);
+  return problem ?? (customType ? constraintProblem(customType, value) : null);
+};
+
+// The default as a JSON value of the attribute's type, if it has a valid one
+export const typedDefaultValue = (attr: Attribute, customTypes?: CustomType[]): string | number | boolean | undefined => {
+  const value = attr.defaultValue?.trim();
+  if (!value || defaultValueProblem(attr, customTypes)) return undefined;
+  if (attr.type === 'number') return Number(value);
+  if (attr.type === 'boolean') return value === 'true';
+  return value;
+};
+
+// Short type description for cards and diagrams, e.g. "enum(draft|sent)[]"
+// or "Money" for a custom type
+export const formatAttributeType = (attr: Attribute, customTypes?: CustomType[]) => {
+  const customType = findCustomType(customTypes, attr);
+  const values = attr.type === 'enum' && !customType ? getEnumValues(attr) : [];
+  const type = customType?.name.trim() || (values.length > 0 ? `enum(${values.join('|')})` : attr.type);
+  return isListAttribute(attr) ? `${type}[]` : type;
+};
+
+// One-line summary, e.g. "status*: enum(draft|sent) unique = draft"
+export const formatAttribute = (attr: Attribute, customTypes?: CustomType[]) =>
+  `${attr.name}${attr.required ? '*' : ''}: ${formatAttributeType(attr, customTypes)}` +
+  (attr.unique ? ' unique' : '') +
+  (attr.defaultValue?.trim() ? ` = ${attr.defaultValue.trim()}` : '');
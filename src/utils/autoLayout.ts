@@ -0,0 +1,213 @@
+import { Model, Position, Relationship } from '../types';
+import { CANVAS_PADDING, CARD_GAP, CARD_WIDTH } from './layout';
+import { getRelationshipTypes, isContainment } from './relationships';
+
+export type LayoutKind = 'hierarchical' | 'force';
+
+export interface NodeSize {
+  width: number;
+  height: number;
+}
+
+const DEFAULT_SIZE: NodeSize = { width: CARD_WIDTH, height: 200 };
+const LAYER_GAP = 80;
+
+const sizeOf = (sizes: Record<string, NodeSize>, id: string) => sizes[id] ?? DEFAULT_SIZE;
+
+// Relationships whose endpoints both exist, ignoring self-links
+const validRelationships = (model: Model) => {
+  const ids = new Set(model.entities.map(e => e.id));
+  return model.relationships.filter(r => r.from !== r.to && ids.has(r.from) && ids.has(r.to));
+};
+
+// Assign each entity a layer so containers sit above what they contain.
+// Entities outside any containment hierarchy go in the top layer.
+const assignLayers = (ids: string[], edges: Relationship[]) => {
+  const children: Record<string, string[]> = {};
+  const hasParent = new Set<string>();
+  ids.forEach(id => { children[id] = []; });
+  edges.forEach(rel => {
+    children[rel.from].push(rel.to);
+    hasParent.add(rel.to);
+  });
+
+  const layer: Record<string, number> = {};
+  const onPath = new Set<string>();
+
+  // Longest path from a root, skipping edges that would close a cycle
+  const visit = (id: string, depth: number) => {
+    if (onPath.has(id) || (layer[id] ?? -1) >= depth) return;
+    layer[id] = depth;
+    onPath.add(id);
+    children[id].forEach(child => visit(child, depth + 1));
+    onPath.delete(id);
+  };
+
+  ids.filter(id => !hasParent.has(id)).forEach(id => visit(id, 0));
+  // Anything only reachable through a cycle
+  ids.filter(id => layer[id] === undefined).forEach(id => visit(id, 0));
+
+  return layer;
+};
+
+export const hierarchicalLayout = (model: Model, sizes: Record<string, NodeSize> = {}): Record<string, Position> => {
+  const entities = [...model.entities].sort((a, b) => (a.order || 0) - (b.order || 0));
+  const ids = entities.map(e => e.id);
+  const relationships = validRelationships(model);
+  const relationshipTypes = getRelationshipTypes(model);
+  const layerOf = assignLayers(ids, relationships.filter(rel => isContainment(rel, relationshipTypes)));
+
+  const layerCount = Math.max(0, ...Object.values(layerOf)) + 1;
+  const layers: string[][] = Array.from({ length: layerCount }, () => []);
+  ids.forEach(id => layers[layerOf[id]].push(id));
+
+  const neighbours: Record<string, string[]> = {};
+  ids.forEach(id => { neighbours[id] = []; });
+  relationships.forEach(rel => {
+    neighbours[rel.from].push(rel.to);
+    neighbours[rel.to].push(rel.from);
+  });
+
+  // Reduce crossings by ordering each layer by the average position of its
+  // neighbours, sweeping down and then up a few times
+  const indexOf: Record<string, number> = {};
+  const reindex = () => layers.forEach(layer => layer.forEach((id, i) => { indexOf[id] = i; }));
+  reindex();
+
+  const sweep = (layerIndex: number, adjacent: number) => {
+    if (adjacent < 0 || adjacent >= layerCount) return;
+    const barycenter = (id: string) => {
+      const linked = neighbours[id].filter(n => layerOf[n] === adjacent);
+      if (linked.length === 0) return indexOf[id];
+      return linked.reduce((sum, n) => sum + indexOf[n], 0) / linked.length;
+    };
+    const scores = Object.fromEntries(layers[layerIndex].map(id => [id, barycenter(id)]));
+    layers[layerIndex].sort((a, b) => scores[a] - scores[b]);
+    reindex();
+  };
+
+  for (let pass = 0; pass < 4; pass++) {
+    for (let i = 1; i < layerCount; i++) sweep(i, i - 1);
+    for (let i = layerCount - 2; i >= 0; i--) sweep(i, i + 1);
+  }
+
+  const layerWidth = (layer: string[]) =>
+    layer.reduce((sum, id) => sum + sizeOf(sizes, id).width, 0) + Math.max(0, layer.length - 1) * CARD_GAP;
+  const widest = Math.max(0, ...layers.map(layerWidth));
+
+  const positions: Record<string, Position> = {};
+  let y = CANVAS_PADDING;
+  layers.forEach(layer => {
+    let x = CANVAS_PADDING + (widest - layerWidth(layer)) / 2;
+    layer.forEach(id => {
+      positions[id] = { x: Math.round(x), y: Math.round(y) };
+      x += sizeOf(sizes, id).width + CARD_GAP;
+    });
+    y += Math.max(0, ...layer.map(id => sizeOf(sizes, id).height)) + LAYER_GAP;
+  });
+
+  return positions;
+};
+
+// Fruchterman-Reingold force-directed layout. Starts from a circle in entity
+// order so the result is the same every time for the same model.
+export const forceLayout = (model: Model, sizes: Record<string, NodeSize> = {}): Record<string, Position> => {
+  const entities = [...model.entities].sort((a, b) => (a.order || 0) - (b.order || 0));
+  const count = entities.length;
+  if (count === 0) return {};
+
+  const relationships = validRelationships(model);
+  const ideal = Math.max(...entities.map(e => sizeOf(sizes, e.id).width)) + CARD_GAP * 3;
+  const radius = (ideal * count) / (2 * Math.PI);
+
+  const points = entities.map((_, i) => ({
+    x: radius * Math.cos((2 * Math.PI * i) / count),
+    y: radius * Math.sin((2 * Math.PI * i) / count)
+  }));
+  const indexOf = Object.fromEntries(entities.map((e, i) => [e.id, i]));
+
+  const iterations = 300;
+  let temperature = ideal;
+
+  for (let step = 0; step < iterations; step++) {
+    const shift = points.map(() => ({ x: 0, y: 0 }));
+
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const dx = points[i].x - points[j].x;
+        const dy = points[i].y - points[j].y;
+        const distance = Math.max(Math.hypot(dx, dy), 1);
+        const force = (ideal * ideal) / distance;
+        shift[i].x += (dx / distance) * force;
+        shift[i].y += (dy / distance) * force;
+        shift[j].x -= (dx / distance) * force;
+        shift[j].y -= (dy / distance) * force;
+      }
+    }
+
+    relationships.forEach(rel => {
+      const a = indexOf[rel.from];
+      const b = indexOf[rel.to];
+      const dx = points[a].x - points[b].x;
+      const dy = points[a].y - points[b].y;
+      const distance = Math.max(Math.hypot(dx, dy), 1);
+      const force = (distance * distance) / ideal;
+      shift[a].x -= (dx / distance) * force;
+      shift[a].y -= (dy / distance) * force;
+      shift[b].x += (dx / distance) * force;
+      shift[b].y += (dy / distance) * force;
+    });
+
+    points.forEach((point, i) => {
+      const length = Math.max(Math.hypot(shift[i].x, shift[i].y), 1);
+      const limited = Math.min(length, temperature);
+      point.x += (shift[i].x / length) * limited;
+      point.y += (shift[i].y / length) * limited;
+    });
+
+    temperature = ideal * (1 - (step + 1) / iterations) + 1;
+  }
+
+  // Points repel as if they had no size, so nudge apart any cards that still overlap
+  for (let pass = 0; pass < 50; pass++) {
+    let moved = false;
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const a = sizeOf(sizes, entities[i].id);
+        const b = sizeOf(sizes, entities[j].id);
+        const dx = points[j].x - points[i].x;
+        const dy = points[j].y - points[i].y;
+        const overlapX = (a.width + b.width) / 2 + CARD_GAP - Math.abs(dx);
+        const overlapY = (a.height + b.height) / 2 + CARD_GAP - Math.abs(dy);
+        if (overlapX <= 0 || overlapY <= 0) continue;
+
+        moved = true;
+        if (overlapX < overlapY) {
+          const push = (dx < 0 ? -overlapX : overlapX) / 2;
+          points[i].x -= push;
+          points[j].x += push;
+        } else {
+          const push = (dy < 0 ? -overlapY : overlapY) / 2;
+          points[i].y -= push;
+          points[j].y += push;
+        }
+      }
+    }
+    if (!moved) break;
+  }
+
+  // Card positions are top-left corners; shift everything onto the canvas
+  const minX = Math.min(...points.map((p, i) => p.x - sizeOf(sizes, entities[i].id).width / 2));
+  const minY = Math.min(...points.map((p, i) => p.y - sizeOf(sizes, entities[i].id).height / 2));
+
+  return Object.fromEntries(entities.map((entity, i) => {
+    const size = sizeOf(sizes, entity.id);
+    return [entity.id, {
+      x: Math.round(points[i].x - size.width / 2 - minX + CANVAS_PADDING),
+      y: Math.round(points[i].y - size.height / 2 - minY + CANVAS_PADDING)
+    }];
+  }));
+};
+
+export const computeLayout = (kind: LayoutKind, model: Model, sizes: Record<string, NodeSize> = {}) =>
+  kind === 'hierarchical' ? hierarchicalLayout(model, sizes) : forceLayout(model, sizes);
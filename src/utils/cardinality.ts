@@ -0,0 +1,52 @@
+import { Cardinality, Relationship } from '../types';
+
+export const CARDINALITIES: Cardinality[] = ['0..1', '1', '0..n', '1..n'];
+
+export const DEFAULT_CARDINALITY: Cardinality = '0..n';
+
+export type RelationshipEnd = 'from' | 'to';
+
+export const isRequiredCardinality = (cardinality: Cardinality) =>
+  cardinality === '1' || cardinality === '1..n';
+
+export const isManyCardinality = (cardinality: Cardinality) =>
+  cardinality === '0..n' || cardinality === '1..n';
+
+// Keep the upper bound of a cardinality but change whether it is optional
+export const withRequired = (cardinality: Cardinality, required: boolean): Cardinality => {
+  if (isManyCardinality(cardinality)) {
+    return required ? '1..n' : '0..n';
+  }
+  return required ? '1' : '0..1';
+};
+
+export const getCardinality = (rel: Relationship, end: RelationshipEnd): Cardinality =>
+  (end === 'from' ? rel.fromCardinality : rel.toCardinality) ?? DEFAULT_CARDINALITY;
+
+export const isRequiredEnd = (rel: Relationship, end: RelationshipEnd): boolean =>
+  (end === 'from' ? rel.fromRequired : rel.toRequired) ?? isRequiredCardinality(getCardinality(rel, end));
+
+// Updates for setting one end's cardinality, keeping its required flag in step
+export const cardinalityUpdates = (end: RelationshipEnd, cardinality: Cardinality): Partial<Relationship> =>
+  end === 'from'
+    ? { fromCardinality: cardinality, fromRequired: isRequiredCardinality(cardinality) }
+    : { toCardinality: cardinality, toRequired: isRequiredCardinality(cardinality) };
+
+// Updates for toggling one end's required flag, keeping its cardinality in step
+export const requiredUpdates = (rel: Relationship, end: RelationshipEnd, required: boolean): Partial<Relationship> => {
+  const cardinality = withRequired(getCardinality(rel, end), required);
+  return end === 'from'
+    ? { fromCardinality: cardinality, fromRequired: required }
+    : { toCardinality: cardinality, toRequired: required };
+};
+
+// Swap the two ends' multiplicity, for when a relationship's direction is flipped
+export const swapEnds = (rel: Relationship): Relationship => ({
+  ...rel,
+  from: rel.to,
+  to: rel.from,
+  fromCardinality: rel.toCardinality,
+  toCardinality: rel.fromCardinality,
+  fromRequired: rel.toRequired,
+  toRequired: rel.fromRequired
+});
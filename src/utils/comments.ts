@@ -0,0 +1,79 @@
+import { Comment, CommentTarget, CommentThread, Model } from '../types';
+import { getRelationshipTypes, relationshipPhrase } from './relationships';
+
+const AUTHOR_STORAGE_KEY = 'ooux-comment-author';
+
+export const createComment = (author: string, text: string): Comment => ({
+  id: `comment-${Date.now()}`,
+  author,
+  text,
+  createdAt: new Date().toISOString()
+});
+
+export const createThread = (target: CommentTarget, author: string, text: string): CommentThread => ({
+  id: `thread-${Date.now()}`,
+  target,
+  comments: [createComment(author, text)]
+});
+
+export const sameTarget = (a: CommentTarget, b: CommentTarget) =>
+  a.entityId === b.entityId && a.attributeIndex === b.attributeIndex && a.relationshipId === b.relationshipId;
+
+export const threadsOn = (model: Model, target: CommentTarget) =>
+  (model.commentThreads || []).filter(thread => sameTarget(thread.target, target));
+
+// Open threads about an entity itself or one of its attributes
+export const openThreadsOnEntity = (model: Model, entityId: string) =>
+  (model.commentThreads || []).filter(thread => !thread.resolved && thread.target.entityId === entityId);
+
+// Readable name of what a thread is about, e.g. "Order.total" or "Order contains Line Item"
+export const describeTarget = (model: Model, target: CommentTarget) => {
+  const entityName = (id?: string) => model.entities.find(e => e.id === id)?.name.trim() || 'Unnamed entity';
+
+  if (target.relationshipId) {
+    const rel = model.relationships.find(r => r.id === target.relationshipId);
+    if (!rel) return 'Deleted relationship';
+    return `${entityName(rel.from)} ${relationshipPhrase(rel, getRelationshipTypes(model), 'from')} ${entityName(rel.to)}`;
+  }
+
+  const entity = model.entities.find(e => e.id === target.entityId);
+  if (!entity) return 'Deleted entity';
+  if (target.attributeIndex === undefined) return entityName(entity.id);
+  const attribute = entity.attributes[target.attributeIndex];
+  return `${entityName(entity.id)}.${attribute?.name.trim() || `attribute ${target.attributeIndex + 1}`}`;
+};
+
+// Threads on a removed attribute carry on as threads on its entity, and the
+// ones on later attributes follow them as they shift up
+export const threadsWithoutAttribute = (threads: CommentThread[], entityId: string, index: number) =>
+  threads.map(thread => {
+    const { target } = thread;
+    if (target.entityId !== entityId || target.attributeIndex === undefined || target.attributeIndex < index) {
+      return thread;
+    }
+    return {
+      ...thread,
+      target: target.attributeIndex === index ? { entityId } : { ...target, attributeIndex: target.attributeIndex - 1 }
+    };
+  });
+
+// Drop threads whose entity or relationship no longer exists
+export const threadsWithTargetsIn = (threads: CommentThread[], model: Pick<Model, 'entities' | 'relationships'>) => {
+  const entityIds = new Set(model.entities.map(e => e.id));
+  const relationshipIds = new Set(model.relationships.map(r => r.id));
+  return threads.filter(({ target }) =>
+    target.relationshipId ? relationshipIds.has(target.relationshipId) : entityIds.has(target.entityId ?? '')
+  );
+};
+
+// Name to sign comments with: the collaboration name when there is one,
+// otherwise asked for once and remembered
+export const resolveCommentAuthor = (sharedName: string) => {
+  if (sharedName.trim()) return sharedName.trim();
+  const saved = localStorage.getItem(AUTHOR_STORAGE_KEY);
+  if (saved) return saved;
+  const name = prompt('Your name, to sign comments with:')?.trim();
+  if (!name) return null;
+  localStorage.setItem(AUTHOR_STORAGE_KEY, name);
+  return name;
+};
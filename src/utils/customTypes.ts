@@ -0,0 +1,101 @@
+import { Attribute, CustomType, CustomTypeKind, PrimitiveType } from '../types';
+
+// Value of a custom type in an attribute type <select>, next to the primitives
+const CUSTOM_PREFIX = 'custom:';
+
+export const createCustomType = (kind: CustomTypeKind, name: string): CustomType => ({
+  id: `type-${Date.now()}`,
+  name,
+  kind,
+  base: 'string',
+  fields: kind === 'composite' ? [{ name: '', type: 'string' }] : []
+});
+
+export const findCustomType = (customTypes: CustomType[] | undefined, attr: Attribute) =>
+  attr.customType ? customTypes?.find(t => t.id === attr.customType) : undefined;
+
+// The primitive stored in an attribute's type for a custom type
+export const customBaseType = (customType: CustomType): PrimitiveType =>
+  customType.kind === 'constrained' ? customType.base : 'string';
+
+export const attributeTypeValue = (attr: Attribute) =>
+  attr.customType ? `${CUSTOM_PREFIX}${attr.customType}` : attr.type;
+
+// Switch an attribute to a primitive or custom type chosen from a <select>
+export const withAttributeType = (attr: Attribute, value: string, customTypes: CustomType[] = []): Attribute => {
+  const { customType: _previous, ...rest } = attr;
+  if (!value.startsWith(CUSTOM_PREFIX)) return { ...rest, type: value as PrimitiveType };
+
+  const customType = customTypes.find(t => t.id === value.slice(CUSTOM_PREFIX.length));
+  return customType ? { ...rest, type: customBaseType(customType), customType: customType.id } : attr;
+};
+
+export const customTypeOptionValue = (customType: CustomType) => `${CUSTOM_PREFIX}${customType.id}`;
+
+export const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Why a value breaks a constrained primitive's constraints, or null if it doesn't
+export const constraintProblem = (customType: CustomType, value: string): string | null => {
+  const { pattern, minLength, maxLength, minimum, maximum } = customType;
+  if (pattern && isValidPattern(pattern) && !new RegExp(pattern).test(value)) {
+    return `does not match ${customType.name}'s pattern`;
+  }
+  if (minLength !== undefined && value.length < minLength) return `is shorter than ${minLength} characters`;
+  if (maxLength !== undefined && value.length > maxLength) return `is longer than ${maxLength} characters`;
+  if (customType.base === 'number') {
+    const number = Number(value);
+    if (minimum !== undefined && number < minimum) return `is less than ${minimum}`;
+    if (maximum !== undefined && number > maximum) return `is more than ${maximum}`;
+  }
+  return null;
+};
+
+// Constraints in words, for comments and cards, e.g. "pattern ^\S+@\S+$, at most 255 characters"
+export const describeConstraints = (customType: CustomType) => {
+  const parts: string[] = [];
+  if (customType.pattern) parts.push(`pattern ${customType.pattern}`);
+  if (customType.minLength !== undefined) parts.push(`at least ${customType.minLength} characters`);
+  if (customType.maxLength !== undefined) parts.push(`at most ${customType.maxLength} characters`);
+  if (customType.minimum !== undefined) parts.push(`minimum ${customType.minimum}`);
+  if (customType.maximum !== undefined) parts.push(`maximum ${customType.maximum}`);
+  return parts.join(', ');
+};
+
+// Value objects that contain themselves, directly or through other value objects
+export const cyclicCustomTypes = (customTypes: CustomType[]) => {
+  const byId = new Map(customTypes.map(t => [t.id, t]));
+  const reaches = (from: CustomType, targetId: string, seen: Set<string>): boolean =>
+    from.fields.some(field => {
+      if (!field.customType || seen.has(field.customType)) return false;
+      if (field.customType === targetId) return true;
+      seen.add(field.customType);
+      const next = byId.get(field.customType);
+      return next ? reaches(next, targetId, seen) : false;
+    });
+  return customTypes.filter(t => t.kind === 'composite' && reaches(t, t.id, new Set()));
+};
+
+// Custom types in an order where each value object follows the types its fields use
+export const orderedCustomTypes = (customTypes: CustomType[]) => {
+  const byId = new Map(customTypes.map(t => [t.id, t]));
+  const ordered: CustomType[] = [];
+  const visited = new Set<string>();
+  const visit = (customType: CustomType) => {
+    if (visited.has(customType.id)) return;
+    visited.add(customType.id);
+    customType.fields.forEach(field => {
+      const dependency = field.customType ? byId.get(field.customType) : undefined;
+      if (dependency) visit(dependency);
+    });
+    ordered.push(customType);
+  };
+  customTypes.forEach(visit);
+  return ordered;
+};
@@ -0,0 +1,16 @@
+// Save a blob through a temporary link, so the browser downloads it
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.style.display = 'none';
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export const downloadFile = (content: string, filename: string, mimeType: string) => {
+  downloadBlob(new Blob([content], { type: mimeType }), filename);
+};
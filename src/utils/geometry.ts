@@ -0,0 +1,21 @@
+export interface CardRect {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+// Point where the line from the card's centre towards (dx, dy) leaves the card.
+// With no direction, e.g. for cards dropped on top of each other, it's the centre.
+export const edgePoint = (rect: CardRect, dx: number, dy: number) => {
+  const cx = (rect.left + rect.right) / 2;
+  const cy = (rect.top + rect.bottom) / 2;
+  if (dx === 0 && dy === 0) return { x: cx, y: cy };
+  const halfWidth = (rect.right - rect.left) / 2;
+  const halfHeight = (rect.bottom - rect.top) / 2;
+  const t = Math.min(
+    dx === 0 ? Infinity : halfWidth / Math.abs(dx),
+    dy === 0 ? Infinity : halfHeight / Math.abs(dy)
+  );
+  return { x: cx + dx * t, y: cy + dy * t };
+};
@@ -0,0 +1,33 @@
+import { Entity, Model, Relationship } from '../types';
+
+// What produced a version of the model, as listed in the undo history
+export interface HistoryStep {
+  // e.g. "Rename Order" or "Add relationship Customer→Order"
+  label: string;
+  // Edits to the same field, each made soon after the last, e.g. the
+  // keystrokes typing a name
+  group?: string;
+  // When the step was last added to, in ms
+  at: number;
+}
+
+// Typing stops being one step after a pause this long
+export const TYPING_PAUSE_MS = 1000;
+
+export const initialHistoryStep: HistoryStep = { label: 'Open model', at: 0 };
+
+// Whether the next edit adds to the previous step rather than starting a new one
+export const continuesStep = (previous: HistoryStep, next: HistoryStep) =>
+  !!next.group && next.group === previous.group && next.at - previous.at < TYPING_PAUSE_MS;
+
+export const entityName = (entity: Entity) => entity.name.trim() || 'unnamed entity';
+
+// Name of an entity in a model, for labelling steps that refer to it by id
+export const entityNameById = (model: Model, entityId: string) => {
+  const entity = model.entities.find(e => e.id === entityId);
+  return entity ? entityName(entity) : 'unknown entity';
+};
+
+// e.g. "Customer→Order"
+export const relationshipName = (model: Model, rel: Relationship) =>
+  `${entityNameById(model, rel.from)}→${entityNameById(model, rel.to)}`;
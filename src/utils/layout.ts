@@ -0,0 +1,13 @@
+import { Entity, Position } from '../types';
+
+export const CARD_WIDTH = 280;
+export const CARD_GAP = 24;
+export const CANVAS_PADDING = 24;
+
+// Where an entity sits on the free-form canvas. Entities that haven't been
+// placed yet are laid out in a row by order, matching the strip view.
+export const getEntityPosition = (entity: Entity): Position =>
+  entity.position ?? {
+    x: CANVAS_PADDING + (entity.order || 0) * (CARD_WIDTH + CARD_GAP),
+    y: CANVAS_PADDING
+  };
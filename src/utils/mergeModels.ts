@@ -0,0 +1,216 @@
+import { ActionPermission, Attribute, CommentThread, CustomType, Entity, Model, Relationship, Role } from '../types';
+import { getRelationshipTypes } from './relationships';
+
+export type MergeResolution = 'keep' | 'replace' | 'rename';
+
+export interface MergeConflict {
+  incomingId: string;
+  existingId: string;
+  incomingName: string;
+  existingName: string;
+  // Whether the entities share an id, a name, or both
+  sameId: boolean;
+  sameName: boolean;
+}
+
+export interface MergeSummary {
+  added: number;
+  kept: number;
+  replaced: number;
+  renamed: number;
+  relationshipsAdded: number;
+}
+
+const normalize = (name: string) => name.trim().toLowerCase();
+
+// Match each incoming entity against the current model, by id first and then by name
+export const findMergeConflicts = (current: Model, incoming: Model): MergeConflict[] =>
+  incoming.entities.flatMap(entity => {
+    const existing =
+      current.entities.find(e => e.id === entity.id) ??
+      current.entities.find(e => normalize(e.name) === normalize(entity.name));
+    if (!existing) return [];
+
+    return [{
+      incomingId: entity.id,
+      existingId: existing.id,
+      incomingName: entity.name,
+      existingName: existing.name,
+      sameId: existing.id === entity.id,
+      sameName: normalize(existing.name) === normalize(entity.name)
+    }];
+  });
+
+const uniqueName = (name: string, taken: Set<string>) => {
+  let candidate = name;
+  for (let n = 2; taken.has(normalize(candidate)); n++) {
+    candidate = `${name} (${n})`;
+  }
+  taken.add(normalize(candidate));
+  return candidate;
+};
+
+// The id itself, or with -2, -3… appended until it's not taken; the result is then taken
+const uniqueId = (taken: Set<string>, id: string) => {
+  let candidate = id;
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = `${id}-${n}`;
+  }
+  taken.add(candidate);
+  return candidate;
+};
+
+// Catalogue entries such as custom types and roles are matched by name, so an
+// incoming Money reuses the current Money; the rest are added under a free id.
+// Returns the merged list and the id each incoming entry ended up with.
+const mergeCatalogue = <T extends { id: string }>(current: T[], incoming: T[], nameOf: (entry: T) => string) => {
+  const takenIds = new Set(current.map(entry => entry.id));
+  const idMap = new Map<string, string>();
+  const merged = [...current];
+
+  incoming.forEach(entry => {
+    const existing = merged.find(other => normalize(nameOf(other)) === normalize(nameOf(entry)));
+    const id = existing ? existing.id : uniqueId(takenIds, entry.id);
+    idMap.set(entry.id, id);
+    if (!existing) merged.push({ ...entry, id });
+  });
+
+  return { merged, idMap };
+};
+
+// Returns the merged registry and a function that points incoming attributes at it
+const mergeCustomTypes = (current: CustomType[], incoming: CustomType[]) => {
+  const { merged, idMap } = mergeCatalogue(current, incoming, customType => customType.name);
+  const remap = (attr: Attribute): Attribute =>
+    attr.customType ? { ...attr, customType: idMap.get(attr.customType) ?? attr.customType } : attr;
+
+  return {
+    customTypes: [...current, ...merged.slice(current.length).map(t => ({ ...t, fields: t.fields.map(remap) }))],
+    remap
+  };
+};
+
+// Roles match by name like custom types, so both models' permissions end up
+// granting the same role
+const mergeRoles = (current: Role[], incoming: Role[]) => {
+  const { merged, idMap } = mergeCatalogue(current, incoming, role => role.name);
+  const remapPermission = (permission: ActionPermission): ActionPermission => ({
+    ...permission,
+    roleIds: permission.roleIds.map(id => idMap.get(id) ?? id)
+  });
+
+  return { roles: merged, remapPermission };
+};
+
+// Union the incoming model into the current one. Conflicting entities are
+// resolved per entity (defaulting to rename), and incoming relationships are
+// remapped onto whichever entity each incoming one ended up as.
+export const mergeModels = (
+  current: Model,
+  incoming: Model,
+  resolutions: Record<string, MergeResolution> = {}
+): { model: Model; summary: MergeSummary } => {
+  const conflicts = new Map(findMergeConflicts(current, incoming).map(c => [c.incomingId, c]));
+  const summary: MergeSummary = { added: 0, kept: 0, replaced: 0, renamed: 0, relationshipsAdded: 0 };
+
+  const takenIds = new Set(current.entities.map(e => e.id));
+  const takenNames = new Set(current.entities.map(e => normalize(e.name)));
+  const idMap = new Map<string, string>();
+  const replacements = new Map<string, Entity>();
+  const added: Entity[] = [];
+  let nextOrder = Math.max(-1, ...current.entities.map(e => e.order || 0)) + 1;
+  const { customTypes, remap } = mergeCustomTypes(current.customTypes || [], incoming.customTypes || []);
+  const { roles, remapPermission } = mergeRoles(current.roles || [], incoming.roles || []);
+
+  incoming.entities.forEach(original => {
+    const entity = { ...original, attributes: original.attributes.map(remap) };
+    if (original.permissions) entity.permissions = original.permissions.map(remapPermission);
+    const conflict = conflicts.get(entity.id);
+    const resolution = conflict ? resolutions[entity.id] ?? 'rename' : null;
+
+    if (conflict && resolution === 'keep') {
+      idMap.set(entity.id, conflict.existingId);
+      summary.kept++;
+    } else if (conflict && resolution === 'replace') {
+      const existing = current.entities.find(e => e.id === conflict.existingId)!;
+      replacements.set(existing.id, { ...entity, id: existing.id, order: existing.order });
+      idMap.set(entity.id, existing.id);
+      summary.replaced++;
+    } else {
+      const id = uniqueId(takenIds, entity.id);
+      const name = conflict ? uniqueName(entity.name, takenNames) : entity.name;
+      takenNames.add(normalize(name));
+      added.push({ ...entity, id, name, order: nextOrder++ });
+      idMap.set(entity.id, id);
+      if (conflict) {
+        summary.renamed++;
+      } else {
+        summary.added++;
+      }
+    }
+  });
+
+  const entities = [
+    ...current.entities.map(e => replacements.get(e.id) ?? e),
+    ...added
+  ];
+
+  // Skip relationships that duplicate one already present after remapping
+  const relationshipKey = (r: Relationship) => `${r.from}|${r.to}|${r.label}`;
+  const existingRels = new Map(current.relationships.map(r => [relationshipKey(r), r.id]));
+  const takenRelIds = new Set(current.relationships.map(r => r.id));
+  const relationships = [...current.relationships];
+  const relIdMap = new Map<string, string>();
+
+  incoming.relationships.forEach(rel => {
+    const from = idMap.get(rel.from);
+    const to = idMap.get(rel.to);
+    if (!from || !to || from === to) return;
+
+    const remapped = { ...rel, from, to };
+    const key = relationshipKey(remapped);
+    const duplicate = existingRels.get(key);
+    if (duplicate) {
+      relIdMap.set(rel.id, duplicate);
+      return;
+    }
+
+    const id = uniqueId(takenRelIds, rel.id);
+    existingRels.set(key, id);
+    relIdMap.set(rel.id, id);
+
+    relationships.push({ ...remapped, id });
+    summary.relationshipsAdded++;
+  });
+
+  // Threads follow their entity or relationship. A kept entity keeps its own
+  // attributes, so threads on the incoming attributes move to the entity.
+  const keptIds = new Set([...conflicts.values()].filter(c => (resolutions[c.incomingId] ?? 'rename') === 'keep').map(c => c.incomingId));
+  const takenThreadIds = new Set((current.commentThreads || []).map(thread => thread.id));
+  const commentThreads = [...(current.commentThreads || [])];
+  (incoming.commentThreads || []).forEach(thread => {
+    const { entityId, attributeIndex, relationshipId } = thread.target;
+    let target: CommentThread['target'] | null = null;
+    if (relationshipId) {
+      const id = relIdMap.get(relationshipId);
+      target = id ? { relationshipId: id } : null;
+    } else if (entityId && idMap.has(entityId)) {
+      target = attributeIndex === undefined || keptIds.has(entityId)
+        ? { entityId: idMap.get(entityId) }
+        : { entityId: idMap.get(entityId), attributeIndex };
+    }
+    if (!target) return;
+
+    commentThreads.push({ ...thread, id: uniqueId(takenThreadIds, thread.id), target });
+  });
+
+  const model: Model = { ...current, entities, relationships };
+  if (commentThreads.length > 0) model.commentThreads = commentThreads;
+  if (customTypes.length > 0) model.customTypes = customTypes;
+  if (roles.length > 0) model.roles = roles;
+  if (current.relationshipTypes || incoming.relationshipTypes) {
+    // Relationship types match by label, which is what relationships refer to
+    model.relationshipTypes = mergeCatalogue(getRelationshipTypes(current), getRelationshipTypes(incoming), type => type.label).merged;
+  }
+  return { model, summary };
+};
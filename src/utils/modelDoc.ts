@@ -0,0 +1,148 @@
+import * as Y from 'yjs';
+import { Attribute, CommentThread, Entity, Model, Relationship, Snapshot } from '../types';
+import { readModel as readModelFile } from '../schema/modelFile';
+
+// A model in a shared Yjs document. Entities are maps holding their
+// attributes, states and actions as arrays, so concurrent edits to different
+// entities, fields or list items merge instead of overwriting each other.
+// Relationships, comment threads and snapshots are stored whole by id; the model-level
+// lists are small and edited one dialog at a time, so they're stored whole too.
+
+type EntityMap = Y.Map<unknown>;
+
+const ENTITY_LISTS = ['attributes', 'states', 'actions'] as const;
+const MODEL_LISTS = ['customTypes', 'roles', 'relationshipTypes'] as const;
+
+export const modelRoots = (doc: Y.Doc) => ({
+  entities: doc.getMap<EntityMap>('entities'),
+  relationships: doc.getMap<Relationship>('relationships'),
+  commentThreads: doc.getMap<CommentThread>('commentThreads'),
+  snapshots: doc.getMap<Snapshot>('snapshots'),
+  lists: doc.getMap<unknown>('lists')
+});
+
+export const isModelDocEmpty = (doc: Y.Doc) =>
+  Object.values(modelRoots(doc)).every(root => root.size === 0);
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Make a map's entries match a plain object, leaving unchanged ones alone
+const syncFields = (map: Y.Map<unknown>, values: object, skip: readonly string[] = []) => {
+  const entries = Object.entries(values).filter(([key, value]) => value !== undefined && !skip.includes(key));
+  const keys = new Set(entries.map(([key]) => key));
+  [...map.keys()].filter(key => !keys.has(key) && !skip.includes(key)).forEach(key => map.delete(key));
+  entries.forEach(([key, value]) => {
+    if (!same(map.get(key), value)) map.set(key, value);
+  });
+};
+
+// The part of a list that differs, after its common start and end
+const changedRange = <T>(current: T[], next: T[], equal: (a: T, b: T) => boolean) => {
+  let start = 0;
+  while (start < current.length && start < next.length && equal(current[start], next[start])) start++;
+  let end = 0;
+  while (
+    end < current.length - start &&
+    end < next.length - start &&
+    equal(current[current.length - 1 - end], next[next.length - 1 - end])
+  ) end++;
+  return { start, removed: current.length - start - end, inserted: next.slice(start, next.length - end) };
+};
+
+const arrayIn = <T>(map: EntityMap, key: string) => {
+  let array = map.get(key);
+  if (!(array instanceof Y.Array)) {
+    array = new Y.Array<T>();
+    map.set(key, array);
+  }
+  return array as Y.Array<T>;
+};
+
+const syncStrings = (array: Y.Array<string>, next: string[]) => {
+  const { start, removed, inserted } = changedRange(array.toArray(), next, (a, b) => a === b);
+  if (removed > 0) array.delete(start, removed);
+  if (inserted.length > 0) array.insert(start, inserted);
+};
+
+const attributeMap = (attr: Attribute) =>
+  new Y.Map<unknown>(Object.entries(attr).filter(([, value]) => value !== undefined));
+
+// Attributes edited in place keep their maps, so two people changing different
+// fields of one attribute both win
+const syncAttributes = (array: Y.Array<Y.Map<unknown>>, next: Attribute[]) => {
+  const current = array.toArray();
+  const { start, removed, inserted } = changedRange(
+    current.map(map => map.toJSON() as Attribute),
+    next,
+    same
+  );
+  if (removed === inserted.length) {
+    inserted.forEach((attr, i) => syncFields(current[start + i], attr));
+    return;
+  }
+  if (removed > 0) array.delete(start, removed);
+  if (inserted.length > 0) array.insert(start, inserted.map(attributeMap));
+};
+
+const syncEntity = (map: EntityMap, entity: Entity) => {
+  syncFields(map, entity, ENTITY_LISTS);
+  syncAttributes(arrayIn(map, 'attributes'), entity.attributes || []);
+  syncStrings(arrayIn(map, 'states'), entity.states || []);
+  syncStrings(arrayIn(map, 'actions'), entity.actions || []);
+};
+
+const syncById = <T extends { id: string }>(map: Y.Map<T>, items: T[]) => {
+  const ids = new Set(items.map(item => item.id));
+  [...map.keys()].filter(id => !ids.has(id)).forEach(id => map.delete(id));
+  items.forEach(item => {
+    if (!same(map.get(item.id), item)) map.set(item.id, item);
+  });
+};
+
+// Apply the difference between the document and a model, as one transaction
+export const writeModel = (doc: Y.Doc, model: Model, origin?: unknown) => {
+  const { entities, relationships, commentThreads, snapshots, lists } = modelRoots(doc);
+
+  doc.transact(() => {
+    const entityIds = new Set(model.entities.map(e => e.id));
+    [...entities.keys()].filter(id => !entityIds.has(id)).forEach(id => entities.delete(id));
+    model.entities.forEach(entity => {
+      let map = entities.get(entity.id);
+      if (!map) {
+        map = new Y.Map<unknown>();
+        entities.set(entity.id, map);
+      }
+      syncEntity(map, entity);
+    });
+
+    syncById(relationships, model.relationships);
+    syncById(commentThreads, model.commentThreads || []);
+    syncById(snapshots, model.snapshots || []);
+
+    syncFields(lists, Object.fromEntries(MODEL_LISTS.map(key => [key, model[key]])));
+  }, origin);
+};
+
+// Values in a map, in key order so every client reads them the same way
+const valuesOf = <T>(map: Y.Map<T>): unknown[] =>
+  [...map.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, value]) => (value instanceof Y.Map ? value.toJSON() : value));
+
+// The model goes through the file reader, so a malformed value from another
+// client is repaired the way an imported file would be. Concurrently added
+// entities can share an order, so ties go by id.
+export const readModel = (doc: Y.Doc): Model => {
+  const { entities, relationships, commentThreads, snapshots, lists } = modelRoots(doc);
+  const { model } = readModelFile({
+    entities: valuesOf(entities),
+    relationships: valuesOf(relationships),
+    ...(commentThreads.size > 0 && { commentThreads: valuesOf(commentThreads) }),
+    ...(snapshots.size > 0 && { snapshots: valuesOf(snapshots) }),
+    ...Object.fromEntries(MODEL_LISTS.filter(key => lists.has(key)).map(key => [key, lists.get(key)]))
+  }, 'lenient');
+
+  model.entities.sort((a, b) => (a.order || 0) - (b.order || 0) || a.id.localeCompare(b.id));
+  model.snapshots?.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  return model;
+};
@@ -0,0 +1,75 @@
+import { ActionPermission, Entity, Model, Role } from '../types';
+import { validTransitions } from './stateMachine';
+
+export const createRole = (name: string): Role => ({
+  id: `role-${Date.now()}`,
+  name
+});
+
+const distinct = (values: string[]) => [...new Set(values.map(value => value.trim()).filter(Boolean))];
+
+export const findPermission = (entity: Entity, action: string) =>
+  (entity.permissions || []).find(p => p.action.trim() === action.trim());
+
+// Set part of an action's permission, dropping it once it says nothing
+export const withActionPermission = (
+  permissions: ActionPermission[] = [],
+  action: string,
+  updates: Partial<Omit<ActionPermission, 'action'>>
+): ActionPermission[] => {
+  const existing = permissions.find(p => p.action.trim() === action.trim());
+  const updated: ActionPermission = { ...(existing ?? { action: action.trim(), roleIds: [] }), ...updates };
+  if (updated.states?.length === 0) delete updated.states;
+  if (updated.roleIds.length === 0 && !updated.states) return permissions.filter(p => p !== existing);
+  return existing ? permissions.map(p => (p === existing ? updated : p)) : [...permissions, updated];
+};
+
+// Permissions name actions and states trimmed, so they are matched that way.
+// Keep them pointing at an action or state when it's renamed.
+export const renameInPermissions = (
+  permissions: ActionPermission[],
+  kind: 'state' | 'action',
+  oldName: string,
+  newName: string
+): ActionPermission[] =>
+  permissions.map(p => {
+    if (kind === 'action') return p.action.trim() === oldName.trim() ? { ...p, action: newName.trim() } : p;
+    return p.states ? { ...p, states: p.states.map(state => (state.trim() === oldName.trim() ? newName.trim() : state)) } : p;
+  });
+
+export const permissionsWithout = (permissions: ActionPermission[], kind: 'state' | 'action', name: string) =>
+  kind === 'action'
+    ? permissions.filter(p => p.action.trim() !== name.trim())
+    : permissions.map(p => (p.states ? { ...p, states: p.states.filter(state => state.trim() !== name.trim()) } : p));
+
+export const permissionsWithoutRole = (permissions: ActionPermission[], roleId: string) =>
+  permissions.map(p => (p.roleIds.includes(roleId) ? { ...p, roleIds: p.roleIds.filter(id => id !== roleId) } : p));
+
+// States an action moves the entity out of, which suit it as preconditions
+export const transitionStates = (entity: Entity, action: string) =>
+  distinct(validTransitions(entity).filter(t => t.action === action.trim()).map(t => t.from));
+
+export interface PermissionRow {
+  entity: Entity;
+  action: string;
+  roles: Role[];
+  states: string[];
+}
+
+// One row per distinct action of each entity, in entity order
+export const permissionRows = (model: Model): PermissionRow[] => {
+  const roles = model.roles || [];
+  return [...model.entities]
+    .sort((a, b) => (a.order || 0) - (b.order || 0))
+    .flatMap(entity =>
+      distinct(entity.actions || []).map(action => {
+        const permission = findPermission(entity, action);
+        return {
+          entity,
+          action,
+          roles: roles.filter(role => permission?.roleIds.includes(role.id)),
+          states: distinct(permission?.states || []),
+        };
+      })
+    );
+};
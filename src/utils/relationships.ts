@@ -0,0 +1,55 @@
+import { Model, Relationship, RelationshipKind, RelationshipType } from '../types';
+
+export const RELATIONSHIP_KINDS: RelationshipKind[] = ['composition', 'aggregation', 'association'];
+
+export const DEFAULT_RELATIONSHIP_TYPES: RelationshipType[] = [
+  { id: 'relates-to', label: 'relates to', inverseLabel: 'relates to', kind: 'association' },
+  { id: 'contains', label: 'contains', inverseLabel: 'belongs to', kind: 'composition' }
+];
+
+export const getRelationshipTypes = (model: Pick<Model, 'relationshipTypes'>) =>
+  model.relationshipTypes ?? DEFAULT_RELATIONSHIP_TYPES;
+
+export const createRelationshipType = (label: string): RelationshipType => ({
+  id: `reltype-${Date.now()}`,
+  label,
+  inverseLabel: '',
+  kind: 'association'
+});
+
+const sameLabel = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const findRelationshipType = (types: RelationshipType[], rel: Pick<Relationship, 'label'>) =>
+  types.find(t => sameLabel(t.label, rel.label));
+
+// Relationships without a catalogued type are plain associations
+export const relationshipKind = (rel: Relationship, types: RelationshipType[]) =>
+  findRelationshipType(types, rel)?.kind ?? 'association';
+
+export const isContainment = (rel: Relationship, types: RelationshipType[]) =>
+  relationshipKind(rel, types) === 'composition';
+
+// Wording from one end, e.g. "contains" from the container and "belongs to"
+// from the part. Types without an inverse read the same both ways.
+export const relationshipPhrase = (rel: Relationship, types: RelationshipType[], end: 'from' | 'to') => {
+  if (end === 'from') return rel.label;
+  return findRelationshipType(types, rel)?.inverseLabel.trim() || rel.label;
+};
+
+// Every wording of the catalogue, forward and inverse, plus a relationship's
+// current wording when the catalogue lacks it
+export const relationshipPhrases = (types: RelationshipType[], current?: string) =>
+  [...new Set([...types.flatMap(t => [t.label.trim(), t.inverseLabel.trim()]), current ?? ''].filter(Boolean))];
+
+// Label for a relationship reworded from one end, and whether its ends must
+// swap so that it still reads "from label to"
+export const labelForPhrase = (types: RelationshipType[], phrase: string, end: 'from' | 'to') => {
+  const forward = types.find(t => sameLabel(t.label, phrase));
+  if (forward) {
+    const symmetric = !forward.inverseLabel.trim() || sameLabel(forward.inverseLabel, forward.label);
+    return { label: forward.label, swap: end === 'to' && !symmetric };
+  }
+  const inverse = types.find(t => t.inverseLabel.trim() && sameLabel(t.inverseLabel, phrase));
+  if (inverse) return { label: inverse.label, swap: end === 'from' };
+  return { label: phrase, swap: false };
+};
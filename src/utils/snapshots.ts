@@ -0,0 +1,165 @@
+import { Attribute, Entity, Model, Relationship, Snapshot } from '../types';
+import { getRelationshipTypes, relationshipPhrase } from './relationships';
+import { formatAttribute } from './attributes';
+import { getCardinality } from './cardinality';
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export interface ListChanges {
+  added: string[];
+  removed: string[];
+}
+
+export interface EntityChange {
+  kind: ChangeKind;
+  // The entity's id in the newer model, or in the older one once removed
+  entityId: string;
+  name: string;
+  renamedFrom?: string;
+  attributes: ListChanges & { changed: { name: string; before: string; after: string }[] };
+  states: ListChanges;
+  actions: ListChanges;
+}
+
+export interface RelationshipChange {
+  kind: ChangeKind;
+  relationshipId: string;
+  // e.g. "Order contains Line Item"
+  description: string;
+  before?: string;
+}
+
+export interface ModelDiff {
+  entities: EntityChange[];
+  relationships: RelationshipChange[];
+}
+
+export const createSnapshot = (name: string, model: Model): Snapshot => {
+  const { snapshots: _snapshots, ...content } = model;
+  return {
+    id: `snapshot-${Date.now()}`,
+    name,
+    createdAt: new Date().toISOString(),
+    model: content
+  };
+};
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const listChanges = (before: string[], after: string[]): ListChanges => {
+  const beforeSet = new Set(before.map(normalize));
+  const afterSet = new Set(after.map(normalize));
+  return {
+    added: after.filter(value => value.trim() && !beforeSet.has(normalize(value))),
+    removed: before.filter(value => value.trim() && !afterSet.has(normalize(value)))
+  };
+};
+
+// Attributes are matched by name, so a renamed one shows as removed and added
+const attributeChanges = (before: Attribute[], after: Attribute[], beforeModel: Model, afterModel: Model) => {
+  const { added, removed } = listChanges(before.map(a => a.name), after.map(a => a.name));
+  const changed = after.flatMap(attr => {
+    const old = before.find(a => normalize(a.name) === normalize(attr.name));
+    if (!old || JSON.stringify(old) === JSON.stringify(attr)) return [];
+    return [{
+      name: attr.name,
+      before: formatAttribute(old, beforeModel.customTypes),
+      after: formatAttribute(attr, afterModel.customTypes)
+    }];
+  });
+  return { added, removed, changed };
+};
+
+const isUnchanged = (change: EntityChange) =>
+  change.kind === 'changed' &&
+  !change.renamedFrom &&
+  [change.attributes, change.states, change.actions].every(list => list.added.length === 0 && list.removed.length === 0) &&
+  change.attributes.changed.length === 0;
+
+// Match entities by id, then by name, so a model re-imported with new ids
+// still lines up
+const matchEntities = (before: Entity[], after: Entity[]) => {
+  const matches = new Map<string, Entity>();
+  const unmatched = new Set(before);
+  after.forEach(entity => {
+    const old = before.find(e => e.id === entity.id && unmatched.has(e)) ??
+      before.find(e => unmatched.has(e) && normalize(e.name) === normalize(entity.name));
+    if (old) {
+      matches.set(entity.id, old);
+      unmatched.delete(old);
+    }
+  });
+  return { matches, removed: [...unmatched] };
+};
+
+const describeRelationship = (rel: Relationship, model: Model) => {
+  const name = (id: string) => model.entities.find(e => e.id === id)?.name.trim() || 'Unknown';
+  return `${name(rel.from)} ${relationshipPhrase(rel, getRelationshipTypes(model), 'from')} ${name(rel.to)}`;
+};
+
+const cardinalities = (rel: Relationship) => `${getCardinality(rel, 'from')} to ${getCardinality(rel, 'to')}`;
+
+// What changed going from one model to another
+export const diffModels = (before: Model, after: Model): ModelDiff => {
+  const { matches, removed } = matchEntities(before.entities, after.entities);
+
+  const entities: EntityChange[] = [
+    ...after.entities.map(entity => {
+      const old = matches.get(entity.id);
+      return {
+        kind: old ? 'changed' as const : 'added' as const,
+        entityId: entity.id,
+        name: entity.name,
+        ...(old && old.name !== entity.name && { renamedFrom: old.name }),
+        attributes: attributeChanges(old?.attributes || [], entity.attributes || [], before, after),
+        states: listChanges(old?.states || [], entity.states || []),
+        actions: listChanges(old?.actions || [], entity.actions || [])
+      };
+    }),
+    ...removed.map(entity => ({
+      kind: 'removed' as const,
+      entityId: entity.id,
+      name: entity.name,
+      attributes: { added: [], removed: entity.attributes.map(a => a.name), changed: [] },
+      states: { added: [], removed: entity.states || [] },
+      actions: { added: [], removed: entity.actions || [] }
+    }))
+  ].filter(change => !isUnchanged(change));
+
+  // Relationships line up by id, or else by their matched endpoints and label
+  const beforeIdOf = (afterId: string) => matches.get(afterId)?.id;
+  const unmatchedBefore = new Set(before.relationships);
+  const relationships: RelationshipChange[] = [];
+  after.relationships.forEach(rel => {
+    const old = before.relationships.find(r => r.id === rel.id && unmatchedBefore.has(r)) ??
+      before.relationships.find(r =>
+        unmatchedBefore.has(r) &&
+        r.from === beforeIdOf(rel.from) &&
+        r.to === beforeIdOf(rel.to) &&
+        normalize(r.label) === normalize(rel.label)
+      );
+    const description = describeRelationship(rel, after);
+    if (!old) {
+      relationships.push({ kind: 'added', relationshipId: rel.id, description });
+      return;
+    }
+    unmatchedBefore.delete(old);
+    // Renamed endpoints already show as entity changes
+    const retargeted = old.from !== beforeIdOf(rel.from) || old.to !== beforeIdOf(rel.to);
+    if (retargeted || normalize(old.label) !== normalize(rel.label) || cardinalities(old) !== cardinalities(rel)) {
+      relationships.push({
+        kind: 'changed',
+        relationshipId: rel.id,
+        description: `${description} (${cardinalities(rel)})`,
+        before: `${describeRelationship(old, before)} (${cardinalities(old)})`
+      });
+    }
+  });
+  unmatchedBefore.forEach(rel => {
+    relationships.push({ kind: 'removed', relationshipId: rel.id, description: describeRelationship(rel, before) });
+  });
+
+  return { entities, relationships };
+};
+
+export const isEmptyDiff = (diff: ModelDiff) => diff.entities.length === 0 && diff.relationships.length === 0;
@@ -0,0 +1,91 @@
+import { Entity, Transition } from '../types';
+
+const distinct = (values: string[]) => [...new Set(values.map(value => value.trim()).filter(Boolean))];
+
+export const getTransitions = (entity: Entity) => entity.transitions || [];
+
+// Entities start in their first state
+export const initialState = (entity: Entity): string | undefined => distinct(entity.states || [])[0];
+
+// Transitions that name existing states and actions, trimmed
+export const validTransitions = (entity: Entity): Transition[] => {
+  const states = new Set(distinct(entity.states || []));
+  const actions = new Set(distinct(entity.actions || []));
+  return getTransitions(entity)
+    .map(t => ({ ...t, from: t.from.trim(), to: t.to.trim(), action: t.action.trim() }))
+    .filter(t => states.has(t.from) && states.has(t.to) && actions.has(t.action));
+};
+
+// States that can be reached from the initial state by following transitions
+export const reachableStates = (entity: Entity) => {
+  const start = initialState(entity);
+  const reached = new Set<string>(start ? [start] : []);
+  const transitions = validTransitions(entity);
+  const queue = [...reached];
+  while (queue.length > 0) {
+    const state = queue.shift()!;
+    transitions
+      .filter(t => t.from === state && !reached.has(t.to))
+      .forEach(t => {
+        reached.add(t.to);
+        queue.push(t.to);
+      });
+  }
+  return reached;
+};
+
+// States grouped by how many transitions they are from the initial state,
+// with unreachable states in a last group of their own
+export const stateLevels = (entity: Entity): string[][] => {
+  const start = initialState(entity);
+  if (!start) return [];
+  const transitions = validTransitions(entity);
+  const levels = [[start]];
+  const placed = new Set(levels[0]);
+  while (true) {
+    const next = distinct(
+      transitions.filter(t => levels[levels.length - 1].includes(t.from) && !placed.has(t.to)).map(t => t.to)
+    );
+    if (next.length === 0) break;
+    next.forEach(state => placed.add(state));
+    levels.push(next);
+  }
+  const unreachable = distinct(entity.states || []).filter(state => !placed.has(state));
+  return unreachable.length > 0 ? [...levels, unreachable] : levels;
+};
+
+export const unreachableStates = (entity: Entity) => {
+  const reached = reachableStates(entity);
+  return distinct(entity.states || []).filter(state => !reached.has(state));
+};
+
+// Actions without a transition out of a reachable state
+export const unfiredActions = (entity: Entity) => {
+  const reached = reachableStates(entity);
+  const fired = new Set(validTransitions(entity).filter(t => reached.has(t.from)).map(t => t.action));
+  return distinct(entity.actions || []).filter(action => !fired.has(action));
+};
+
+// e.g. "draft --submit--> pending [has items]"
+export const formatTransition = (transition: Transition) =>
+  `${transition.from} --${transition.action}--> ${transition.to}` +
+  (transition.guard?.trim() ? ` [${transition.guard.trim()}]` : '');
+
+// Keep transitions pointing at a state or action when it's renamed
+export const renameInTransitions = (
+  transitions: Transition[],
+  kind: 'state' | 'action',
+  oldName: string,
+  newName: string
+): Transition[] =>
+  transitions.map(t => {
+    if (kind === 'action') return t.action === oldName ? { ...t, action: newName } : t;
+    return {
+      ...t,
+      from: t.from === oldName ? newName : t.from,
+      to: t.to === oldName ? newName : t.to,
+    };
+  });
+
+export const transitionsWithout = (transitions: Transition[], kind: 'state' | 'action', name: string) =>
+  transitions.filter(t => (kind === 'action' ? t.action !== name : t.from !== name && t.to !== name));
@@ -0,0 +1,38 @@
+import { Model } from '../types';
+
+export type Severity = 'error' | 'warning' | 'info';
+
+// What a problem is about. Relationship problems also carry an entity when one
+// of the endpoints still exists, so there is something to select.
+export interface ProblemTarget {
+  entityId?: string;
+  relationshipId?: string;
+}
+
+export interface Problem {
+  ruleId: string;
+  severity: Severity;
+  message: string;
+  target: ProblemTarget;
+}
+
+export interface ValidationRule {
+  id: string;
+  description: string;
+  severity: Severity;
+  check: (model: Model) => { message: string; target: ProblemTarget }[];
+}
+
+const severityRank: Record<Severity, number> = { error: 0, warning: 1, info: 2 };
+
+// Run every rule over the model, most severe problems first
+export const validateModel = (model: Model, rules: ValidationRule[]): Problem[] =>
+  rules
+    .flatMap(rule =>
+      rule.check(model).map(finding => ({
+        ruleId: rule.id,
+        severity: rule.severity,
+        ...finding
+      }))
+    )
+    .sort((a, b) => severityRank[a.severity] - severityRank[b.severity]);
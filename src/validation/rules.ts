@@ -0,0 +1,353 @@
+import { CustomType, Entity, Model } from '../types';
+import { ProblemTarget, ValidationRule } from './engine';
+import { defaultValueProblem, getEnumValues } from '../utils/attributes';
+import { cyclicCustomTypes, findCustomType, isValidPattern } from '../utils/customTypes';
+import { permissionRows } from '../utils/permissions';
+import { getRelationshipTypes } from '../utils/relationships';
+import { getTransitions, unfiredActions as findUnfiredActions, unreachableStates as findUnreachableStates } from '../utils/stateMachine';
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const displayName = (entity: Entity) => entity.name.trim() || 'Unnamed entity';
+
+const typeName = (customType: CustomType) => customType.name.trim() || 'Unnamed type';
+
+// Find values that appear more than once in a list, ignoring blanks and case
+const duplicatesIn = (values: string[]) => {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  values.map(normalize).filter(Boolean).forEach(value => {
+    if (seen.has(value)) duplicates.add(value);
+    seen.add(value);
+  });
+  return [...duplicates];
+};
+
+const perEntity = (
+  model: Model,
+  check: (entity: Entity) => string[]
+): { message: string; target: ProblemTarget }[] =>
+  model.entities.flatMap(entity =>
+    check(entity).map(message => ({ message, target: { entityId: entity.id } }))
+  );
+
+export const duplicateEntityNames: ValidationRule = {
+  id: 'duplicate-entity-name',
+  description: 'Entity names must be unique',
+  severity: 'error',
+  check: (model) => {
+    const duplicates = new Set(duplicatesIn(model.entities.map(e => e.name)));
+    return model.entities
+      .filter(e => duplicates.has(normalize(e.name)))
+      .map(e => ({
+        message: `Another entity is also named "${e.name.trim()}"`,
+        target: { entityId: e.id }
+      }));
+  }
+};
+
+export const blankEntityNames: ValidationRule = {
+  id: 'blank-entity-name',
+  description: 'Entities must have a name',
+  severity: 'error',
+  check: (model) => perEntity(model, entity =>
+    entity.name.trim() ? [] : ['Entity has no name']
+  )
+};
+
+export const blankAttributeNames: ValidationRule = {
+  id: 'blank-attribute-name',
+  description: 'Attributes must have a name',
+  severity: 'error',
+  check: (model) => perEntity(model, entity =>
+    (entity.attributes || [])
+      .map((attr, i) => attr.name?.trim() ? null : `${displayName(entity)}: attribute ${i + 1} has no name`)
+      .filter((message): message is string => message !== null)
+  )
+};
+
+export const duplicateAttributeNames: ValidationRule = {
+  id: 'duplicate-attribute-name',
+  description: 'Attribute names must be unique within an entity',
+  severity: 'error',
+  check: (model) => perEntity(model, entity =>
+    duplicatesIn((entity.attributes || []).map(attr => attr.name || ''))
+      .map(name => `${displayName(entity)}: attribute "${name}" is defined more than once`)
+  )
+};
+
+export const blankStatesAndActions: ValidationRule = {
+  id: 'blank-state-or-action',
+  description: 'States and actions must have a name',
+  severity: 'warning',
+  check: (model) => perEntity(model, entity => [
+    ...(entity.states || []).some(state => !state.trim()) ? [`${displayName(entity)} has a blank state`] : [],
+    ...(entity.actions || []).some(action => !action.trim()) ? [`${displayName(entity)} has a blank action`] : []
+  ])
+};
+
+export const duplicateStates: ValidationRule = {
+  id: 'duplicate-state',
+  description: 'States must be unique within an entity',
+  severity: 'warning',
+  check: (model) => perEntity(model, entity =>
+    duplicatesIn(entity.states || []).map(state => `${displayName(entity)}: state "${state}" is listed more than once`)
+  )
+};
+
+export const duplicateActions: ValidationRule = {
+  id: 'duplicate-action',
+  description: 'Actions must be unique within an entity',
+  severity: 'warning',
+  check: (model) => perEntity(model, entity =>
+    duplicatesIn(entity.actions || []).map(action => `${displayName(entity)}: action "${action}" is listed more than once`)
+  )
+};
+
+export const enumsWithoutValues: ValidationRule = {
+  id: 'enum-without-values',
+  description: 'Enum attributes should list their values',
+  severity: 'warning',
+  check: (model) => perEntity(model, entity =>
+    (entity.attributes || [])
+      .filter(attr => attr.type === 'enum' && !findCustomType(model.customTypes, attr) && getEnumValues(attr).length === 0)
+      .map(attr => `${displayName(entity)}: enum attribute "${attr.name}" has no values`)
+  )
+};
+
+export const invalidDefaultValues: ValidationRule = {
+  id: 'invalid-default-value',
+  description: "Default values must suit the attribute's type",
+  severity: 'error',
+  check: (model) => perEntity(model, entity =>
+    (entity.attributes || []).flatMap(attr => {
+      const problem = defaultValueProblem(attr, model.customTypes);
+      return problem ? [`${displayName(entity)}: default "${attr.defaultValue?.trim()}" of "${attr.name}" ${problem}`] : [];
+    })
+  )
+};
+
+export const customTypeNames: ValidationRule = {
+  id: 'custom-type-name',
+  description: 'Custom types must have a unique name',
+  severity: 'error',
+  check: (model) => {
+    const customTypes = model.customTypes || [];
+    const duplicates = new Set(duplicatesIn(customTypes.map(t => t.name)));
+    return customTypes.flatMap(t => {
+      if (!t.name.trim()) return [{ message: 'A custom type has no name', target: {} }];
+      return duplicates.has(normalize(t.name))
+        ? [{ message: `Another custom type is also named "${t.name.trim()}"`, target: {} }]
+        : [];
+    });
+  }
+};
+
+export const invalidCustomTypes: ValidationRule = {
+  id: 'invalid-custom-type',
+  description: 'Custom type constraints must be usable',
+  severity: 'error',
+  check: (model) => {
+    const customTypes = model.customTypes || [];
+    const messages = customTypes.flatMap(t => {
+      if (t.kind !== 'constrained') return [];
+      const problems: string[] = [];
+      if (t.pattern && !isValidPattern(t.pattern)) problems.push(`${typeName(t)}: pattern is not a valid regular expression`);
+      if (t.minLength !== undefined && t.maxLength !== undefined && t.minLength > t.maxLength) {
+        problems.push(`${typeName(t)}: minimum length is more than the maximum`);
+      }
+      if (t.minimum !== undefined && t.maximum !== undefined && t.minimum > t.maximum) {
+        problems.push(`${typeName(t)}: minimum is more than the maximum`);
+      }
+      return problems;
+    });
+    cyclicCustomTypes(customTypes).forEach(t => {
+      messages.push(`${typeName(t)} contains itself through its fields`);
+    });
+    return messages.map(message => ({ message, target: {} }));
+  }
+};
+
+export const emptyValueObjects: ValidationRule = {
+  id: 'empty-value-object',
+  description: 'Value objects should have named fields',
+  severity: 'warning',
+  check: (model) => (model.customTypes || [])
+    .filter(t => t.kind === 'composite')
+    .flatMap(t => {
+      if (!t.fields.some(field => field.name.trim())) {
+        return [{ message: `Value object ${typeName(t)} has no fields`, target: {} }];
+      }
+      return duplicatesIn(t.fields.map(field => field.name)).map(name => ({
+        message: `Value object ${typeName(t)}: field "${name}" is defined more than once`,
+        target: {}
+      }));
+    })
+};
+
+export const invalidTransitions: ValidationRule = {
+  id: 'invalid-transition',
+  description: "Transitions must use the entity's own states and actions",
+  severity: 'error',
+  check: (model) => perEntity(model, entity => {
+    const states = new Set((entity.states || []).map(state => state.trim()));
+    const actions = new Set((entity.actions || []).map(action => action.trim()));
+    return getTransitions(entity).flatMap(t => [
+      ...[t.from, t.to]
+        .filter((state, i, pair) => pair.indexOf(state) === i && !states.has(state.trim()))
+        .map(state => `${displayName(entity)}: transition uses unknown state "${state.trim()}"`),
+      ...actions.has(t.action.trim()) ? [] : [`${displayName(entity)}: transition uses unknown action "${t.action.trim()}"`]
+    ]);
+  })
+};
+
+// Only entities that model a state machine are checked, so plain lists of
+// states and actions stay problem-free
+export const unreachableStates: ValidationRule = {
+  id: 'unreachable-state',
+  description: 'Every state should be reachable from the initial state',
+  severity: 'warning',
+  check: (model) => perEntity(model, entity =>
+    getTransitions(entity).length === 0
+      ? []
+      : findUnreachableStates(entity).map(state => `${displayName(entity)}: state "${state}" can't be reached`)
+  )
+};
+
+export const unfiredActions: ValidationRule = {
+  id: 'unfired-action',
+  description: 'Every action should trigger a transition',
+  severity: 'warning',
+  check: (model) => perEntity(model, entity =>
+    getTransitions(entity).length === 0
+      ? []
+      : findUnfiredActions(entity).map(action => `${displayName(entity)}: action "${action}" never fires`)
+  )
+};
+
+export const roleNames: ValidationRule = {
+  id: 'role-name',
+  description: 'Roles must have a unique name',
+  severity: 'error',
+  check: (model) => {
+    const roles = model.roles || [];
+    const duplicates = new Set(duplicatesIn(roles.map(role => role.name)));
+    return roles.flatMap(role => {
+      if (!role.name.trim()) return [{ message: 'A role has no name', target: {} }];
+      return duplicates.has(normalize(role.name))
+        ? [{ message: `Another role is also named "${role.name.trim()}"`, target: {} }]
+        : [];
+    });
+  }
+};
+
+// Only checked once the model has roles to grant
+export const actionsWithoutRoles: ValidationRule = {
+  id: 'action-without-role',
+  description: 'Every action should be allowed for at least one role',
+  severity: 'warning',
+  check: (model) => {
+    if ((model.roles || []).length === 0) return [];
+    return permissionRows(model)
+      .filter(row => row.roles.length === 0)
+      .map(row => ({
+        message: `${displayName(row.entity)}: no role may perform "${row.action}"`,
+        target: { entityId: row.entity.id }
+      }));
+  }
+};
+
+export const invalidPermissions: ValidationRule = {
+  id: 'invalid-permission',
+  description: "Permissions must use the entity's own actions and states",
+  severity: 'warning',
+  check: (model) => perEntity(model, entity => {
+    const actions = new Set((entity.actions || []).map(action => action.trim()));
+    const states = new Set((entity.states || []).map(state => state.trim()));
+    return (entity.permissions || []).flatMap(p => [
+      ...actions.has(p.action.trim()) ? [] : [`${displayName(entity)}: permission for unknown action "${p.action.trim()}"`],
+      ...(p.states || [])
+        .filter(state => !states.has(state.trim()))
+        .map(state => `${displayName(entity)}: "${p.action.trim()}" requires unknown state "${state.trim()}"`)
+    ]);
+  })
+};
+
+// A wording used by two types, forward or inverse, can't tell them apart
+export const relationshipTypeLabels: ValidationRule = {
+  id: 'relationship-type-label',
+  description: 'Relationship types must have a unique label and inverse label',
+  severity: 'error',
+  check: (model) => {
+    const types = getRelationshipTypes(model);
+    const wordings = (type: { label: string; inverseLabel: string }) =>
+      [...new Set([type.label, type.inverseLabel].map(label => label.trim()).filter(Boolean))];
+    const duplicates = new Set(duplicatesIn(types.flatMap(wordings)));
+    return types.flatMap(type => {
+      if (!type.label.trim()) return [{ message: 'A relationship type has no label', target: {} }];
+      return wordings(type)
+        .filter(wording => duplicates.has(normalize(wording)))
+        .map(wording => ({ message: `Another relationship type also reads "${wording}"`, target: {} }));
+    });
+  }
+};
+
+export const orphanEntities: ValidationRule = {
+  id: 'orphan-entity',
+  description: 'Objects should relate to at least one other object',
+  severity: 'warning',
+  check: (model) => {
+    if (model.entities.length < 2) return [];
+    const related = new Set(model.relationships.flatMap(r => [r.from, r.to]));
+    return model.entities
+      .filter(e => !related.has(e.id))
+      .map(e => ({
+        message: `${displayName(e)} has no relationships`,
+        target: { entityId: e.id }
+      }));
+  }
+};
+
+export const danglingRelationships: ValidationRule = {
+  id: 'dangling-relationship',
+  description: 'Relationships must connect two existing entities',
+  severity: 'error',
+  check: (model) => {
+    const entities = new Map(model.entities.map(e => [e.id, e]));
+    return model.relationships
+      .filter(r => !entities.has(r.from) || !entities.has(r.to))
+      .map(r => {
+        const existing = entities.get(r.from) ?? entities.get(r.to);
+        return {
+          message: existing
+            ? `"${r.label}" relationship of ${displayName(existing)} points to a missing entity`
+            : `"${r.label}" relationship has no existing endpoints`,
+          target: { relationshipId: r.id, entityId: existing?.id }
+        };
+      });
+  }
+};
+
+export const defaultRules: ValidationRule[] = [
+  duplicateEntityNames,
+  blankEntityNames,
+  blankAttributeNames,
+  duplicateAttributeNames,
+  blankStatesAndActions,
+  duplicateStates,
+  duplicateActions,
+  enumsWithoutValues,
+  invalidDefaultValues,
+  customTypeNames,
+  invalidCustomTypes,
+  emptyValueObjects,
+  invalidTransitions,
+  unreachableStates,
+  unfiredActions,
+  roleNames,
+  actionsWithoutRoles,
+  invalidPermissions,
+  relationshipTypeLabels,
+  orphanEntities,
+  danglingRelationships
+];